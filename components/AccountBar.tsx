@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { PublicUser, Workspace } from '../lib/types';
+
+/**
+ * Signed-in user, workspace picker and sign-out. Reports the chosen workspace
+ * (defaulting to the first one) so pages can scope saves and lists to it.
+ */
+export function AccountBar({ workspaceId, onWorkspaceChange }: {
+  workspaceId: string | null;
+  onWorkspaceChange: (id: string | null) => void;
+}) {
+  const [user, setUser] = useState<PublicUser | null>(null);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/auth/me')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        setUser(data?.user ?? null);
+        setWorkspaces(data?.workspaces ?? []);
+        if (!workspaceId && data?.workspaces?.length) onWorkspaceChange(data.workspaces[0].id);
+      })
+      .catch(() => {})
+      .finally(() => setLoaded(true));
+  }, []);
+
+  const signOut = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' }).catch(() => {});
+    setUser(null);
+    setWorkspaces([]);
+    onWorkspaceChange(null);
+  };
+
+  if (!loaded) return null;
+  if (!user) {
+    return (
+      <div style={{ marginBottom: '1rem', fontSize: '0.9rem' }}>
+        <Link href="/login">Sign in</Link> to save, load and share valuations.
+      </div>
+    );
+  }
+  const role = workspaces.find((w) => w.id === workspaceId)?.members.find((m) => m.userId === user.id)?.role;
+  return (
+    <div style={{ marginBottom: '1rem', fontSize: '0.9rem' }}>
+      Signed in as <strong>{user.name || user.email}</strong> · Workspace{' '}
+      <select value={workspaceId ?? ''} onChange={(e) => onWorkspaceChange(e.target.value || null)} style={{ padding: '0.2rem' }}>
+        {workspaces.map((w) => <option key={w.id} value={w.id}>{w.name}</option>)}
+      </select>
+      {role && <span style={{ color: '#666' }}> ({role})</span>}{' '}
+      · <button onClick={signOut} style={{ padding: '0.1rem 0.4rem' }}>Sign out</button>
+    </div>
+  );
+}
@@ -1,14 +1,22 @@
 import React, { useEffect, useRef, useState } from 'react';
+import type { InputPatch, PatchProposal } from '../lib/assistantTools';
+import { MAX_CHAT_MESSAGE_LENGTH, MAX_CHAT_MESSAGES } from '../lib/validation';
+
+type PanelMessage = { role: 'user' | 'assistant'; content: string; proposal?: PatchProposal; applied?: boolean };
+
+const fmt = (v?: number | boolean) => (typeof v === 'number' ? String(Math.round(v * 1000) / 1000) : String(v ?? '—'));
+const money = (v: number) => `$${Math.round(v)}M`;
 
 const quick = [
   'Explain PTRS calculation here',
   'Which 3 inputs move rNPV most?',
   'Validate LOE and exclusivity assumptions',
   'Suggest low/base/high scenarios',
+  'What if launch slips two years?',
 ];
 
-const AssistantPanel: React.FC<{ valuation: any }> = ({ valuation }) => {
-  const [messages, setMessages] = useState<Array<{ role: 'user' | 'assistant'; content: string }>>([
+const AssistantPanel: React.FC<{ valuation: any; onApplyPatch?: (patch: InputPatch) => void }> = ({ valuation, onApplyPatch }) => {
+  const [messages, setMessages] = useState<PanelMessage[]>([
     { role: 'assistant', content: 'Ask me about this valuation. I can explain rNPV, PTRS, LOE, royalty math, and data sources.' },
   ]);
   const [input, setInput] = useState('What drives the rNPV on this asset?');
@@ -22,7 +30,7 @@ const AssistantPanel: React.FC<{ valuation: any }> = ({ valuation }) => {
   async function send(text?: string) {
     const content = (text ?? input).trim();
     if (!content) return;
-    const next = [...messages, { role: 'user' as const, content }];
+    const next: PanelMessage[] = [...messages, { role: 'user', content }];
     setMessages(next);
     setInput('');
     setLoading(true);
@@ -30,10 +38,14 @@ const AssistantPanel: React.FC<{ valuation: any }> = ({ valuation }) => {
       const res = await fetch('/api/chat', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ messages: next, context: { type: 'valuation', payload: valuation } }),
+        body: JSON.stringify({
+          // The server takes a bounded history: the most recent turns, each trimmed to the length limit
+          messages: next.slice(-MAX_CHAT_MESSAGES).map(({ role, content }) => ({ role, content: content.slice(0, MAX_CHAT_MESSAGE_LENGTH) })),
+          context: { type: 'valuation', payload: valuation },
+        }),
       });
       const data = await res.json();
-      setMessages((m) => [...m, { role: 'assistant', content: data?.message || 'No reply.' }]);
+      setMessages((m) => [...m, { role: 'assistant', content: data?.message || data?.error || 'No reply.', proposal: data?.proposal }]);
     } catch {
       setMessages((m) => [...m, { role: 'assistant', content: 'Assistant error. Check server logs or API key.' }]);
     } finally {
@@ -41,6 +53,13 @@ const AssistantPanel: React.FC<{ valuation: any }> = ({ valuation }) => {
     }
   }
 
+  function apply(index: number) {
+    const proposal = messages[index]?.proposal;
+    if (!proposal || !onApplyPatch) return;
+    onApplyPatch(proposal.patch);
+    setMessages((m) => m.map((msg, k) => (k === index ? { ...msg, applied: true } : msg)));
+  }
+
   return (
     <div className="sticky top-20 rounded-2xl border border-gray-200 dark:border-gray-800 p-4 bg-white dark:bg-neutral-900 max-h-[80vh] flex flex-col">
       <div className="text-sm font-medium mb-2">Assistant</div>
@@ -66,7 +85,36 @@ const AssistantPanel: React.FC<{ valuation: any }> = ({ valuation }) => {
                   : 'bg-gray-100 dark:bg-neutral-900 border border-gray-200 dark:border-neutral-800')
               }
             >
-              {m.content}
+              <div className="whitespace-pre-line">{m.content}</div>
+              {m.proposal && (
+                <div className="mt-2 text-xs">
+                  <table className="w-full">
+                    <tbody>
+                      {m.proposal.changes.map((c) => (
+                        <tr key={c.field}>
+                          <td className="pr-2">{c.field}</td>
+                          <td className="pr-2 text-red-600 line-through">{fmt(c.from)}</td>
+                          <td className="text-green-700">{fmt(c.to)}</td>
+                        </tr>
+                      ))}
+                      <tr>
+                        <td className="pr-2 font-medium">rNPV</td>
+                        <td className="pr-2">{money(m.proposal.before.rnpv)}</td>
+                        <td className="font-medium">{money(m.proposal.after.rnpv)}</td>
+                      </tr>
+                    </tbody>
+                  </table>
+                  {onApplyPatch && (
+                    <button
+                      onClick={() => apply(i)}
+                      disabled={m.applied}
+                      className="mt-2 px-2 py-1 rounded-lg bg-black text-white disabled:opacity-60"
+                    >
+                      {m.applied ? 'Applied' : 'Apply changes'}
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
           </div>
         ))}
@@ -80,6 +128,7 @@ const AssistantPanel: React.FC<{ valuation: any }> = ({ valuation }) => {
           onKeyDown={(e) => {
             if (e.key === 'Enter') send();
           }}
+          maxLength={MAX_CHAT_MESSAGE_LENGTH}
           placeholder="Ask about this valuation…"
           className="flex-1 px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-700 bg-transparent outline-none"
         />
@@ -92,7 +141,7 @@ const AssistantPanel: React.FC<{ valuation: any }> = ({ valuation }) => {
         </button>
       </div>
       <div className="mt-2 text-[11px] text-gray-500">
-        Tip: use the quick prompts above to analyze drivers, assumptions, and scenarios.
+        Tip: use the quick prompts above, or ask “what if launch slips two years?” to re-run the model.
       </div>
     </div>
   );
@@ -0,0 +1,81 @@
+import React from 'react';
+import type { DealTerms, Milestone, RoyaltyTier } from '../lib/types';
+
+const input = { width: '100%', padding: '0.4rem' };
+const cell = { padding: '0.25rem' };
+
+export const defaultDealTerms: DealTerms = {
+  upfront: 20,
+  tiers: [
+    { upTo: 250, rate: 8 },
+    { upTo: 500, rate: 12 },
+    { upTo: null, rate: 15 },
+  ],
+  milestones: [
+    { name: 'Phase III start', kind: 'development', phase: 'Phase III', amount: 25 },
+    { name: 'Approval', kind: 'development', phase: 'Approved', amount: 50 },
+    { name: 'First $500M sales year', kind: 'sales', salesThreshold: 500, amount: 75 },
+  ],
+  loeStepDown: 0.5,
+};
+
+export function DealTermsEditor({ value, onChange, phases }: { value: DealTerms; onChange: (v: DealTerms) => void; phases: string[] }) {
+  const setTier = (k: number, patch: Partial<RoyaltyTier>) =>
+    onChange({ ...value, tiers: value.tiers.map((t, j) => (j === k ? { ...t, ...patch } : t)) });
+  const setMilestone = (k: number, patch: Partial<Milestone>) =>
+    onChange({ ...value, milestones: value.milestones.map((m, j) => (j === k ? { ...m, ...patch } : m)) });
+
+  return (
+    <div style={{ border: '1px solid #ddd', borderRadius: 8, padding: '0.75rem' }}>
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem', marginBottom: '0.75rem' }}>
+        <div><label>Upfront ($M)</label><input type="number" min={0} value={value.upfront} onChange={(e) => onChange({ ...value, upfront: Number(e.target.value) })} style={input} /></div>
+        <div><label>Royalty multiplier after LOE</label><input type="number" min={0} max={1} step="0.05" value={value.loeStepDown ?? 1} onChange={(e) => onChange({ ...value, loeStepDown: Number(e.target.value) })} style={input} /></div>
+      </div>
+
+      <strong style={{ fontSize: '0.9rem' }}>Royalty tiers (marginal)</strong>
+      <table style={{ width: '100%', fontSize: '0.85rem', marginBottom: '0.5rem' }}>
+        <thead><tr><th style={cell}>Annual sales up to ($M, blank = no cap)</th><th style={cell}>Rate (%)</th><th /></tr></thead>
+        <tbody>
+          {value.tiers.map((t, k) => (
+            <tr key={k}>
+              <td style={cell}><input type="number" min={0} value={t.upTo ?? ''} onChange={(e) => setTier(k, { upTo: e.target.value === '' ? null : Number(e.target.value) })} style={input} /></td>
+              <td style={cell}><input type="number" min={0} step="0.5" value={t.rate} onChange={(e) => setTier(k, { rate: Number(e.target.value) })} style={input} /></td>
+              <td style={cell}><button type="button" onClick={() => onChange({ ...value, tiers: value.tiers.filter((_, j) => j !== k) })}>✕</button></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button type="button" onClick={() => onChange({ ...value, tiers: [...value.tiers, { upTo: null, rate: 0 }] })} style={{ padding: '0.3rem', marginBottom: '0.75rem' }}>Add tier</button>
+
+      <div><strong style={{ fontSize: '0.9rem' }}>Milestones</strong></div>
+      <table style={{ width: '100%', fontSize: '0.85rem', marginBottom: '0.5rem' }}>
+        <thead><tr><th style={cell}>Name</th><th style={cell}>Type</th><th style={cell}>Trigger</th><th style={cell}>Amount ($M)</th><th /></tr></thead>
+        <tbody>
+          {value.milestones.map((m, k) => (
+            <tr key={k}>
+              <td style={cell}><input type="text" value={m.name} onChange={(e) => setMilestone(k, { name: e.target.value })} style={input} /></td>
+              <td style={cell}>
+                <select value={m.kind} onChange={(e) => setMilestone(k, { kind: e.target.value as Milestone['kind'] })} style={input}>
+                  <option value="development">Development</option>
+                  <option value="sales">Sales</option>
+                </select>
+              </td>
+              <td style={cell}>
+                {m.kind === 'development' ? (
+                  <select value={m.phase ?? ''} onChange={(e) => setMilestone(k, { phase: e.target.value })} style={input}>
+                    {phases.map((p) => <option key={p} value={p}>{p}</option>)}
+                  </select>
+                ) : (
+                  <input type="number" min={0} title="Annual sales threshold ($M)" value={m.salesThreshold ?? 0} onChange={(e) => setMilestone(k, { salesThreshold: Number(e.target.value) })} style={input} />
+                )}
+              </td>
+              <td style={cell}><input type="number" min={0} value={m.amount} onChange={(e) => setMilestone(k, { amount: Number(e.target.value) })} style={input} /></td>
+              <td style={cell}><button type="button" onClick={() => onChange({ ...value, milestones: value.milestones.filter((_, j) => j !== k) })}>✕</button></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button type="button" onClick={() => onChange({ ...value, milestones: [...value.milestones, { name: 'Milestone', kind: 'development', phase: 'NDA', amount: 0 }] })} style={{ padding: '0.3rem' }}>Add milestone</button>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import React from 'react';
+import type { Epidemiology, EpidemiologyForecast } from '../lib/types';
+
+const input = { width: '100%', padding: '0.4rem' };
+
+/** Illustrative chronic-disease funnel; roughly $500M at peak. */
+export const defaultEpidemiology: Epidemiology = {
+  basis: 'prevalence',
+  patients: 500_000,
+  diagnosisRate: 0.6,
+  treatedRate: 0.7,
+  lineOfTherapyShare: 0.4,
+  peakShare: 0.15,
+  annualPrice: 60_000,
+  compliance: 0.8,
+  durationMonths: 10,
+  yearsToPeakShare: 5,
+};
+
+const rates: [keyof Epidemiology, string][] = [
+  ['diagnosisRate', 'Diagnosis rate'],
+  ['treatedRate', 'Treated rate'],
+  ['lineOfTherapyShare', 'Addressable line of therapy'],
+  ['peakShare', 'Peak market share'],
+  ['compliance', 'Compliance'],
+];
+
+export function EpidemiologyEditor({ value, onChange, currency }: { value: Epidemiology; onChange: (v: Epidemiology) => void; currency: string }) {
+  const set = (patch: Partial<Epidemiology>) => onChange({ ...value, ...patch });
+  const incidence = value.basis === 'incidence';
+
+  return (
+    <div style={{ border: '1px solid #ddd', borderRadius: 8, padding: '0.75rem', display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '0.75rem' }}>
+      <div>
+        <label>Basis</label>
+        <select value={value.basis} onChange={(e) => set({ basis: e.target.value as Epidemiology['basis'] })} style={input}>
+          <option value="prevalence">Prevalence (chronic)</option>
+          <option value="incidence">Incidence (new cases/yr)</option>
+        </select>
+      </div>
+      <div><label>{incidence ? 'New patients per year' : 'Prevalent patients'}</label><input type="number" min={0} step={1000} value={value.patients} onChange={(e) => set({ patients: Number(e.target.value) })} style={input} /></div>
+      {rates.map(([field, label]) => (
+        <div key={field}><label>{label}</label><input type="number" min={0} max={1} step="0.01" value={value[field] as number} onChange={(e) => set({ [field]: Number(e.target.value) } as Partial<Epidemiology>)} style={input} /></div>
+      ))}
+      <div><label>Annual price per patient ({currency})</label><input type="number" min={0} step={1000} value={value.annualPrice} onChange={(e) => set({ annualPrice: Number(e.target.value) })} style={input} /></div>
+      <div>
+        <label>{incidence ? 'Course of therapy (months)' : 'Months on therapy per year'}</label>
+        <input type="number" min={0.1} max={incidence ? 240 : 12} step="0.5" value={value.durationMonths} onChange={(e) => set({ durationMonths: Number(e.target.value) })} style={input} />
+      </div>
+      <div><label>Years to peak share</label><input type="number" min={0.5} max={30} step="0.5" value={value.yearsToPeakShare ?? 5} onChange={(e) => set({ yearsToPeakShare: Number(e.target.value) })} style={input} /></div>
+    </div>
+  );
+}
+
+/** Patients to revenue; bar widths are relative to the top of the funnel. */
+export function EpidemiologyFunnel({ forecast, money }: { forecast: EpidemiologyForecast; money: (v: number) => string }) {
+  const top = Math.max(1, forecast.funnel[0]?.value ?? 1);
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: '220px 1fr 110px', gap: '0.25rem', alignItems: 'center', fontSize: '0.85rem' }}>
+      {forecast.funnel.map((s) => [
+        <div key={`${s.label}-label`}>{s.label}</div>,
+        <div key={`${s.label}-bar`} style={{ height: 14, background: '#eee' }}>
+          {s.unit === 'patients' && <div style={{ width: `${Math.min(100, (s.value / top) * 100)}%`, minWidth: 2, height: '100%', background: '#60a5fa' }} />}
+        </div>,
+        <div key={`${s.label}-value`} style={{ textAlign: 'right' }}>{s.unit === 'money' ? money(s.value) : Math.round(s.value).toLocaleString()}</div>,
+      ])}
+    </div>
+  );
+}
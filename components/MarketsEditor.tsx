@@ -0,0 +1,61 @@
+import React from 'react';
+import type { Market } from '../lib/types';
+
+const input = { width: '100%', padding: '0.4rem' };
+const cell = { padding: '0.25rem' };
+
+/** Illustrative split of global peak volume with typical launch sequencing and price levels. */
+export const defaultMarkets: Market[] = [
+  { name: 'US', peakShare: 0.45, launchLag: 0, pricingFactor: 1 },
+  { name: 'EU5', peakShare: 0.3, launchLag: 1, pricingFactor: 0.55 },
+  { name: 'Japan', peakShare: 0.1, launchLag: 2, pricingFactor: 0.6 },
+  { name: 'China', peakShare: 0.15, launchLag: 3, pricingFactor: 0.25 },
+];
+
+const percents = (list?: number[]) => (list ?? []).map((v) => Math.round(v * 100)).join(', ');
+
+export function MarketsEditor({ value, onChange, loeYear }: { value: Market[]; onChange: (v: Market[]) => void; loeYear: number }) {
+  const setMarket = (k: number, patch: Partial<Market>) =>
+    onChange(value.map((m, j) => (j === k ? { ...m, ...patch } : m)));
+  const totalShare = value.reduce((sum, m) => sum + m.peakShare, 0);
+
+  return (
+    <div style={{ border: '1px solid #ddd', borderRadius: 8, padding: '0.75rem' }}>
+      <table style={{ width: '100%', fontSize: '0.85rem', marginBottom: '0.5rem' }}>
+        <thead>
+          <tr>
+            <th style={cell}>Market</th><th style={cell}>Peak share (%)</th><th style={cell}>Launch lag (yrs)</th>
+            <th style={cell}>Pricing factor</th><th style={cell}>LOE year</th><th style={cell}>Erosion (% lost, yrs 1..n)</th><th />
+          </tr>
+        </thead>
+        <tbody>
+          {value.map((m, k) => (
+            <tr key={k}>
+              <td style={cell}><input type="text" value={m.name} onChange={(e) => setMarket(k, { name: e.target.value })} style={input} /></td>
+              <td style={cell}><input type="number" min={0} max={100} value={Math.round(m.peakShare * 1000) / 10} onChange={(e) => setMarket(k, { peakShare: Number(e.target.value) / 100 })} style={input} /></td>
+              <td style={cell}><input type="number" min={0} step="0.5" value={m.launchLag} onChange={(e) => setMarket(k, { launchLag: Number(e.target.value) })} style={input} /></td>
+              <td style={cell}><input type="number" min={0} step="0.05" title="Price relative to the reference (US = 1)" value={m.pricingFactor} onChange={(e) => setMarket(k, { pricingFactor: Number(e.target.value) })} style={input} /></td>
+              <td style={cell}><input type="number" placeholder={String(loeYear)} value={m.loeYear ?? ''} onChange={(e) => setMarket(k, { loeYear: e.target.value === '' ? undefined : Number(e.target.value) })} style={input} /></td>
+              <td style={cell}>
+                {/* Committed on blur so a half-typed list isn't reparsed under the cursor */}
+                <input
+                  key={percents(m.erosion)} type="text" placeholder="asset default" defaultValue={percents(m.erosion)}
+                  onBlur={(e) => {
+                    const list = e.target.value.split(/[,\s]+/).filter(Boolean).map(Number).filter((v) => isFinite(v));
+                    setMarket(k, { erosion: list.length ? list.map((v) => Math.min(1, Math.max(0, v / 100))) : undefined });
+                  }}
+                  style={input}
+                />
+              </td>
+              <td style={cell}><button type="button" onClick={() => onChange(value.filter((_, j) => j !== k))}>✕</button></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', fontSize: '0.85rem' }}>
+        <button type="button" onClick={() => onChange([...value, { name: `Market ${value.length + 1}`, peakShare: 0, launchLag: 0, pricingFactor: 1 }])} style={{ padding: '0.3rem' }}>Add market</button>
+        <span style={{ color: totalShare > 1 + 1e-9 ? 'red' : '#555' }}>Peak shares total {Math.round(totalShare * 1000) / 10}% of global volume</span>
+      </div>
+    </div>
+  );
+}
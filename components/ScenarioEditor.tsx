@@ -0,0 +1,49 @@
+import React from 'react';
+import type { NumericField, Scenario } from '../lib/types';
+import { numericFields } from '../lib/sensitivity';
+
+const input = { width: '100%', padding: '0.4rem' };
+
+export function ScenarioEditor({ value, onChange }: { value: Scenario[]; onChange: (v: Scenario[]) => void }) {
+  const setScenario = (k: number, patch: Partial<Scenario>) =>
+    onChange(value.map((s, j) => (j === k ? { ...s, ...patch } : s)));
+  const setOverride = (k: number, field: NumericField, v: number | undefined, replace?: NumericField) => {
+    const overrides = { ...value[k].overrides };
+    if (replace) delete overrides[replace];
+    if (v === undefined) delete overrides[field]; else overrides[field] = v;
+    setScenario(k, { overrides });
+  };
+
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(280px, 1fr))', gap: '0.75rem' }}>
+      {value.map((s, k) => (
+        <div key={k} style={{ border: '1px solid #ddd', borderRadius: 8, padding: '0.75rem' }}>
+          <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr auto', gap: '0.5rem', marginBottom: '0.5rem' }}>
+            <input type="text" value={s.name} onChange={(e) => setScenario(k, { name: e.target.value })} style={input} />
+            <input type="number" min={0} max={1} step="0.05" title="Probability weight" value={s.weight} onChange={(e) => setScenario(k, { weight: Number(e.target.value) })} style={input} />
+            <button type="button" onClick={() => onChange(value.filter((_, j) => j !== k))}>✕</button>
+          </div>
+          {(Object.keys(s.overrides) as NumericField[]).filter((f) => numericFields.includes(f)).map((f) => (
+            <div key={f} style={{ display: 'grid', gridTemplateColumns: '1fr 1fr auto', gap: '0.5rem', marginBottom: '0.25rem' }}>
+              <select value={f} onChange={(e) => setOverride(k, e.target.value as NumericField, s.overrides[f] as number, f)} style={input}>
+                {numericFields.map((o) => <option key={o} value={o}>{o}</option>)}
+              </select>
+              <input type="number" value={s.overrides[f] as number} onChange={(e) => setOverride(k, f, Number(e.target.value))} style={input} />
+              <button type="button" onClick={() => setOverride(k, f, undefined)}>✕</button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => {
+              const free = numericFields.find((f) => !(f in s.overrides));
+              if (free) setOverride(k, free, 0);
+            }}
+            style={{ padding: '0.3rem', fontSize: '0.85rem' }}
+          >
+            Add override
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react';
+import type { ShareLinkSummary } from '../lib/types';
+import { MAX_EXPIRY_DAYS, MIN_EXPIRY_DAYS } from '../lib/shareLinks';
+import type { ToastKind } from './Toast';
+
+/** Public links for a saved valuation: create with optional expiry/password, copy, revoke, see views. */
+export function ShareLinksPanel({ valuationId, notify }: {
+  valuationId: string;
+  notify: (message: string, kind?: ToastKind) => void;
+}) {
+  const [links, setLinks] = useState<ShareLinkSummary[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState<string>('30');
+  const [password, setPassword] = useState<string>('');
+
+  const base = `/api/valuation/${encodeURIComponent(valuationId)}/share`;
+  const url = (slug: string) => `${window.location.origin}/share/${slug}`;
+
+  const refresh = async () => {
+    try {
+      const res = await fetch(base);
+      const data = await res.json();
+      if (res.ok) setLinks(data);
+    } catch { /* listed again on the next action */ }
+  };
+  useEffect(() => { refresh(); }, [valuationId]);
+
+  const create = async () => {
+    try {
+      const res = await fetch(base, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ expiresInDays: expiresInDays || null, password: password || undefined }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || `Failed: ${res.status}`);
+      setPassword('');
+      notify('Public link created.', 'success');
+      refresh();
+    } catch (e: any) {
+      notify(e.message || 'Could not create link.', 'error');
+    }
+  };
+
+  const revoke = async (slug: string) => {
+    try {
+      const res = await fetch(`${base}?slug=${encodeURIComponent(slug)}`, { method: 'DELETE' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || `Failed: ${res.status}`);
+      notify('Link revoked.', 'success');
+      refresh();
+    } catch (e: any) {
+      notify(e.message || 'Could not revoke link.', 'error');
+    }
+  };
+
+  const cell = { padding: '0.25rem 0.5rem', textAlign: 'left' as const };
+  return (
+    <div style={{ marginBottom: '0.5rem' }}>
+      <div style={{ marginBottom: '0.5rem' }}>
+        <strong>Public links:</strong>{' '}
+        <input type="number" min={MIN_EXPIRY_DAYS} max={MAX_EXPIRY_DAYS} step={1} placeholder="days" title="Expires after (days); blank = never" value={expiresInDays} onChange={(e) => setExpiresInDays(e.target.value)} style={{ width: 70, padding: '0.4rem', marginRight: '0.5rem' }} />
+        <input type="password" placeholder="Password (optional)" value={password} onChange={(e) => setPassword(e.target.value)} autoComplete="new-password" style={{ padding: '0.4rem', marginRight: '0.5rem' }} />
+        <button onClick={create} style={{ padding: '0.4rem' }}>Create public link</button>
+      </div>
+      {links.length > 0 && (
+        <table style={{ borderCollapse: 'collapse', fontSize: '0.85rem', width: '100%' }}>
+          <thead>
+            <tr>{['Link', 'Status', 'Expires', 'Password', 'Views', ''].map((h) => <th key={h} style={cell}>{h}</th>)}</tr>
+          </thead>
+          <tbody>
+            {links.map((l) => (
+              <tr key={l.slug} style={{ color: l.status === 'active' ? undefined : '#888' }}>
+                <td style={cell}>
+                  {l.status === 'active' ? <a href={url(l.slug)} target="_blank" rel="noopener noreferrer">{url(l.slug)}</a> : `…${l.slug.slice(-6)}`}
+                </td>
+                <td style={cell}>{l.status}</td>
+                <td style={cell}>{l.expiresAt ? new Date(l.expiresAt).toLocaleDateString() : 'never'}</td>
+                <td style={cell}>{l.hasPassword ? 'yes' : 'no'}</td>
+                <td style={cell}>{l.views}</td>
+                <td style={cell}>
+                  {l.status === 'active' && <button onClick={() => revoke(l.slug)} style={{ padding: '0.2rem 0.4rem' }}>Revoke</button>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import type { TornadoBar, Valuation } from '../lib/types';
+import { formatMoney } from '../lib/fx';
+import { EpidemiologyFunnel } from './EpidemiologyEditor';
+
+const cell = { padding: '0.25rem 0.5rem' };
+const pct = (v?: number) => `${((v ?? 0) * 100).toFixed(1)}%`;
+
+/**
+ * Read-only rendering of a saved valuation (inputs, outputs, plan, cashflows, charts).
+ * Shows only the stored numbers; nothing here recomputes or edits.
+ */
+export function ValuationReport({ valuation, tornado = [] }: { valuation: Omit<Valuation, 'ownerId' | 'workspaceId'>; tornado?: TornadoBar[] }) {
+  const { inputs: i, outputs: o } = valuation;
+  const isOwner = (i.role ?? 'OWNER') === 'OWNER';
+  const money = (v?: number) => formatMoney(v ?? 0, o.currency ?? i.currency);
+  const schedule = o.schedule ?? [];
+  const markets = Object.keys(schedule[0]?.marketSales ?? {});
+  const maxFlow = Math.max(1, ...schedule.map((r) => Math.max(Math.abs(r.revenue), Math.abs(r.netCashflow))));
+  const tornadoMax = Math.max(1, ...tornado.map((b) => Math.max(Math.abs(b.rnpvLow - o.rnpv), Math.abs(b.rnpvHigh - o.rnpv))));
+
+  const inputRows: [string, string][] = [
+    ['Indication', i.indication],
+    ['Phase', i.phase],
+    ['Modality', i.modality ?? '—'],
+    ['Target / mechanism', [i.target, i.mechanism].filter(Boolean).join(' · ') || '—'],
+    ['Valued as', isOwner ? 'Owner' : 'Licensor'],
+    ['Peak sales', o.epidemiology ? `${money(o.epidemiology.peakSales)} (patient funnel, ${i.epidemiology?.basis})` : money(i.peakSales)],
+    ['Launch / LOE', `${o.launchYear ?? i.launchYear} / ${i.loeYear}`],
+    ['Discount rate / tax', `${pct(i.discountRate)}${i.discountCurve?.length ? ' (curve)' : ''} / ${pct(i.taxRate)}`],
+    ['Currency / basis', `${i.currency ?? 'USD'} · ${i.discountBasis ?? 'nominal'}, inflation ${pct(i.inflation)}`],
+    ['COGS / commercial / working capital', `${pct(i.cogs)} / ${pct(i.commercialSpend)} / ${pct(i.workingCapital)}`],
+    ['Royalty ramp', `${i.royaltyMin ?? 5}% → ${i.royaltyMax ?? 12}% over ${i.royaltyRampYears ?? 3}y`],
+  ];
+
+  return (
+    <div>
+      <section style={{ marginBottom: '1rem' }}>
+        <h2 style={{ fontSize: '1.25rem', marginBottom: '0.5rem' }}>Headline</h2>
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '0.5rem' }}>
+          <div><strong>rNPV:</strong> {money(o.rnpv)}</div>
+          <div><strong>PTRS:</strong> {pct(o.ptrs)}</div>
+          <div><strong>ROI:</strong> {o.roi != null ? `${o.roi}%` : 'n/a'}</div>
+          <div><strong>{isOwner ? 'Owner' : 'Licensor'} PV:</strong> {money(isOwner ? o.ownerPV : o.licensorPV)}</div>
+          <div><strong>Baseline PoS:</strong> {pct(o.baselinePos)}</div>
+          <div><strong>Mechanism bonus:</strong> {o.mechanismBonus.toFixed(2)}x</div>
+          <div><strong>Risked dev cost:</strong> {money(o.devCostPV)}</div>
+          <div><strong>Benchmarks:</strong> {o.benchmarkVersion ?? 'default'}</div>
+          <div><strong>Risk-adj. IRR:</strong> {o.irr != null ? pct(o.irr) : 'n/a'}</div>
+          <div><strong>Discounted payback:</strong> {o.paybackYear ?? 'never'}</div>
+          <div><strong>Peak funding:</strong> {money(o.peakFunding)}</div>
+          {o.decisionTree && <div><strong>eNPV (with abandonment):</strong> {money(o.decisionTree.enpv)}</div>}
+        </div>
+      </section>
+
+      <section style={{ marginBottom: '1rem' }}>
+        <h2 style={{ fontSize: '1.25rem', marginBottom: '0.5rem' }}>Inputs</h2>
+        <table style={{ borderCollapse: 'collapse', fontSize: '0.9rem' }}>
+          <tbody>
+            {inputRows.map(([k, v]) => (
+              <tr key={k}><th style={{ ...cell, textAlign: 'left' }}>{k}</th><td style={cell}>{v}</td></tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      {o.phaseBreakdown && o.phaseBreakdown.length > 0 && (
+        <section style={{ marginBottom: '1rem' }}>
+          <h2 style={{ fontSize: '1.25rem', marginBottom: '0.5rem' }}>Development plan</h2>
+          <table style={{ borderCollapse: 'collapse', fontSize: '0.85rem', width: '100%' }}>
+            <thead>
+              <tr>{['Phase', 'Years', 'Cost ($M)', 'P(reach)', 'P(pass)'].map((h) => <th key={h} style={{ ...cell, textAlign: 'left' }}>{h}</th>)}</tr>
+            </thead>
+            <tbody>
+              {o.phaseBreakdown.map((p) => (
+                <tr key={p.phase}>
+                  <td style={cell}>{p.phase}</td>
+                  <td style={cell}>{p.durationYears}</td>
+                  <td style={cell}>{p.cost}</td>
+                  <td style={cell}>{pct(p.probabilityOfReaching)}</td>
+                  <td style={cell}>{pct(p.transitionProbability)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      {o.epidemiology && (
+        <section style={{ marginBottom: '1rem' }}>
+          <h2 style={{ fontSize: '1.25rem', marginBottom: '0.5rem' }}>Patient funnel (at peak)</h2>
+          <EpidemiologyFunnel forecast={o.epidemiology} money={money} />
+        </section>
+      )}
+
+      {o.decisionTree && o.decisionTree.gates.length > 0 && (
+        <section style={{ marginBottom: '1rem' }}>
+          <h2 style={{ fontSize: '1.25rem', marginBottom: '0.5rem' }}>Decision tree</h2>
+          <table style={{ borderCollapse: 'collapse', fontSize: '0.85rem', width: '100%' }}>
+            <thead>
+              <tr>{['Gate', 'P(reach)', 'Value if continued', 'Decision', 'Option to stop'].map((h) => <th key={h} style={{ ...cell, textAlign: 'left' }}>{h}</th>)}</tr>
+            </thead>
+            <tbody>
+              {o.decisionTree.gates.map((g) => (
+                <tr key={g.phase}>
+                  <td style={cell}>{g.phase}</td>
+                  <td style={cell}>{pct(g.probabilityOfReaching)}</td>
+                  <td style={cell}>{money(g.continueValue)}</td>
+                  <td style={cell}>{g.abandon ? 'Abandon' : 'Continue'}</td>
+                  <td style={cell}>{money(g.optionValue)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div style={{ marginTop: '0.5rem' }}><strong>Abandonment options worth:</strong> {money(o.decisionTree.optionValue)}</div>
+        </section>
+      )}
+
+      {schedule.length > 0 && (
+        <section style={{ marginBottom: '1rem' }}>
+          <h2 style={{ fontSize: '1.25rem', marginBottom: '0.5rem' }}>Revenue and net cashflow ({o.currency ?? i.currency ?? 'USD'} M, unrisked)</h2>
+          <div style={{ display: 'flex', alignItems: 'flex-end', gap: 2, height: 140, borderBottom: '1px solid #ccc' }}>
+            {schedule.map((r) => (
+              <div key={r.year} title={`${r.year}: revenue ${money(r.revenue)}, net ${money(r.netCashflow)}`} style={{ flex: 1, display: 'flex', alignItems: 'flex-end', gap: 1, height: '100%' }}>
+                <div style={{ flex: 1, height: `${(Math.abs(r.revenue) / maxFlow) * 100}%`, background: '#93c5fd' }} />
+                <div style={{ flex: 1, height: `${(Math.abs(r.netCashflow) / maxFlow) * 100}%`, background: r.netCashflow < 0 ? '#fca5a5' : '#34d399' }} />
+              </div>
+            ))}
+          </div>
+          <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.75rem', color: '#666' }}>
+            <span>{schedule[0].year}</span><span>{schedule[schedule.length - 1].year}</span>
+          </div>
+          <div style={{ overflowX: 'auto', marginTop: '0.5rem' }}>
+            <table style={{ borderCollapse: 'collapse', fontSize: '0.8rem', width: '100%' }}>
+              <thead>
+                <tr>{['Year', 'Revenue', ...markets.map((m) => `${m} sales`), 'Tax', 'Net CF', 'PV', 'Cum. PV'].map((h) => <th key={h} style={{ ...cell, textAlign: 'right' }}>{h}</th>)}</tr>
+              </thead>
+              <tbody>
+                {schedule.map((r) => (
+                  <tr key={r.year}>
+                    {[r.year, r.revenue, ...markets.map((m) => r.marketSales?.[m] ?? 0), r.tax, r.netCashflow, r.pv, r.cumulativePv].map((v, k) => (
+                      <td key={k} style={{ ...cell, textAlign: 'right' }}>{k === 0 ? v : v.toFixed(1)}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+
+      {tornado.length > 0 && (
+        <section style={{ marginBottom: '1rem' }}>
+          <h2 style={{ fontSize: '1.25rem', marginBottom: '0.5rem' }}>Top rNPV drivers</h2>
+          <div style={{ display: 'grid', gridTemplateColumns: '160px 1fr', gap: '0.25rem', fontSize: '0.85rem' }}>
+            {tornado.map((b) => {
+              const lo = Math.min(b.rnpvLow, b.rnpvHigh) - o.rnpv;
+              const hi = Math.max(b.rnpvLow, b.rnpvHigh) - o.rnpv;
+              return [
+                <div key={`${b.field}-label`} title={`${b.low.toFixed(2)} → ${b.high.toFixed(2)}`}>{b.field}</div>,
+                <div key={`${b.field}-bar`} style={{ position: 'relative', height: 16, background: '#f3f4f6' }}>
+                  <div style={{
+                    position: 'absolute', top: 0, bottom: 0, background: '#60a5fa',
+                    left: `${50 + (lo / tornadoMax) * 50}%`, width: `${((hi - lo) / tornadoMax) * 50}%`,
+                  }} />
+                  <div style={{ position: 'absolute', top: 0, bottom: 0, left: '50%', width: 1, background: '#111' }} />
+                  <span style={{ position: 'absolute', right: 4, fontSize: '0.75rem' }}>±{money(b.swing / 2)}</span>
+                </div>,
+              ];
+            })}
+          </div>
+        </section>
+      )}
+
+      {valuation.scenarioOutputs && (
+        <section style={{ marginBottom: '1rem' }}>
+          <h2 style={{ fontSize: '1.25rem', marginBottom: '0.5rem' }}>Scenarios</h2>
+          <table style={{ borderCollapse: 'collapse', fontSize: '0.85rem' }}>
+            <thead>
+              <tr>{['Scenario', 'Weight', 'Launch', 'PTRS', 'rNPV'].map((h) => <th key={h} style={{ ...cell, textAlign: 'left' }}>{h}</th>)}</tr>
+            </thead>
+            <tbody>
+              {valuation.scenarioOutputs.results.map((r) => (
+                <tr key={r.name}>
+                  <td style={cell}>{r.name}</td>
+                  <td style={cell}>{pct(r.weight)}</td>
+                  <td style={cell}>{r.outputs.launchYear ?? ''}</td>
+                  <td style={cell}>{pct(r.outputs.ptrs)}</td>
+                  <td style={cell}>{money(r.outputs.rnpv)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div style={{ marginTop: '0.5rem' }}><strong>Probability-weighted rNPV:</strong> {money(valuation.scenarioOutputs.expectedRnpv)}</div>
+        </section>
+      )}
+    </div>
+  );
+}
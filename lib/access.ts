@@ -0,0 +1,40 @@
+/**
+ * Workspace access control
+ * Pure role checks; lib/store.ts loads the workspace and calls these before any read or write.
+ */
+import type { Workspace, WorkspaceRole } from './types';
+
+export const workspaceRoles: WorkspaceRole[] = ['viewer', 'editor', 'admin'];
+
+const rank: Record<WorkspaceRole, number> = { viewer: 1, editor: 2, admin: 3 };
+
+/** Carries the HTTP status so routes can answer with `res.status(e.status ?? 500)`. */
+export class AccessError extends Error {
+  constructor(message: string, public status: 401 | 403 | 404) {
+    super(message);
+    this.name = 'AccessError';
+  }
+}
+
+export function isWorkspaceRole(r: unknown): r is WorkspaceRole {
+  return typeof r === 'string' && (workspaceRoles as string[]).includes(r);
+}
+
+export function roleOf(ws: Workspace, userId: string): WorkspaceRole | null {
+  return ws.members.find((m) => m.userId === userId)?.role ?? null;
+}
+
+export function hasRole(ws: Workspace, userId: string, min: WorkspaceRole): boolean {
+  const role = roleOf(ws, userId);
+  return !!role && rank[role] >= rank[min];
+}
+
+/**
+ * Non-members get a 404 rather than a 403 so ids can't be probed for existence;
+ * members without the required role get a 403.
+ */
+export function assertRole(ws: Workspace | null, userId: string, min: WorkspaceRole, what = 'Not found'): Workspace {
+  if (!ws || !roleOf(ws, userId)) throw new AccessError(what, 404);
+  if (!hasRole(ws, userId, min)) throw new AccessError(`Requires ${min} access to this workspace`, 403);
+  return ws;
+}
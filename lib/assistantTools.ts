@@ -0,0 +1,189 @@
+/**
+ * Assistant tools
+ * Structured actions a chat provider can call instead of answering in prose. Tools
+ * only read the valuation; a proposed patch changes the form once the analyst applies it.
+ */
+import type { Inputs, NumericField, Outputs, TrialSummary } from './types';
+import type { LoeLookup } from './orangeBook';
+import { computeOutputs, withPeakSales } from './valuation';
+import { numericFields, tornado } from './sensitivity';
+import { validateInputs } from './validation';
+
+export type InputPatch = Partial<Pick<Inputs, NumericField | 'deriveLaunchYear'>>;
+
+export type ToolName = 'recompute' | 'sensitivity' | 'lookup_loe' | 'lookup_trial' | 'propose_patch';
+export type ToolCall = { name: ToolName; args: Record<string, any> };
+export type ToolResult = { name: ToolName; args: Record<string, any>; result?: any; error?: string };
+/** A call to a tool that doesn't exist; reported back to the model so it can correct itself. */
+export type UnknownToolResult = { name: string; args: Record<string, any>; error: string };
+
+type Snapshot = Pick<Outputs, 'rnpv' | 'ptrs' | 'roi' | 'launchYear'>;
+
+export type PatchProposal = {
+  patch: InputPatch;
+  rationale?: string;
+  changes: { field: keyof InputPatch; from?: number | boolean; to: number | boolean }[];
+  before: Snapshot;
+  after: Snapshot;
+};
+
+/** Server-side lookups wired in by the API route; a tool reports an error when its lookup is missing. */
+export type ToolEnv = {
+  lookupLoe?: (drugName: string) => LoeLookup | null;
+  lookupTrial?: (nctId: string) => Promise<TrialSummary | null>;
+  currentYear?: number;
+};
+
+const patchSchema = {
+  type: 'object',
+  description: `Input fields to change, using the model's units (rates as fractions, money in $M). Allowed: ${numericFields.join(', ')}, deriveLaunchYear.`,
+  additionalProperties: { type: ['number', 'boolean'] },
+};
+
+/** OpenAI-style function definitions, so any compatible provider can call the same tools. */
+export const toolDefinitions = [
+  {
+    name: 'recompute',
+    description: 'Re-run the rNPV model with some inputs changed and return the resulting outputs.',
+    parameters: { type: 'object', properties: { patch: patchSchema }, required: ['patch'] },
+  },
+  {
+    name: 'sensitivity',
+    description: 'One-way (tornado) sensitivity of rNPV, largest swing first.',
+    parameters: {
+      type: 'object',
+      properties: {
+        fields: { type: 'array', items: { type: 'string', enum: numericFields } },
+        top: { type: 'number', description: 'How many bars to return (default 5)' },
+      },
+    },
+  },
+  {
+    name: 'lookup_loe',
+    description: 'Loss-of-exclusivity year for a marketed drug from the FDA Orange Book.',
+    parameters: { type: 'object', properties: { drugName: { type: 'string' } }, required: ['drugName'] },
+  },
+  {
+    name: 'lookup_trial',
+    description: 'Phase, sponsor, status and dates of a ClinicalTrials.gov study.',
+    parameters: { type: 'object', properties: { nctId: { type: 'string' } }, required: ['nctId'] },
+  },
+  {
+    name: 'propose_patch',
+    description: 'Propose an input change for the analyst to review and apply to the form.',
+    parameters: {
+      type: 'object',
+      properties: { patch: patchSchema, rationale: { type: 'string' } },
+      required: ['patch'],
+    },
+  },
+];
+
+const toolNames = toolDefinitions.map((t) => t.name) as ToolName[];
+
+export function isToolName(name: string): name is ToolName {
+  return (toolNames as string[]).includes(name);
+}
+
+/** Keeps only known fields with finite values; throws on anything else so the model can correct itself. */
+export function sanitizePatch(raw: any): InputPatch {
+  if (!raw || typeof raw !== 'object') throw new Error('patch must be an object');
+  const patch: Record<string, number | boolean> = {};
+  for (const [field, value] of Object.entries(raw)) {
+    if (field === 'deriveLaunchYear') {
+      if (typeof value !== 'boolean') throw new Error('deriveLaunchYear must be a boolean');
+      patch[field] = value;
+    } else if ((numericFields as string[]).includes(field)) {
+      if (typeof value !== 'number' || !isFinite(value)) throw new Error(`${field} must be a finite number`);
+      patch[field] = value;
+    } else {
+      throw new Error(`Unknown input field: ${field}`);
+    }
+  }
+  if (!Object.keys(patch).length) throw new Error('patch is empty');
+  return patch as InputPatch;
+}
+
+/** How many tornado bars to return; like patches, a bad value is an error the model can correct. */
+function sanitizeTop(raw: unknown): number {
+  if (raw == null) return 5;
+  if (typeof raw !== 'number' || !Number.isInteger(raw) || raw < 1 || raw > numericFields.length) {
+    throw new Error(`top must be a whole number from 1 to ${numericFields.length}`);
+  }
+  return raw;
+}
+
+export function applyPatch(base: Inputs, patch: InputPatch): Inputs {
+  // As with scenarios, an explicit launch year overrides the phase-derived one
+  const pinned = patch.launchYear != null && patch.deriveLaunchYear == null ? { deriveLaunchYear: false } : {};
+  const { peakSales, ...rest } = patch;
+  const merged = { ...base, ...rest, ...pinned };
+  return peakSales == null ? merged : withPeakSales(merged, peakSales);
+}
+
+const snapshot = (o: Outputs): Snapshot => ({ rnpv: o.rnpv, ptrs: o.ptrs, roi: o.roi, launchYear: o.launchYear });
+
+export function proposePatch(
+  base: Inputs,
+  patch: InputPatch,
+  rationale?: string,
+  currentYear = new Date().getFullYear(),
+): PatchProposal {
+  const before = computeOutputs(base, currentYear);
+  const after = computeOutputs(applyPatch(base, patch), currentYear);
+  const changes = (Object.keys(patch) as (keyof InputPatch)[]).map((field) => ({
+    field,
+    // Show the launch year and peak sales the model actually used, not the stale form values
+    from: field === 'launchYear' ? before.launchYear ?? base.launchYear
+      : field === 'peakSales' ? before.epidemiology?.peakSales ?? base.peakSales
+      : base[field],
+    to: patch[field] as number | boolean,
+  }));
+  return { patch, rationale, changes, before: snapshot(before), after: snapshot(after) };
+}
+
+/** A model-supplied patch is only usable if the patched inputs still pass the schema. */
+function checkPatch(base: Inputs, raw: any): InputPatch {
+  const patch = sanitizePatch(raw);
+  const checked = validateInputs(applyPatch(base, patch));
+  if (!checked.ok) throw new Error(checked.errors.map((e) => e.message).join('; '));
+  return patch;
+}
+
+export async function runTool(call: ToolCall, inputs: Inputs, env: ToolEnv = {}): Promise<ToolResult> {
+  const { name, args } = call;
+  const currentYear = env.currentYear ?? new Date().getFullYear();
+  try {
+    switch (name) {
+      case 'recompute': {
+        const outputs = computeOutputs(applyPatch(inputs, checkPatch(inputs, args.patch)), currentYear);
+        const { schedule, phaseBreakdown, ...headline } = outputs;
+        return { name, args, result: headline };
+      }
+      case 'sensitivity': {
+        const fields = Array.isArray(args.fields)
+          ? args.fields.filter((f: string) => (numericFields as string[]).includes(f))
+          : numericFields;
+        return { name, args, result: tornado(inputs, {}, fields, currentYear).slice(0, sanitizeTop(args.top)) };
+      }
+      case 'lookup_loe': {
+        if (!env.lookupLoe) throw new Error('Orange Book data is not configured');
+        const found = env.lookupLoe(String(args.drugName ?? ''));
+        if (!found) throw new Error(`${args.drugName} not found in the Orange Book`);
+        return { name, args, result: { loeYear: found.loeYear, tradeNames: found.tradeNames, patents: found.patents.length } };
+      }
+      case 'lookup_trial': {
+        if (!env.lookupTrial) throw new Error('Trial lookup is not configured');
+        const trial = await env.lookupTrial(String(args.nctId ?? ''));
+        if (!trial) throw new Error(`Trial ${args.nctId} not found`);
+        return { name, args, result: trial };
+      }
+      case 'propose_patch':
+        return { name, args, result: proposePatch(inputs, checkPatch(inputs, args.patch), args.rationale, currentYear) };
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+  } catch (e: any) {
+    return { name, args, error: e.message };
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Local credentials: scrypt password hashes and HMAC-signed session cookies.
+ * Server-only (node crypto); request helpers live in lib/session.ts.
+ */
+import { createHmac, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+
+export const SESSION_COOKIE = 'dv_session';
+export const SESSION_TTL_SECONDS = 7 * 24 * 3600;
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Without AUTH_SECRET sessions only survive until the process restarts
+const fallbackSecret = randomBytes(32).toString('hex');
+
+export function sessionSecret(env = process.env): string {
+  if (env.AUTH_SECRET) return env.AUTH_SECRET;
+  if (env.NODE_ENV === 'production') throw new Error('AUTH_SECRET must be set in production');
+  return fallbackSecret;
+}
+
+/** URL-safe random token from the OS CSPRNG; 18 bytes gives a 24-character string. */
+export function randomToken(bytes = 18): string {
+  return randomBytes(bytes).toString('base64url');
+}
+
+/** A second account for an email, including two registrations racing past the lookup. */
+export class EmailTakenError extends Error {
+  status = 409 as const;
+  constructor() {
+    super('Email already registered');
+  }
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/** Format: scrypt$<salt hex>$<key hex> */
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  const key = scryptSync(password, salt, 64);
+  return `scrypt$${salt.toString('hex')}$${key.toString('hex')}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, saltHex, keyHex] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !keyHex) return false;
+  const expected = Buffer.from(keyHex, 'hex');
+  const actual = scryptSync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+let dummyHash: string | undefined;
+
+/** Hash of a random password, checked when an email has no account so the response time doesn't reveal which emails do. */
+export function dummyPasswordHash(): string {
+  return (dummyHash ??= hashPassword(randomToken()));
+}
+
+const sign = (body: string, secret: string) => createHmac('sha256', secret).update(body).digest('base64url');
+
+/** Token: <userId>.<expiry epoch seconds>.<signature> */
+export function signSession(userId: string, secret: string, now = Date.now()): string {
+  const body = `${userId}.${Math.floor(now / 1000) + SESSION_TTL_SECONDS}`;
+  return `${body}.${sign(body, secret)}`;
+}
+
+/** Returns the user id for a valid, unexpired token; null otherwise. */
+export function verifySession(token: string, secret: string, now = Date.now()): string | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  const [userId, exp, sig] = parts;
+  const expected = Buffer.from(sign(`${userId}.${exp}`, secret));
+  const given = Buffer.from(sig);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+  if (!(Number(exp) * 1000 > now)) return null;
+  return userId;
+}
+
+export function sessionCookie(token: string, secure = process.env.NODE_ENV === 'production'): string {
+  return `${SESSION_COOKIE}=${token}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${SESSION_TTL_SECONDS}${secure ? '; Secure' : ''}`;
+}
+
+export function clearedSessionCookie(): string {
+  return `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0`;
+}
@@ -0,0 +1,43 @@
+import fs from 'fs';
+import path from 'path';
+import type { BenchmarkSet, FxTable, MechanismConfig } from './types';
+import { parseBenchmarkCsv, parseBenchmarkJson, setBenchmarks } from './benchmarks';
+import { parseMechanismJson, setMechanismConfig } from './mechanism';
+import { parseFxJson, setFxTable } from './fx';
+
+/** Server-only: reads a benchmark dataset from a .json or .csv file. */
+export function loadBenchmarkFile(file: string): BenchmarkSet {
+  const text = fs.readFileSync(file, 'utf8');
+  if (file.toLowerCase().endsWith('.csv')) {
+    // CSV has no header metadata; the file name (without extension) is the version
+    return parseBenchmarkCsv(text, path.basename(file, path.extname(file)), file);
+  }
+  return parseBenchmarkJson(text);
+}
+
+/** Server-only: reads a mechanism scoring config (.json). */
+export function loadMechanismFile(file: string): MechanismConfig {
+  return parseMechanismJson(fs.readFileSync(file, 'utf8'));
+}
+
+/** Server-only: reads an FX rate table (.json). */
+export function loadFxFile(file: string): FxTable {
+  return parseFxJson(fs.readFileSync(file, 'utf8'));
+}
+
+let loaded = false;
+
+/**
+ * Installs the datasets at BENCHMARKS_PATH, MECHANISM_CONFIG_PATH and FX_RATES_PATH once per process;
+ * built-ins otherwise. Both feed computeOutputs, so every computing route calls this.
+ */
+export function ensureBenchmarks() {
+  if (loaded) return;
+  const file = process.env.BENCHMARKS_PATH;
+  if (file) setBenchmarks(loadBenchmarkFile(file));
+  const mechanismFile = process.env.MECHANISM_CONFIG_PATH;
+  if (mechanismFile) setMechanismConfig(loadMechanismFile(mechanismFile));
+  const fxFile = process.env.FX_RATES_PATH;
+  if (fxFile) setFxTable(loadFxFile(fxFile));
+  loaded = true;
+}
@@ -0,0 +1,84 @@
+/**
+ * Benchmark library
+ * Versioned phase transition rates, costs and durations by indication and modality.
+ * Entries use '*' as a wildcard; the most specific match wins.
+ */
+import type { BenchmarkEntry, BenchmarkSet, PhaseAssumption } from './types';
+import { defaultPhaseAssumptions } from './phaseModel';
+
+const stages = ['Preclinical', 'Phase I', 'Phase II', 'Phase III', 'NDA'];
+
+// durations (years), costs ($M) and transition odds, one value per stage above
+function row(durations: number[], costs: number[], odds: number[]): PhaseAssumption[] {
+  return stages.map((phase, k) => ({ phase, durationYears: durations[k], cost: costs[k], transitionProbability: odds[k] }));
+}
+
+export const builtinBenchmarks: BenchmarkSet = {
+  version: 'builtin-2026.1',
+  source: 'Blended industry phase-transition studies; illustrative defaults',
+  entries: [
+    { indication: '*', modality: '*', phases: defaultPhaseAssumptions },
+    { indication: 'Oncology', modality: '*', phases: row([1.5, 1.5, 2.5, 3, 1], [6, 20, 50, 180, 5], [0.60, 0.48, 0.25, 0.48, 0.82]) },
+    { indication: 'Oncology', modality: 'Biologic', phases: row([2, 1.5, 2.5, 3, 1], [10, 25, 60, 200, 6], [0.62, 0.52, 0.29, 0.52, 0.85]) },
+    { indication: 'Rare Disease', modality: '*', phases: row([1.5, 1, 2, 2.5, 1], [5, 12, 30, 90, 5], [0.65, 0.66, 0.45, 0.66, 0.90]) },
+    { indication: 'Cardiovascular', modality: '*', phases: row([1.5, 1.5, 2.5, 3.5, 1], [5, 15, 45, 250, 5], [0.60, 0.56, 0.24, 0.55, 0.86]) },
+    { indication: 'Neurology', modality: '*', phases: row([1.5, 1.5, 2.5, 3.5, 1], [5, 15, 45, 200, 5], [0.55, 0.52, 0.27, 0.52, 0.86]) },
+    { indication: '*', modality: 'Vaccine', phases: row([1.5, 1.5, 2, 3, 1], [5, 15, 40, 250, 5], [0.60, 0.58, 0.43, 0.69, 0.90]) },
+  ],
+};
+
+let active: BenchmarkSet = builtinBenchmarks;
+
+export function getBenchmarks(): BenchmarkSet {
+  return active;
+}
+
+/** Swap the active dataset, e.g. after loading a file or fetching /api/benchmarks in the browser. */
+export function setBenchmarks(set: BenchmarkSet | null) {
+  active = set ?? builtinBenchmarks;
+}
+
+function specificity(e: BenchmarkEntry) {
+  return (e.indication === '*' ? 0 : 2) + (e.modality === '*' ? 0 : 1);
+}
+
+export function resolveBenchmark(set: BenchmarkSet, indication: string, modality = '*'): BenchmarkEntry | null {
+  const matches = set.entries.filter(
+    (e) => (e.indication === '*' || e.indication === indication) && (e.modality === '*' || e.modality === modality),
+  );
+  if (!matches.length) return null;
+  return matches.reduce((best, e) => (specificity(e) > specificity(best) ? e : best));
+}
+
+export function parseBenchmarkJson(text: string): BenchmarkSet {
+  const data = JSON.parse(text);
+  if (!data?.version || !Array.isArray(data.entries)) throw new Error('Benchmark JSON needs version and entries');
+  return data as BenchmarkSet;
+}
+
+/**
+ * CSV layout, one row per phase:
+ *   indication,modality,phase,durationYears,cost,transitionProbability
+ */
+export function parseBenchmarkCsv(text: string, version: string, source?: string): BenchmarkSet {
+  const [header, ...lines] = text.trim().split(/\r?\n/);
+  const cols = header.split(',').map((c) => c.trim());
+  const idx = (name: string) => {
+    const k = cols.indexOf(name);
+    if (k === -1) throw new Error(`Benchmark CSV missing column ${name}`);
+    return k;
+  };
+  const [ci, cm, cp, cd, cc, ct] = ['indication', 'modality', 'phase', 'durationYears', 'cost', 'transitionProbability'].map(idx);
+
+  const byKey = new Map<string, BenchmarkEntry>();
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const f = line.split(',').map((v) => v.trim());
+    const key = `${f[ci]}|${f[cm]}`;
+    if (!byKey.has(key)) byKey.set(key, { indication: f[ci], modality: f[cm], phases: [] });
+    byKey.get(key)!.phases.push({
+      phase: f[cp], durationYears: Number(f[cd]), cost: Number(f[cc]), transitionProbability: Number(f[ct]),
+    });
+  }
+  return { version, source, entries: [...byKey.values()] };
+}
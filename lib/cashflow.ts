@@ -2,6 +2,7 @@
  * Cashflow/DCF helpers
  * Supports OWNER vs LICENSOR roles.
  */
+import type { CashflowRow, SalesCurve } from './types';
 
 export type DcfInputs = {
   currentYear: number;
@@ -14,32 +15,215 @@ export type DcfInputs = {
   commercialSpend: number;
   workingCapital: number;
   royaltyPctAt?: (year: number) => number;
+  /** Royalty income for a year's sales; takes precedence over royaltyPctAt (tiered deals) */
+  royaltyIncomeAt?: (year: number, sales: number) => number;
+  salesCurve?: SalesCurve;
+  erosion?: number[];
+  /** Annual price escalation applied to sales from currentYear (0 for real-terms cashflows) */
+  inflation?: number;
+  /** Year-by-year discount rates from currentYear; overrides discountRate */
+  discountCurve?: number[];
+  /** Per-market sales timelines; when set they replace launchYear/loeYear/peakSales/erosion for sales */
+  markets?: MarketDcf[];
 };
 
-export function salesAtYear(year: number, launchYear: number, loeYear: number, peak: number): number {
-  if (year < launchYear || year >= loeYear) return 0;
-  const ramp = 4;
-  const t = year - launchYear;
-  if (t <= ramp) return peak * (t / ramp);
-  return peak;
+export type MarketDcf = {
+  name: string;
+  launchYear: number;
+  loeYear: number;
+  peakSales: number;
+  erosion?: number[];
+};
+
+export const defaultSalesCurve: SalesCurve = { kind: 'linear', rampYears: 4 };
+
+/** Fraction of peak reached t years after launch. */
+export function uptakeAt(t: number, curve: SalesCurve = defaultSalesCurve): number {
+  if (t < 0) return 0;
+  switch (curve.kind) {
+    case 'linear':
+      return curve.rampYears > 0 ? Math.min(1, t / curve.rampYears) : 1;
+    case 'logistic': {
+      // S-curve rescaled so it starts at 0 at launch and reaches 1 at yearsToPeak
+      const T = curve.yearsToPeak;
+      if (T <= 0 || t >= T) return 1;
+      const k = curve.steepness ?? 1.5;
+      const L = (x: number) => 1 / (1 + Math.exp(-k * (x - T / 2)));
+      return (L(t) - L(0)) / (L(T) - L(0));
+    }
+    case 'bass': {
+      // Cumulative adoption F(t) of the Bass diffusion model
+      const e = Math.exp(-(curve.p + curve.q) * t);
+      return (1 - e) / (1 + (curve.q / curve.p) * e);
+    }
+    case 'custom': {
+      if (!curve.shares.length) return 0;
+      return curve.shares[Math.min(curve.shares.length - 1, Math.floor(t))];
+    }
+  }
 }
 
-export function pvOwner(i: DcfInputs): number {
-  const net = 1 - i.cogs - i.commercialSpend - i.workingCapital;
-  let pv = 0;
-  for (let y = i.launchYear; y < i.loeYear; y++) {
-    const cf = salesAtYear(y, i.launchYear, i.loeYear, i.peakSales) * net * (1 - i.taxRate);
-    pv += cf / Math.pow(1 + i.discountRate, y - i.currentYear);
+/** Last year (exclusive) with any sales: LOE plus the length of the erosion tail. */
+export function salesHorizon(loeYear: number, erosion?: number[]): number {
+  return loeYear + (erosion?.length ?? 0);
+}
+
+/**
+ * Sales in calendar year `year`; full years use the uptake reached by the start of the year.
+ * Launch may fall mid-year (e.g. 2030.5), in which case the launch year books the fraction of
+ * the year on market at the uptake halfway through that stretch.
+ */
+export function salesAtYear(
+  year: number, launchYear: number, loeYear: number, peak: number,
+  curve: SalesCurve = defaultSalesCurve, erosion?: number[],
+): number {
+  const onMarket = year + 1 - launchYear;
+  if (onMarket <= 0 || year >= salesHorizon(loeYear, erosion)) return 0;
+  let sales = onMarket < 1
+    ? peak * onMarket * uptakeAt(onMarket / 2, curve)
+    : peak * uptakeAt(onMarket - 1, curve);
+  if (year >= loeYear && erosion) sales *= 1 - erosion[year - loeYear];
+  return sales;
+}
+
+export function describeSalesCurve(curve: SalesCurve = defaultSalesCurve): string {
+  switch (curve.kind) {
+    case 'linear': return `linear(rampYears=${curve.rampYears})`;
+    case 'logistic': return `logistic(yearsToPeak=${curve.yearsToPeak};steepness=${curve.steepness ?? 1.5})`;
+    case 'bass': return `bass(p=${curve.p};q=${curve.q})`;
+    case 'custom': return `custom(${curve.shares.join(';')})`;
   }
-  return pv;
+}
+
+/**
+ * Discount factor t years from today. With a curve, year k is discounted at curve[k]
+ * (the last rate carries on) and part-years at the rate of the year they fall in.
+ */
+export function discountFactorAt(t: number, rate: number, curve?: number[]): number {
+  if (!curve?.length) return 1 / Math.pow(1 + rate, t);
+  const at = (k: number) => curve[Math.min(Math.max(0, k), curve.length - 1)];
+  if (t <= 0) return 1 / Math.pow(1 + at(0), t);
+  const whole = Math.floor(t);
+  let df = 1;
+  for (let k = 0; k < whole; k++) df /= 1 + at(k);
+  return df / Math.pow(1 + at(whole), t - whole);
+}
+
+/** Price level in `year` relative to today. */
+export function priceIndex(year: number, currentYear: number, inflation = 0): number {
+  return Math.pow(1 + inflation, year - currentYear);
+}
+
+function marketsOf(i: DcfInputs): MarketDcf[] {
+  return i.markets?.length
+    ? i.markets
+    : [{ name: 'Global', launchYear: i.launchYear, loeYear: i.loeYear, peakSales: i.peakSales, erosion: i.erosion }];
+}
+
+/** Calendar years with any sales: from the first market launch to the last market's erosion tail. */
+export function salesYears(i: DcfInputs): number[] {
+  const markets = marketsOf(i);
+  const years: number[] = [];
+  const end = Math.max(...markets.map((m) => salesHorizon(m.loeYear, m.erosion)));
+  for (let y = Math.floor(Math.min(...markets.map((m) => m.launchYear))); y < end; y++) years.push(y);
+  return years;
+}
+
+/** Nominal product sales in `year`, summed across markets, with the per-market split when there are markets. */
+export function productSalesAt(i: DcfInputs, year: number): { total: number; byMarket?: Record<string, number> } {
+  const index = priceIndex(year, i.currentYear, i.inflation);
+  if (!i.markets?.length) {
+    return { total: salesAtYear(year, i.launchYear, i.loeYear, i.peakSales, i.salesCurve, i.erosion) * index };
+  }
+  const byMarket: Record<string, number> = {};
+  let total = 0;
+  for (const m of i.markets) {
+    const sales = salesAtYear(year, m.launchYear, m.loeYear, m.peakSales, i.salesCurve, m.erosion) * index;
+    byMarket[m.name] = sales;
+    total += sales;
+  }
+  return { total, byMarket };
+}
+
+function discountFactor(i: DcfInputs, year: number): number {
+  return discountFactorAt(year - i.currentYear, i.discountRate, i.discountCurve);
+}
+
+/** Year-by-year owner P&L; COGS, commercial spend and working capital are fractions of revenue. */
+export function ownerSchedule(i: DcfInputs): CashflowRow[] {
+  const rows: CashflowRow[] = [];
+  let cumulativePv = 0;
+  for (const y of salesYears(i)) {
+    const { total: revenue, byMarket } = productSalesAt(i, y);
+    const cogs = revenue * i.cogs;
+    const commercialSpend = revenue * i.commercialSpend;
+    const workingCapitalChange = revenue * i.workingCapital;
+    const pretax = revenue - cogs - commercialSpend - workingCapitalChange;
+    const tax = pretax * i.taxRate;
+    const netCashflow = pretax - tax;
+    const df = discountFactor(i, y);
+    cumulativePv += netCashflow * df;
+    rows.push({
+      year: y, revenue, cogs, commercialSpend, workingCapitalChange, tax, netCashflow,
+      discountFactor: df, pv: netCashflow * df, cumulativePv,
+      ...(byMarket ? { marketSales: byMarket } : {}),
+    });
+  }
+  return rows;
+}
+
+/** Year-by-year licensor royalty income on the partner's sales. */
+export function licensorSchedule(i: DcfInputs): CashflowRow[] {
+  if (!i.royaltyPctAt && !i.royaltyIncomeAt) return [];
+  const rows: CashflowRow[] = [];
+  let cumulativePv = 0;
+  for (const y of salesYears(i)) {
+    const { total: productSales, byMarket } = productSalesAt(i, y);
+    let royaltyRate: number;
+    let revenue: number;
+    if (i.royaltyIncomeAt) {
+      revenue = i.royaltyIncomeAt(y, productSales);
+      royaltyRate = productSales ? (revenue / productSales) * 100 : 0; // blended rate across tiers
+    } else {
+      royaltyRate = i.royaltyPctAt ? i.royaltyPctAt(y) : 0;
+      revenue = productSales * (royaltyRate / 100);
+    }
+    const tax = revenue * i.taxRate;
+    const netCashflow = revenue - tax;
+    const df = discountFactor(i, y);
+    cumulativePv += netCashflow * df;
+    rows.push({
+      year: y, revenue, cogs: 0, commercialSpend: 0, workingCapitalChange: 0, tax, netCashflow,
+      discountFactor: df, pv: netCashflow * df, cumulativePv, productSales, royaltyRate,
+      ...(byMarket ? { marketSales: byMarket } : {}),
+    });
+  }
+  return rows;
+}
+
+function totalPv(rows: CashflowRow[]): number {
+  return rows.length ? rows[rows.length - 1].cumulativePv : 0;
+}
+
+export function pvOwner(i: DcfInputs): number {
+  return totalPv(ownerSchedule(i));
 }
 
 export function pvLicensor(i: DcfInputs): number {
-  if (!i.royaltyPctAt) return 0;
-  let pv = 0;
-  for (let y = i.launchYear; y < i.loeYear; y++) {
-    const cf = salesAtYear(y, i.launchYear, i.loeYear, i.peakSales) * (i.royaltyPctAt(y) / 100) * (1 - i.taxRate);
-    pv += cf / Math.pow(1 + i.discountRate, y - i.currentYear);
+  return totalPv(licensorSchedule(i));
+}
+
+/** IRR of annual cashflows (index 0 = today) by bisection; null when there is no sign change. */
+export function irr(flows: number[], lo = -0.99, hi = 10): number | null {
+  const npv = (r: number) => flows.reduce((sum, cf, t) => sum + cf / Math.pow(1 + r, t), 0);
+  let fLo = npv(lo);
+  if (fLo * npv(hi) > 0) return null;
+  for (let k = 0; k < 200; k++) {
+    const mid = (lo + hi) / 2;
+    const fMid = npv(mid);
+    if (Math.abs(fMid) < 1e-9) return mid;
+    if (fLo * fMid < 0) hi = mid;
+    else { lo = mid; fLo = fMid; }
   }
-  return pv;
+  return (lo + hi) / 2;
 }
@@ -0,0 +1,79 @@
+/**
+ * Assistant chat
+ * Provider-agnostic types plus the context serialization every provider shares.
+ */
+import type { Inputs, Outputs } from './types';
+import type { PatchProposal, ToolEnv, ToolResult, UnknownToolResult } from './assistantTools';
+import { computeOutputs } from './valuation';
+import { formatMoney } from './fx';
+
+export type ChatMessage = { role: 'user' | 'assistant'; content: string };
+
+export type ChatContext = {
+  inputs?: Inputs;
+  outputs?: Outputs;
+  /** Plain-text digest of the valuation for LLM prompts */
+  summary: string;
+  /** Lookups available to tools; see lib/assistantTools.ts */
+  env?: ToolEnv;
+};
+
+export type ChatReply = {
+  message: string;
+  /** Tool calls made while answering, in order */
+  toolResults?: (ToolResult | UnknownToolResult)[];
+  /** Input change the panel offers to apply to the form */
+  proposal?: PatchProposal;
+};
+
+export interface ChatProvider {
+  name: string;
+  reply(messages: ChatMessage[], context: ChatContext): Promise<ChatReply>;
+}
+
+const pct = (v?: number) => `${((v ?? 0) * 100).toFixed(1)}%`;
+
+export function summarizeValuation(i: Inputs, o: Outputs): string {
+  const money = (v: number) => formatMoney(v, o.currency);
+  const lines = [
+    `Asset: ${i.indication}, ${i.modality ?? 'unspecified modality'}, currently ${i.phase}; valued as ${i.role ?? 'OWNER'}.`,
+    `Money in ${o.currency ?? 'USD'} millions (${i.discountBasis ?? 'nominal'} terms, inflation ${pct(i.inflation)}${i.discountCurve?.length ? ', discount rate curve set' : ''}).`,
+    `Peak sales ${money(o.epidemiology?.peakSales ?? i.peakSales)}; launch ${o.launchYear ?? i.launchYear}; LOE ${i.loeYear}; discount rate ${pct(i.discountRate)}; tax ${pct(i.taxRate)}.`,
+    `COGS ${pct(i.cogs)}, commercial spend ${pct(i.commercialSpend)}, working capital ${pct(i.workingCapital)} of sales.`,
+    `Royalty ramp ${i.royaltyMin ?? 5}%→${i.royaltyMax ?? 12}% over ${i.royaltyRampYears ?? 3} years${i.dealTerms ? '; deal terms with tiers/milestones are set' : ''}.`,
+    `Baseline PoS ${pct(o.baselinePos)} × mechanism bonus ${o.mechanismBonus.toFixed(2)} = PTRS ${pct(o.ptrs)}.`,
+    `Owner PV ${money(o.ownerPV ?? 0)}, licensor PV ${money(o.licensorPV ?? 0)}, risked dev cost ${money(o.devCostPV)}, rNPV ${money(o.rnpv)}, ROI ${o.roi != null ? `${o.roi}%` : 'n/a'}.`,
+  ];
+  if (o.epidemiology) {
+    lines.push(`Peak sales are built bottom-up: ${o.epidemiology.funnel.map((f) => `${f.label} ${f.unit === 'money' ? money(f.value) : Math.round(f.value)}`).join(' → ')}.`);
+  }
+  if (i.markets?.length) {
+    const launch = o.launchYear ?? i.launchYear;
+    lines.push(`Markets: ${i.markets.map((m) => `${m.name} ${pct(m.peakShare)} of volume at ${m.pricingFactor.toFixed(2)}× price, launch ${launch + m.launchLag}, LOE ${m.loeYear ?? i.loeYear}`).join('; ')}.`);
+  }
+  lines.push(`Risk-adjusted IRR ${o.irr != null ? pct(o.irr) : 'n/a'}; discounted payback ${o.paybackYear ?? 'never'}; peak funding ${money(o.peakFunding ?? 0)}${o.peakFundingYear ? ` in ${o.peakFundingYear}` : ''}.`);
+  if (o.decisionTree) {
+    const stops = o.decisionTree.gates.filter((g) => g.abandon).map((g) => g.phase);
+    lines.push(`eNPV with abandonment options ${money(o.decisionTree.enpv)} (options worth ${money(o.decisionTree.optionValue)}${stops.length ? `; stop at ${stops.join(', ')}` : ''}).`);
+  }
+  if (o.phaseBreakdown?.length) {
+    lines.push(`Remaining phases: ${o.phaseBreakdown.map((p) => `${p.phase} (${p.durationYears}y, ${money(p.cost)}, ${pct(p.transitionProbability)} pass)`).join('; ')}.`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Builds the context from validated inputs. Outputs are recomputed from them so
+ * answers never rely on client-supplied numbers.
+ */
+export function buildChatContext(inputs: Inputs | undefined, env?: ToolEnv): ChatContext {
+  if (!inputs) return { summary: 'No valuation loaded.', env };
+  const outputs = computeOutputs(inputs);
+  return { inputs, outputs, summary: summarizeValuation(inputs, outputs), env };
+}
+
+export const systemPrompt = (context: ChatContext) =>
+  'You are a biopharma valuation analyst helping with a risk-adjusted NPV (rNPV) model. ' +
+  'Answer concisely using the numbers below; say so when something is not in the model. ' +
+  'For what-if questions call recompute rather than estimating, and call propose_patch when the analyst asks to change an input.\n\n' +
+  context.summary;
@@ -0,0 +1,24 @@
+import type { ChatProvider } from './chat';
+import { ruleBasedProvider } from './ruleBasedProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+
+/** Picks the provider from CHAT_PROVIDER (see .env.example); rules by default. */
+export function getChatProvider(env = process.env): ChatProvider {
+  switch (env.CHAT_PROVIDER) {
+    case 'openai':
+      if (!env.CHAT_API_KEY) throw new Error('CHAT_API_KEY is required for CHAT_PROVIDER=openai');
+      return createOpenAiCompatibleProvider({
+        baseUrl: env.CHAT_BASE_URL || 'https://api.openai.com/v1',
+        model: env.CHAT_MODEL || 'gpt-4o-mini',
+        apiKey: env.CHAT_API_KEY,
+      });
+    case 'local':
+      return createOpenAiCompatibleProvider({
+        baseUrl: env.CHAT_BASE_URL || 'http://localhost:11434/v1',
+        model: env.CHAT_MODEL || 'llama3.1',
+        apiKey: env.CHAT_API_KEY,
+      });
+    default:
+      return ruleBasedProvider;
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * CSV export escaping (node:test).
+ */
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { csvCell, csvRow } from './csv';
+
+test('plain values and numbers pass through, blanks stay empty', () => {
+  assert.equal(csvRow(['Phase II', 500, -12.5, true, null, undefined, '']), 'Phase II,500,-12.5,true,,,');
+});
+
+test('commas, quotes and newlines are quoted', () => {
+  assert.equal(csvCell('Oncology, 2L'), '"Oncology, 2L"');
+  assert.equal(csvCell('the "best" case'), '"the ""best"" case"');
+  assert.equal(csvCell('line one\nline two'), '"line one\nline two"');
+});
+
+test('text that a spreadsheet would run as a formula is neutralised', () => {
+  assert.equal(csvCell('=HYPERLINK("http://x")'), '"\'=HYPERLINK(""http://x"")"');
+  assert.equal(csvCell('+1'), "'+1");
+  assert.equal(csvCell('-cmd'), "'-cmd");
+  assert.equal(csvCell('@SUM(A1)'), "'@SUM(A1)");
+});
@@ -0,0 +1,22 @@
+/**
+ * CSV export cells
+ * RFC 4180 quoting plus formula neutralisation, so a name or note typed into the form
+ * can't split a row or run as a spreadsheet formula when the export is opened.
+ */
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Spreadsheets evaluate text starting with these as a formula
+const formulaStart = /^[=+\-@\t\r]/;
+
+export function csvCell(v: CsvValue): string {
+  if (v == null) return '';
+  // Numbers (including negatives) are data, not formulas
+  if (typeof v !== 'string') return String(v);
+  const text = formulaStart.test(v) ? `'${v}` : v;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function csvRow(cells: CsvValue[]): string {
+  return cells.map(csvCell).join(',');
+}
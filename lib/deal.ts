@@ -0,0 +1,82 @@
+/**
+ * Licensing deal valuation
+ * Upfront, probability-weighted development/sales milestones and tiered royalties.
+ */
+import type { CashflowRow, DealTerms, DealValue, MilestoneValue } from './types';
+import type { PhasePlan } from './phaseModel';
+import { tieredRoyalty } from './royalty';
+import { discountFactorAt, priceIndex } from './cashflow';
+
+export type DealContext = {
+  currentYear: number;
+  launchYear: number;
+  loeYear: number;
+  discountRate: number;
+  taxRate: number;
+  /** Odds of commercial success (approval × mechanism bonus), used for sales and approval milestones */
+  ptrs: number;
+  /** Mechanism bonus; scales the benchmark odds of reaching each development milestone the same way */
+  mechanismBonus: number;
+  plan: PhasePlan;
+  discountCurve?: number[];
+  /** Real-terms valuations deflate the fixed contract amounts by this annual rate */
+  deflation?: number;
+};
+
+/** Royalty income callback for the cashflow layer, with the post-LOE step-down applied. */
+export function dealRoyaltyIncome(terms: DealTerms, loeYear: number) {
+  return (year: number, sales: number) =>
+    tieredRoyalty(sales, terms.tiers, year >= loeYear ? terms.loeStepDown ?? 1 : 1);
+}
+
+/** Terms with every money amount (upfront, tier caps, milestones, sales thresholds) multiplied by `factor`, e.g. an FX rate. */
+export function scaleDealTerms(terms: DealTerms, factor: number): DealTerms {
+  const scale = (v: number) => Math.round(v * factor * 10) / 10;
+  return {
+    ...terms,
+    upfront: scale(terms.upfront),
+    tiers: terms.tiers.map((t) => ({ ...t, upTo: t.upTo == null ? null : scale(t.upTo) })),
+    milestones: terms.milestones.map((m) => ({
+      ...m, amount: scale(m.amount), ...(m.salesThreshold != null ? { salesThreshold: scale(m.salesThreshold) } : {}),
+    })),
+  };
+}
+
+function developmentMilestone(m: DealTerms['milestones'][number], ctx: DealContext) {
+  if (m.phase === 'Approved') return { year: ctx.launchYear, probability: ctx.ptrs };
+  // Only phases still ahead of the asset pay out; earlier ones are assumed settled
+  const step = ctx.plan.steps.find((s, k) => k > 0 && s.phase === m.phase);
+  if (!step) return null;
+  return { year: ctx.currentYear + step.startOffsetYears, probability: Math.min(1, step.probabilityOfReaching * ctx.mechanismBonus) };
+}
+
+function salesMilestone(m: DealTerms['milestones'][number], ctx: DealContext, rows: CashflowRow[]) {
+  const hit = rows.find((r) => (r.productSales ?? 0) >= (m.salesThreshold ?? Infinity));
+  if (!hit) return null;
+  return { year: hit.year, probability: ctx.ptrs };
+}
+
+/**
+ * Values the non-royalty deal economics and the unrisked royalty stream.
+ * `royaltyRows` is the licensor cashflow schedule built with dealRoyaltyIncome.
+ */
+export function valueDeal(terms: DealTerms, ctx: DealContext, royaltyRows: CashflowRow[]): DealValue {
+  const afterTax = 1 - ctx.taxRate;
+  const discount = (year: number) =>
+    discountFactorAt(year - ctx.currentYear, ctx.discountRate, ctx.discountCurve) / priceIndex(year, ctx.currentYear, ctx.deflation);
+
+  const milestones: MilestoneValue[] = [];
+  for (const m of terms.milestones) {
+    const timing = m.kind === 'sales' ? salesMilestone(m, ctx, royaltyRows) : developmentMilestone(m, ctx);
+    if (!timing) continue;
+    const pv = m.amount * afterTax * timing.probability * discount(timing.year);
+    milestones.push({ ...m, ...timing, pv });
+  }
+
+  return {
+    upfrontPV: terms.upfront * afterTax,
+    royaltyPV: royaltyRows.reduce((sum, r) => sum + r.pv, 0),
+    milestonesPV: milestones.reduce((sum, m) => sum + m.pv, 0),
+    milestones,
+  };
+}
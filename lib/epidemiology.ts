@@ -0,0 +1,56 @@
+/**
+ * Epidemiology-driven forecast
+ * Builds peak sales from a patient funnel (patients → diagnosed → treated → line of therapy
+ * → on product → revenue) and derives the uptake curve from the share ramp and, for
+ * incidence-based markets, the build-up of patient cohorts on therapy.
+ */
+import type { Epidemiology, EpidemiologyForecast, FunnelStep, SalesCurve } from './types';
+import { uptakeAt } from './cashflow';
+
+export const defaultYearsToPeakShare = 5;
+
+/** Fraction of peak patient-years on therapy in each year since launch, until the pool is built up. */
+function incidenceUptake(shareRamp: SalesCurve, courseYears: number): number[] {
+  const shares: number[] = [];
+  for (let t = 0; t < 100; t++) {
+    // Cohort c starts at the beginning of year c and stays on therapy for courseYears
+    let onTherapy = 0;
+    for (let c = 0; c <= t; c++) {
+      const overlap = Math.min(c + courseYears, t + 1) - Math.max(c, t);
+      if (overlap > 0) onTherapy += uptakeAt(c, shareRamp) * Math.min(1, overlap);
+    }
+    const share = Math.round((onTherapy / courseYears) * 1e4) / 1e4;
+    shares.push(Math.min(1, share));
+    if (share >= 1) break;
+  }
+  return shares;
+}
+
+export function buildEpidemiology(e: Epidemiology): EpidemiologyForecast {
+  const incidence = e.basis === 'incidence';
+  const diagnosed = e.patients * e.diagnosisRate;
+  const treated = diagnosed * e.treatedRate;
+  const addressable = treated * e.lineOfTherapyShare;
+  const onProduct = addressable * e.peakShare;
+  // Steady state: prevalent patients are treated durationMonths a year; each incident
+  // cohort stays on for one course, so the pool holds cohorts spanning the course length
+  const peakPatientYears = onProduct * (e.durationMonths / 12);
+  const peakSales = (peakPatientYears * e.annualPrice * e.compliance) / 1e6;
+
+  const funnel: FunnelStep[] = [
+    { label: incidence ? 'New patients per year' : 'Prevalent patients', value: e.patients, unit: 'patients' },
+    { label: 'Diagnosed', value: diagnosed, unit: 'patients' },
+    { label: 'Treated', value: treated, unit: 'patients' },
+    { label: 'At addressable line of therapy', value: addressable, unit: 'patients' },
+    { label: 'On product at peak share', value: onProduct, unit: 'patients' },
+    { label: 'Patient-years on therapy', value: peakPatientYears, unit: 'patients' },
+    { label: 'Peak sales', value: peakSales, unit: 'money' },
+  ];
+
+  const shareRamp: SalesCurve = { kind: 'logistic', yearsToPeak: e.yearsToPeakShare ?? defaultYearsToPeakShare };
+  const courseYears = e.durationMonths / 12;
+  const salesCurve: SalesCurve = incidence && courseYears > 1
+    ? { kind: 'custom', shares: incidenceUptake(shareRamp, courseYears) }
+    : shareRamp;
+  return { funnel, peakPatientYears, peakSales, salesCurve };
+}
@@ -0,0 +1,63 @@
+/**
+ * Currency conversion
+ * A locally configured FX table (units per one unit of the base currency) used to put
+ * benchmark costs and portfolio totals into a valuation's currency.
+ */
+import type { FxTable } from './types';
+
+export const defaultCurrency = 'USD';
+
+export const builtinFxTable: FxTable = {
+  version: 'builtin-2026.1',
+  base: 'USD',
+  asOf: '2026-01-02',
+  source: 'Illustrative year-start reference rates; configure FX_RATES_PATH for live rates',
+  rates: { USD: 1, EUR: 0.92, CHF: 0.88, GBP: 0.79, JPY: 150, CNY: 7.2 },
+};
+
+let active: FxTable = builtinFxTable;
+
+export function getFxTable(): FxTable {
+  return active;
+}
+
+/** Swap the active table, e.g. after loading a file or fetching /api/fx in the browser. */
+export function setFxTable(table: FxTable | null) {
+  active = table ?? builtinFxTable;
+}
+
+export function currencies(table: FxTable = getFxTable()): string[] {
+  return Object.keys(table.rates);
+}
+
+/** Units of `to` per one unit of `from`; throws for a currency the table doesn't have. */
+export function fxRate(from: string, to: string, table: FxTable = getFxTable()): number {
+  if (from === to) return 1;
+  const a = table.rates[from];
+  const b = table.rates[to];
+  if (!a) throw new Error(`No FX rate for ${from} in ${table.version}`);
+  if (!b) throw new Error(`No FX rate for ${to} in ${table.version}`);
+  return b / a;
+}
+
+export function convert(amount: number, from: string, to: string, table: FxTable = getFxTable()): number {
+  return amount * fxRate(from, to, table);
+}
+
+const symbols: Record<string, string> = { USD: '$', EUR: '€', GBP: '£', JPY: '¥' };
+
+/** "$120M", "€120M", "CHF 120M" */
+export function formatMoney(millions: number, currency = defaultCurrency): string {
+  const v = Math.round(millions);
+  return symbols[currency] ? `${symbols[currency]}${v}M` : `${currency} ${v}M`;
+}
+
+export function parseFxJson(text: string): FxTable {
+  const data = JSON.parse(text);
+  if (!data?.version || !data.base || !data.rates) throw new Error('FX JSON needs version, base and rates');
+  for (const [code, rate] of Object.entries(data.rates)) {
+    if (typeof rate !== 'number' || !(rate > 0)) throw new Error(`FX rate for ${code} must be a positive number`);
+  }
+  if (data.rates[data.base] !== 1) throw new Error(`FX base ${data.base} must have rate 1`);
+  return data as FxTable;
+}
@@ -0,0 +1,32 @@
+import type { Inputs, MetricChange, RevisionDiff, Valuation } from './types';
+
+/** Another save took this revision number first; the caller re-reads the latest and retries. */
+export class RevisionConflictError extends Error {
+  status = 409 as const;
+  constructor(id: string, revision: number) {
+    super(`Valuation ${id} already has revision ${revision}`);
+  }
+}
+
+function metricChange(from: number, to: number): MetricChange {
+  return { from, to, delta: to - from };
+}
+
+/** Field-level diff of two revisions of the same valuation. */
+export function diffRevisions(a: Valuation, b: Valuation): RevisionDiff {
+  const fields = new Set([...Object.keys(a.inputs), ...Object.keys(b.inputs)]) as Set<keyof Inputs>;
+  const inputs: RevisionDiff['inputs'] = [];
+  for (const field of fields) {
+    const from = a.inputs[field];
+    const to = b.inputs[field];
+    if (JSON.stringify(from) !== JSON.stringify(to)) inputs.push({ field, from, to });
+  }
+  return {
+    id: b.id,
+    fromRevision: a.revision,
+    toRevision: b.revision,
+    inputs,
+    rnpv: metricChange(a.outputs.rnpv, b.outputs.rnpv),
+    ptrs: metricChange(a.outputs.ptrs, b.outputs.ptrs),
+  };
+}
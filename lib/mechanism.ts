@@ -0,0 +1,136 @@
+/**
+ * Mechanism bonus scoring
+ * Declarative, versioned rules that turn potency, PK and target scores into a PTRS
+ * multiplier, with a per-rule breakdown. Models are chosen by modality ('*' fallback).
+ */
+import type { Inputs, MechanismBand, MechanismConfig, MechanismModel, MechanismScore, MechanisticField } from './types';
+
+export const mechanisticFields: MechanisticField[] = [
+  'potency', 'selectivity', 'halfLife', 'molecularWeight', 'logP', 'bioavailability', 'targetValidation', 'targetNovelty',
+];
+
+// One model for every modality, matching the original fixed scoring; per-modality tuning is
+// opt-in through MECHANISM_CONFIG_PATH (see data/mechanism.example.json)
+export const builtinMechanismConfig: MechanismConfig = {
+  version: 'mechanism-2026.1',
+  source: 'Rule-of-thumb developability and target scores; illustrative defaults',
+  base: 1,
+  min: 0.5,
+  max: 2,
+  models: [
+    {
+      modality: '*',
+      rules: [
+        {
+          id: 'potency', field: 'potency', label: 'Potency (IC50 nM)',
+          bands: [{ lt: 10, delta: 0.1, note: 'Sub-10 nM potency' }, { gt: 100, delta: -0.1, note: 'Weak potency (>100 nM)' }],
+        },
+        {
+          id: 'selectivity', field: 'selectivity', label: 'Selectivity (fold)',
+          bands: [{ gt: 30, delta: 0.1, note: 'Highly selective (>30x)' }, { lt: 5, delta: -0.1, note: 'Poor selectivity (<5x)' }],
+        },
+        {
+          id: 'half-life', field: 'halfLife', label: 'Half-life (hr)',
+          bands: [{ gt: 24, delta: -0.05, note: 'Long half-life (accumulation risk)' }, { lt: 2, delta: -0.05, note: 'Short half-life (dosing burden)' }],
+        },
+        {
+          id: 'molecular-weight', field: 'molecularWeight', label: 'Molecular weight (Da)',
+          bands: [{ gt: 500, delta: -0.05, note: 'Above Lipinski 500 Da' }, { lt: 200, delta: 0.05, note: 'Small, ligand-efficient' }],
+        },
+        {
+          id: 'logp', field: 'logP', label: 'LogP',
+          bands: [{ gte: 1, lte: 3, delta: 0.1, note: 'LogP in the 1–3 sweet spot' }, { delta: -0.05, note: 'LogP outside 1–3' }],
+        },
+        {
+          id: 'bioavailability', field: 'bioavailability', label: 'Bioavailability',
+          bands: [{ gt: 0.5, delta: 0.1, note: 'Good oral exposure' }, { lt: 0.2, delta: -0.1, note: 'Poor oral exposure' }],
+        },
+        {
+          id: 'target-validation', field: 'targetValidation', label: 'Target validation',
+          bands: [{ gt: 0.7, delta: 0.2, note: 'Well-validated target' }, { lt: 0.3, delta: -0.1, note: 'Weakly validated target' }],
+        },
+        {
+          id: 'target-novelty', field: 'targetNovelty', label: 'Target novelty',
+          bands: [{ gt: 0.7, delta: -0.1, note: 'First-in-class risk' }, { lt: 0.3, delta: 0.1, note: 'Precedented target' }],
+        },
+      ],
+    },
+  ],
+};
+
+let active: MechanismConfig = builtinMechanismConfig;
+
+export function getMechanismConfig(): MechanismConfig {
+  return active;
+}
+
+/** Swap the active config, e.g. after loading a file or fetching /api/mechanism in the browser. */
+export function setMechanismConfig(config: MechanismConfig | null) {
+  active = config ?? builtinMechanismConfig;
+}
+
+export function resolveMechanismModel(config: MechanismConfig, modality = '*'): MechanismModel | null {
+  return config.models.find((m) => m.modality === modality) ?? config.models.find((m) => m.modality === '*') ?? null;
+}
+
+function matches(band: MechanismBand, v: number) {
+  return (band.gt == null || v > band.gt) && (band.gte == null || v >= band.gte)
+    && (band.lt == null || v < band.lt) && (band.lte == null || v <= band.lte);
+}
+
+export function scoreMechanism(
+  i: Pick<Inputs, MechanisticField | 'modality'>,
+  config: MechanismConfig = getMechanismConfig(),
+): MechanismScore {
+  const model = resolveMechanismModel(config, i.modality);
+  const contributions = (model?.rules ?? []).map((rule) => {
+    const value = i[rule.field];
+    const band = rule.bands.find((b) => matches(b, value));
+    return {
+      ruleId: rule.id,
+      field: rule.field,
+      label: rule.label ?? rule.field,
+      value,
+      delta: band ? band.delta * (rule.weight ?? 1) : 0,
+      ...(band?.note ? { note: band.note } : {}),
+    };
+  });
+  const raw = contributions.reduce((sum, c) => sum + c.delta, config.base);
+  return {
+    version: config.version,
+    modality: model?.modality ?? '*',
+    base: config.base,
+    raw,
+    bonus: Math.min(config.max, Math.max(config.min, raw)),
+    contributions,
+  };
+}
+
+/** Parses and checks a config file; analysts edit these by hand, so errors name the offending rule. */
+export function parseMechanismJson(text: string): MechanismConfig {
+  const data = JSON.parse(text);
+  if (!data?.version || !Array.isArray(data.models)) throw new Error('Mechanism config needs version and models');
+  for (const key of ['base', 'min', 'max']) {
+    if (typeof data[key] !== 'number' || !isFinite(data[key])) throw new Error(`Mechanism config ${key} must be a number`);
+  }
+  if (data.min > data.max) throw new Error('Mechanism config min must not exceed max');
+  for (const model of data.models) {
+    if (typeof model?.modality !== 'string' || !Array.isArray(model.rules)) throw new Error('Each mechanism model needs modality and rules');
+    for (const rule of model.rules) {
+      const where = `${model.modality} rule ${rule?.id ?? '?'}`;
+      if (!rule?.id || !mechanisticFields.includes(rule.field)) throw new Error(`${where}: needs an id and one of ${mechanisticFields.join(', ')}`);
+      if (rule.weight != null && (typeof rule.weight !== 'number' || !isFinite(rule.weight))) throw new Error(`${where}: weight must be a number`);
+      if (!Array.isArray(rule.bands) || rule.bands.some((b: any) => typeof b?.delta !== 'number' || !isFinite(b.delta))) {
+        throw new Error(`${where}: every band needs a numeric delta`);
+      }
+    }
+  }
+  return data as MechanismConfig;
+}
+
+/** Rules whose contribution differs between two scores, e.g. to explain why PTRS moved after an edit. */
+export function diffMechanism(before: MechanismScore, after: MechanismScore) {
+  return after.contributions
+    .map((c) => ({ ...c, previous: before.contributions.find((p) => p.ruleId === c.ruleId)?.delta ?? 0 }))
+    .filter((c) => Math.abs(c.delta - c.previous) > 1e-9);
+}
@@ -0,0 +1,116 @@
+import type { Portfolio, ShareLink, User, Valuation, Workspace } from './types';
+import type { ValuationStore } from './store';
+import { RevisionConflictError } from './history';
+import { EmailTakenError } from './auth';
+
+/** In-memory fallback used when DATABASE_URL is not set. Data is lost on restart. */
+export function createMemoryStore(): ValuationStore {
+  const memById = new Map<string, Valuation>();
+  const revisions = new Map<string, Valuation[]>();
+  const portfolios = new Map<string, Portfolio>();
+  const users = new Map<string, User>();
+  const workspaces = new Map<string, Workspace>();
+  const shareLinks = new Map<string, ShareLink>();
+
+  return {
+    async insert(doc) {
+      memById.set(doc.id, doc);
+      revisions.set(doc.id, [doc]);
+      return doc;
+    },
+    async appendRevision(doc) {
+      const history = revisions.get(doc.id);
+      if (!history) throw new Error(`Unknown valuation ${doc.id}`);
+      if (history[history.length - 1].revision !== doc.revision - 1) throw new RevisionConflictError(doc.id, doc.revision);
+      history.push(doc);
+      memById.set(doc.id, doc);
+      return doc;
+    },
+    async getById(id) {
+      return memById.get(id) || null;
+    },
+    async listByWorkspace(workspaceId) {
+      return [...memById.values()].filter((v) => v.workspaceId === workspaceId);
+    },
+    async listRevisions(id) {
+      return [...(revisions.get(id) || [])];
+    },
+    async getRevision(id, revision) {
+      return revisions.get(id)?.find((r) => r.revision === revision) || null;
+    },
+    async insertPortfolio(p) {
+      portfolios.set(p.id, p);
+      return p;
+    },
+    async updatePortfolio(p) {
+      portfolios.set(p.id, p);
+      return p;
+    },
+    async getPortfolio(id) {
+      return portfolios.get(id) || null;
+    },
+    async listPortfolios(workspaceIds) {
+      return [...portfolios.values()].filter((p) => workspaceIds.includes(p.workspaceId));
+    },
+    async deletePortfolio(id) {
+      return portfolios.delete(id);
+    },
+    async claimUnowned() {
+      // Nothing here predates workspaces: every in-memory row is created inside one
+      return { valuations: 0, portfolios: 0 };
+    },
+    async insertUser(user) {
+      if ([...users.values()].some((u) => u.email === user.email)) throw new EmailTakenError();
+      users.set(user.id, user);
+      return user;
+    },
+    async getUserById(id) {
+      return users.get(id) || null;
+    },
+    async getUserByEmail(email) {
+      return [...users.values()].find((u) => u.email === email) || null;
+    },
+    async insertWorkspace(ws) {
+      workspaces.set(ws.id, ws);
+      return ws;
+    },
+    async getWorkspace(id) {
+      return workspaces.get(id) || null;
+    },
+    async listWorkspacesForUser(userId) {
+      return [...workspaces.values()].filter((w) => w.members.some((m) => m.userId === userId));
+    },
+    async setMember(workspaceId, member) {
+      const ws = workspaces.get(workspaceId);
+      if (!ws) return null;
+      const next = { ...ws, members: [...ws.members.filter((m) => m.userId !== member.userId), member] };
+      workspaces.set(workspaceId, next);
+      return next;
+    },
+    async insertShareLink(link) {
+      shareLinks.set(link.slug, link);
+      return link;
+    },
+    async getShareLink(slug) {
+      return shareLinks.get(slug) || null;
+    },
+    async listShareLinks(valuationId) {
+      return [...shareLinks.values()].filter((l) => l.valuationId === valuationId);
+    },
+    async updateShareLink(link) {
+      shareLinks.set(link.slug, link);
+      return link;
+    },
+    async recordShareView(slug, at) {
+      const link = shareLinks.get(slug);
+      if (link) shareLinks.set(slug, { ...link, views: link.views + 1, lastViewedAt: at });
+    },
+    async removeMember(workspaceId, userId) {
+      const ws = workspaces.get(workspaceId);
+      if (!ws) return null;
+      const next = { ...ws, members: ws.members.filter((m) => m.userId !== userId) };
+      workspaces.set(workspaceId, next);
+      return next;
+    },
+  };
+}
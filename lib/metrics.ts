@@ -0,0 +1,126 @@
+/**
+ * Investment metrics
+ * IRR, discounted payback and peak funding on annual cashflows (index 0 = currentYear),
+ * plus an eNPV decision tree over the remaining phase gates with the option to abandon.
+ */
+import type { CashflowRow, DealValue, DecisionGate, DecisionTree } from './types';
+import type { PhasePlan } from './phaseModel';
+import { discountFactorAt, irr, priceIndex } from './cashflow';
+
+export type MetricsContext = {
+  currentYear: number;
+  discountRate: number;
+  taxRate: number;
+  plan: PhasePlan;
+  /** Commercial schedule for the selected role, unrisked */
+  rows: CashflowRow[];
+  ptrs: number;
+  /** Licensor deal economics; the licensee then funds development */
+  deal?: DealValue;
+  discountCurve?: number[];
+  /** Real-terms valuations deflate the fixed deal amounts by this annual rate */
+  deflation?: number;
+};
+
+function addAt(flows: number[], t: number, cf: number) {
+  const k = Math.max(0, Math.floor(t));
+  while (flows.length <= k) flows.push(0);
+  flows[k] += cf;
+}
+
+/**
+ * Annual after-tax cashflows. `risked` weights each by its odds (the flows behind rNPV);
+ * otherwise it is the success path, where every remaining phase is paid and sales happen.
+ */
+export function annualCashflows(ctx: MetricsContext, risked: boolean): number[] {
+  const flows: number[] = [];
+  const afterTax = 1 - ctx.taxRate;
+  if (ctx.deal) {
+    addAt(flows, 0, ctx.deal.upfrontPV);
+    for (const m of ctx.deal.milestones) {
+      const amount = m.amount / priceIndex(m.year, ctx.currentYear, ctx.deflation);
+      addAt(flows, m.year - ctx.currentYear, amount * afterTax * (risked ? m.probability : 1));
+    }
+  } else {
+    for (const s of ctx.plan.steps) addAt(flows, s.startOffsetYears, -s.cost * afterTax * (risked ? s.probabilityOfReaching : 1));
+  }
+  for (const r of ctx.rows) addAt(flows, r.year - ctx.currentYear, r.netCashflow * (risked ? ctx.ptrs : 1));
+  return flows;
+}
+
+/** Year from which cumulative discounted cash stays non-negative; null if it ends below zero. */
+export function discountedPaybackYear(
+  flows: number[], discountRate: number, currentYear: number, discountCurve?: number[],
+): number | null {
+  let cumulative = 0;
+  let lastNegative = -1;
+  flows.forEach((cf, t) => {
+    cumulative += cf * discountFactorAt(t, discountRate, discountCurve);
+    if (cumulative < 0) lastNegative = t;
+  });
+  if (cumulative < 0) return null;
+  return currentYear + lastNegative + 1;
+}
+
+/** Deepest point of cumulative undiscounted cash: how much must be funded before the asset pays back. */
+export function peakFunding(flows: number[], currentYear: number): { amount: number; year: number } {
+  let cumulative = 0;
+  let worst = 0;
+  let year = currentYear;
+  flows.forEach((cf, t) => {
+    cumulative += cf;
+    if (cumulative < worst) { worst = cumulative; year = currentYear + t; }
+  });
+  return { amount: -worst, year };
+}
+
+/**
+ * Rolls back the phase gates from launch. Values are PVs today, conditional on reaching
+ * the gate; at each gate the sponsor either pays for the phase or abandons for zero.
+ * `terminalValue` is the PV of the commercial cashflows if every gate is passed.
+ * Without the option to stop, the tree reproduces rNPV.
+ */
+export function decisionTree(ctx: MetricsContext, terminalValue: number): DecisionTree {
+  const afterTax = 1 - ctx.taxRate;
+  let withOptions = terminalValue;
+  let committed = terminalValue;
+  const gates: DecisionGate[] = [];
+  for (const s of [...ctx.plan.steps].reverse()) {
+    const costPV = s.cost * afterTax * discountFactorAt(s.startOffsetYears, ctx.discountRate, ctx.discountCurve);
+    const continueValue = -costPV + s.transitionProbability * withOptions;
+    committed = -costPV + s.transitionProbability * committed;
+    withOptions = Math.max(0, continueValue);
+    gates.unshift({
+      phase: s.phase,
+      year: ctx.currentYear + s.startOffsetYears,
+      probabilityOfReaching: s.probabilityOfReaching,
+      transitionProbability: s.transitionProbability,
+      costPV,
+      continueValue,
+      abandon: continueValue < 0,
+      optionValue: withOptions - continueValue,
+    });
+  }
+  return {
+    enpv: withOptions,
+    committedNpv: committed,
+    // Equals the sum of each gate's option value weighted by the odds of reaching it
+    optionValue: withOptions - committed,
+    gates,
+  };
+}
+
+export function valuationMetrics(ctx: MetricsContext, successPV: number) {
+  const risked = annualCashflows(ctx, true);
+  const funding = peakFunding(annualCashflows(ctx, false), ctx.currentYear);
+  // The mechanism bonus is applied at launch so the committed tree matches rNPV
+  const odds = ctx.plan.cumulativePos > 0 ? ctx.ptrs / ctx.plan.cumulativePos : 0;
+  return {
+    irr: irr(risked),
+    paybackYear: discountedPaybackYear(risked, ctx.discountRate, ctx.currentYear, ctx.discountCurve),
+    peakFunding: funding.amount,
+    peakFundingYear: funding.year,
+    // A licensor under a deal pays for nothing, so there is no gate decision to value
+    decisionTree: ctx.deal ? undefined : decisionTree(ctx, successPV * odds),
+  };
+}
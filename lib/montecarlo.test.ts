@@ -0,0 +1,56 @@
+/**
+ * Monte Carlo rNPV against the deterministic engine (node:test; run from the repo root).
+ */
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import type { Inputs } from './types';
+import { computeOutputs } from './valuation';
+import { simulateRnpv } from './montecarlo';
+
+const base: Inputs = JSON.parse(readFileSync('fixtures/valuation/inputs.json', 'utf8'));
+const deal: Inputs['dealTerms'] = {
+  upfront: 50,
+  tiers: [{ upTo: 300, rate: 8 }, { upTo: null, rate: 12 }],
+  milestones: [{ name: 'Phase III start', amount: 25, kind: 'development', phase: 'Phase III' }],
+};
+const spec = { iterations: 10000, seed: 7, distributions: {} };
+
+// With nothing sampled every path shares one set of outputs, so only the phase draws vary
+function assertMeanNearRnpv(inputs: Inputs) {
+  const o = computeOutputs(inputs, 2026);
+  const sim = simulateRnpv(inputs, spec, 2026);
+  const pv = (inputs.role ?? 'OWNER') === 'OWNER' ? o.ownerPV! : o.licensorPV!;
+  assert.ok(Math.abs(sim.mean - o.rnpv) < 0.03 * pv, `mean ${sim.mean} vs rNPV ${o.rnpv}`);
+  assert.ok(Math.abs(sim.successRate - o.ptrs) < 0.02, `success ${sim.successRate} vs PTRS ${o.ptrs}`);
+  return { o, sim };
+}
+
+test('owner: mean matches rNPV and failed paths lose what they spent', () => {
+  const { o, sim } = assertMeanNearRnpv(base);
+  assert.ok(sim.probNegative >= 1 - o.ptrs - 0.02);
+  // Most paths stop at the Phase II gate, having paid for Phase II and nothing after it
+  assert.ok(Math.abs(sim.p50 + o.phaseBreakdown![0].costPV) < 1e-9);
+});
+
+test('licensor without a deal carries development cost', () => {
+  assertMeanNearRnpv({ ...base, role: 'LICENSOR' });
+});
+
+test('licensor under a deal books upfront and milestones, never development cost', () => {
+  const { o, sim } = assertMeanNearRnpv({ ...base, role: 'LICENSOR', dealTerms: deal });
+  assert.ok(o.deal!.upfrontPV > 0);
+  assert.equal(sim.probNegative, 0);
+});
+
+test('a large mechanism bonus lifts gates without moving the mean off rNPV', () => {
+  assertMeanNearRnpv({ ...base, phase: 'Phase III', potency: 1, selectivity: 100, targetValidation: 1 });
+});
+
+test('sampled years stay inside the schema range and LOE stays after launch', () => {
+  const sim = simulateRnpv(base, {
+    iterations: 500,
+    distributions: { launchYear: { kind: 'uniform', min: 1000, max: 3000 }, loeYear: { kind: 'normal', mean: 2044, sd: 500 } },
+  }, 2026);
+  for (const v of [sim.mean, sim.p10, sim.p50, sim.p90]) assert.ok(isFinite(v));
+});
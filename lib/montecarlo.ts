@@ -0,0 +1,116 @@
+/**
+ * Monte Carlo rNPV
+ * Samples the uncertain inputs, runs them through the rNPV engine and draws each
+ * remaining phase gate in turn: a path pays for every phase it reaches and earns
+ * sales only if it passes them all.
+ */
+import type { HistogramBin, Inputs, Outputs, PhaseStep, SimulationResult, SimulationSpec } from './types';
+import { computeOutputs, withPeakSales } from './valuation';
+import { bernoulli, percentile, sample, seededRng } from './random';
+import { clampToSchema } from './validation';
+
+// Runs on the request thread; 10k iterations is about a second of engine time
+export const MAX_ITERATIONS = 10000;
+export const MAX_BINS = 200;
+
+function clampInt(v: number | undefined, lo: number, hi: number, fallback: number): number {
+  return v != null && isFinite(v) ? Math.min(hi, Math.max(lo, Math.floor(v))) : fallback;
+}
+
+function sampleInputs(base: Inputs, spec: SimulationSpec, rng: () => number): Inputs {
+  const d = spec.distributions;
+  const i: Inputs = d.peakSales ? withPeakSales(base, Math.max(0, sample(d.peakSales, rng))) : { ...base };
+  if (d.launchYear) {
+    i.launchYear = clampToSchema('launchYear', Math.round(sample(d.launchYear, rng)));
+    i.deriveLaunchYear = false;
+  }
+  if (d.loeYear) i.loeYear = clampToSchema('loeYear', Math.round(sample(d.loeYear, rng)));
+  if (d.discountRate) i.discountRate = Math.max(0, sample(d.discountRate, rng));
+  if (d.cogs) i.cogs = Math.min(1, Math.max(0, sample(d.cogs, rng)));
+  if (d.royaltyMin) i.royaltyMin = Math.max(0, sample(d.royaltyMin, rng));
+  if (d.royaltyMax) i.royaltyMax = Math.max(0, sample(d.royaltyMax, rng));
+  // Keep draws internally consistent
+  if (i.loeYear <= i.launchYear) {
+    i.loeYear = clampToSchema('loeYear', i.launchYear + 1);
+    i.launchYear = Math.min(i.launchYear, i.loeYear - 1);
+  }
+  if (i.royaltyMin != null && i.royaltyMax != null && i.royaltyMin > i.royaltyMax) i.royaltyMax = i.royaltyMin;
+  return i;
+}
+
+function histogram(sorted: number[], bins: number): HistogramBin[] {
+  if (!sorted.length) return [];
+  const lo = sorted[0];
+  const hi = sorted[sorted.length - 1];
+  const width = (hi - lo) / bins || 1;
+  const out: HistogramBin[] = Array.from({ length: bins }, (_, k) => ({ from: lo + k * width, to: lo + (k + 1) * width, count: 0 }));
+  for (const v of sorted) out[Math.min(bins - 1, Math.floor((v - lo) / width))].count++;
+  return out;
+}
+
+/**
+ * Pass odds for each remaining gate, multiplying to PTRS: the mechanism bonus moves the
+ * gates nearest approval first, spilling to earlier ones once a gate reaches certainty.
+ */
+function gateOdds(steps: PhaseStep[], ptrs: number): number[] {
+  const odds = steps.map((s) => s.transitionProbability);
+  const baseline = odds.reduce((p, q) => p * q, 1);
+  let lift = baseline > 0 ? ptrs / baseline : 1;
+  for (let k = odds.length - 1; k >= 0 && lift !== 1; k--) {
+    const lifted = Math.min(1, odds[k] * lift);
+    lift = (odds[k] * lift) / lifted;
+    odds[k] = lifted;
+  }
+  return odds;
+}
+
+/**
+ * One path through development, valued with computeOutputs' rNPV formula. Each reached phase
+ * costs its costPV over the odds of reaching it, so the expected cost is the engine's devCostPV;
+ * a licensor under a deal books the upfront and risked milestones instead of development cost.
+ */
+function drawPath(o: Outputs, licensorDeal: boolean, pv: number, rng: () => number): { value: number; success: boolean } {
+  const steps = o.phaseBreakdown ?? [];
+  const odds = gateOdds(steps, o.ptrs);
+  let reach = 1;
+  let cost = 0;
+  let success = steps.length ? true : bernoulli(o.ptrs, rng);
+  for (let k = 0; k < steps.length && success; k++) {
+    cost += steps[k].costPV / reach;
+    success = bernoulli(odds[k], rng);
+    reach *= odds[k];
+  }
+  const sales = success ? pv : 0;
+  const value = licensorDeal && o.deal ? sales + o.deal.upfrontPV + o.deal.milestonesPV : sales - cost;
+  return { value, success };
+}
+
+export function simulateRnpv(base: Inputs, spec: SimulationSpec, currentYear = new Date().getFullYear()): SimulationResult {
+  const iterations = clampInt(spec.iterations, 1, MAX_ITERATIONS, 5000);
+  const seed = spec.seed ?? 42;
+  const rng = seededRng(seed);
+  const values: number[] = [];
+  let successes = 0;
+
+  const isOwner = (base.role ?? 'OWNER') === 'OWNER';
+
+  for (let n = 0; n < iterations; n++) {
+    const o = computeOutputs(sampleInputs(base, spec, rng), currentYear);
+    const { value, success } = drawPath(o, !isOwner, isOwner ? o.ownerPV ?? 0 : o.licensorPV ?? 0, rng);
+    if (success) successes++;
+    values.push(value);
+  }
+
+  values.sort((a, b) => a - b);
+  return {
+    iterations,
+    seed,
+    mean: values.reduce((s, v) => s + v, 0) / iterations,
+    p10: percentile(values, 0.1),
+    p50: percentile(values, 0.5),
+    p90: percentile(values, 0.9),
+    probNegative: values.filter((v) => v < 0).length / iterations,
+    successRate: successes / iterations,
+    histogram: histogram(values, clampInt(spec.bins, 1, MAX_BINS, 20)),
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Deal negotiation
+ * Values one asset under one set of deal terms from both sides of the table and
+ * solves for the royalty or upfront that hits a target split.
+ */
+import type { DealLever, DealSolution, DealSplit, DealTarget, DealTerms, Inputs } from './types';
+import { computeOutputs } from './valuation';
+import { irr } from './cashflow';
+
+/** Risk-weighted annual cashflows to the licensee, index 0 = currentYear. */
+function licenseeFlows(i: Inputs, currentYear: number): number[] {
+  const owner = computeOutputs({ ...i, role: 'OWNER' }, currentYear);
+  const licensor = computeOutputs({ ...i, role: 'LICENSOR' }, currentYear);
+  const flows: number[] = [];
+  const add = (year: number, cf: number) => {
+    const t = Math.max(0, Math.floor(year) - currentYear);
+    while (flows.length <= t) flows.push(0);
+    flows[t] += cf;
+  };
+
+  for (const step of owner.phaseBreakdown ?? []) {
+    add(currentYear + step.startOffsetYears, -step.cost * step.probabilityOfReaching * (1 - i.taxRate));
+  }
+  for (const r of owner.schedule ?? []) add(r.year, r.netCashflow * owner.ptrs);
+  // Royalties and deal payments are deductible for the licensee, so they mirror the licensor's after-tax receipts
+  for (const r of licensor.schedule ?? []) add(r.year, -r.netCashflow * licensor.ptrs);
+  if (licensor.deal) {
+    add(currentYear, -licensor.deal.upfrontPV);
+    for (const m of licensor.deal.milestones) add(m.year, -m.amount * (1 - i.taxRate) * m.probability);
+  }
+  return flows;
+}
+
+export function dealSplit(i: Inputs, currentYear = new Date().getFullYear()): DealSplit {
+  const assetRnpv = computeOutputs({ ...i, role: 'OWNER' }, currentYear).rnpv;
+  const licensorRnpv = computeOutputs({ ...i, role: 'LICENSOR' }, currentYear).rnpv;
+  const licenseeRnpv = assetRnpv - licensorRnpv;
+  const total = licensorRnpv + licenseeRnpv;
+  return {
+    assetRnpv,
+    licensorRnpv,
+    licenseeRnpv,
+    licensorShare: total ? licensorRnpv / total : 0,
+    licenseeShare: total ? licenseeRnpv / total : 0,
+    licenseeIrr: irr(licenseeFlows(i, currentYear)),
+  };
+}
+
+export function applyLever(terms: DealTerms, lever: DealLever, x: number, base: DealTerms = terms): DealTerms {
+  if (lever === 'upfront') return { ...terms, upfront: x };
+  return { ...terms, tiers: base.tiers.map((t) => ({ ...t, rate: t.rate * x })) };
+}
+
+/**
+ * Bisection on the lever. Both levers move value from licensee to licensor, so the
+ * licensor share rises and the licensee IRR falls monotonically as x grows.
+ */
+export function solveDeal(
+  i: Inputs,
+  target: DealTarget,
+  lever: DealLever,
+  currentYear = new Date().getFullYear(),
+): DealSolution {
+  if (!i.dealTerms) throw new Error('dealTerms required');
+  const base = i.dealTerms;
+  const at = (x: number) => {
+    const terms = applyLever(base, lever, x, base);
+    return { terms, split: dealSplit({ ...i, dealTerms: terms }, currentYear) };
+  };
+  // > 0 when the licensor is getting too much
+  const excess = (s: DealSplit) => target.kind === 'licensorShare'
+    ? s.licensorShare - target.value
+    : target.value - (s.licenseeIrr ?? -1);
+
+  let lo = 0;
+  let hi = lever === 'upfront' ? Math.max(1, computeOutputs({ ...i, role: 'OWNER' }, currentYear).rnpv) * 2 : 10;
+  const eLo = excess(at(lo).split);
+  const eHi = excess(at(hi).split);
+  if (eLo > 0 || eHi < 0) {
+    const best = eLo > 0 ? at(lo) : at(hi);
+    return { lever, target, converged: false, ...best };
+  }
+  for (let k = 0; k < 60; k++) {
+    const mid = (lo + hi) / 2;
+    if (excess(at(mid).split) > 0) hi = mid; else lo = mid;
+  }
+  return { lever, target, converged: true, ...at((lo + hi) / 2) };
+}
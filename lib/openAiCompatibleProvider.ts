@@ -0,0 +1,65 @@
+import type { ChatProvider } from './chat';
+import { systemPrompt } from './chat';
+import type { PatchProposal, ToolResult, UnknownToolResult } from './assistantTools';
+import { isToolName, runTool, toolDefinitions } from './assistantTools';
+
+// Tool round-trips per reply before we stop and return whatever the model said
+const MAX_TOOL_ROUNDS = 4;
+
+/**
+ * Any server speaking the OpenAI chat-completions API: hosted, or a local model
+ * (Ollama, llama.cpp, vLLM) via CHAT_BASE_URL. Tools are offered whenever a valuation is loaded.
+ */
+export function createOpenAiCompatibleProvider(opts: { baseUrl: string; model: string; apiKey?: string }): ChatProvider {
+  async function complete(messages: any[], withTools: boolean) {
+    const res = await fetch(`${opts.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(opts.apiKey ? { Authorization: `Bearer ${opts.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: opts.model,
+        messages,
+        ...(withTools ? { tools: toolDefinitions.map((f) => ({ type: 'function', function: f })) } : {}),
+      }),
+    });
+    if (!res.ok) throw new Error(`Chat provider returned ${res.status}`);
+    const data = await res.json();
+    return data?.choices?.[0]?.message ?? {};
+  }
+
+  return {
+    name: `openai-compatible:${opts.model}`,
+    async reply(messages, context) {
+      const convo: any[] = [{ role: 'system', content: systemPrompt(context) }, ...messages];
+      const toolResults: (ToolResult | UnknownToolResult)[] = [];
+      let proposal: PatchProposal | undefined;
+
+      for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+        const msg = await complete(convo, !!context.inputs && round < MAX_TOOL_ROUNDS);
+        const calls: any[] = msg.tool_calls ?? [];
+        if (!calls.length || !context.inputs) {
+          return { message: msg.content ?? '', toolResults: toolResults.length ? toolResults : undefined, proposal };
+        }
+        convo.push(msg);
+        for (const call of calls) {
+          const name = call.function?.name ?? '';
+          let args: Record<string, any> = {};
+          try { args = JSON.parse(call.function?.arguments || '{}'); } catch { /* reported below as a tool error */ }
+          if (!isToolName(name)) {
+            const error = `Unknown tool: ${name}`;
+            toolResults.push({ name, args, error });
+            convo.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify({ error }) });
+            continue;
+          }
+          const result = await runTool({ name, args }, context.inputs, context.env);
+          toolResults.push(result);
+          if (result.name === 'propose_patch' && result.result) proposal = result.result;
+          convo.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(result.error ? { error: result.error } : result.result) });
+        }
+      }
+      return { message: '', toolResults, proposal };
+    },
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * Orange Book parser and LOE lookup against a small tilde-delimited fixture (node:test).
+ */
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { lookupLoe } from './orangeBook';
+import { getOrangeBookIndex } from './orangeBookLoader';
+
+const index = getOrangeBookIndex(path.resolve('fixtures/orange-book'))!;
+
+test('parses products and indexes them by trade name and ingredient', () => {
+  assert.equal(index.products.length, 3);
+  assert.equal(index.products[0].applicant, 'EXAMPLE CO');
+  assert.equal(index.byName.get('EXAMPLIB')?.length, 2);
+  assert.equal(index.byName.get('EXAMPLIB MESYLATE')?.length, 2);
+});
+
+test('LOE is the latest listed patent or exclusivity, skipping delisted patents', () => {
+  const found = lookupLoe(index, ' examplib ')!;
+  assert.equal(found.loeYear, 2034);
+  assert.deepEqual(found.patents.map((p) => p.patentNo), ['1111111', '2222222', '2222222*PED']);
+  assert.deepEqual(found.patents[1], {
+    applNo: '000001', productNo: '002', patentNo: '2222222', expiry: '2034-06-01', types: ['product', 'use'], useCode: 'U-1', pediatric: false,
+  });
+  assert.deepEqual(found.exclusivities.map((e) => e.code), ['ODE']);
+});
+
+test('filters drop pediatric extensions and non-matching patent types', () => {
+  assert.deepEqual(lookupLoe(index, 'examplib', { pediatric: false })!.patents.map((p) => p.patentNo), ['1111111', '2222222']);
+  assert.equal(lookupLoe(index, 'examplib', { patentTypes: ['substance'] })!.loeYear, 2033);
+});
+
+test('exclusivity alone sets LOE, and unknown names return null', () => {
+  assert.equal(lookupLoe(index, 'OTHERAB')!.loeYear, 2029);
+  assert.equal(lookupLoe(index, 'nothing'), null);
+});
@@ -0,0 +1,169 @@
+/**
+ * FDA Orange Book index
+ * Parses the tilde-delimited products.txt, patent.txt and exclusivity.txt files and
+ * indexes products by trade name and active ingredient.
+ */
+import { computeLoeYearFromOrangeBook, OrangeBookRecord } from './loeAdapter';
+
+export type OrangeBookProduct = {
+  applType: string;
+  applNo: string;
+  productNo: string;
+  tradeName: string;
+  ingredient: string;
+  applicant: string;
+};
+
+export type PatentType = 'substance' | 'product' | 'use';
+
+export type OrangeBookPatent = {
+  applNo: string;
+  productNo: string;
+  patentNo: string;
+  expiry: string;
+  types: PatentType[];
+  useCode?: string;
+  pediatric: boolean;
+};
+
+export type OrangeBookExclusivity = {
+  applNo: string;
+  productNo: string;
+  code: string;
+  expiry: string;
+  pediatric: boolean;
+};
+
+export type OrangeBookIndex = {
+  products: OrangeBookProduct[];
+  patentsByProduct: Map<string, OrangeBookPatent[]>;
+  exclusivitiesByProduct: Map<string, OrangeBookExclusivity[]>;
+  byName: Map<string, OrangeBookProduct[]>;
+};
+
+export type LoeFilters = {
+  /** Include pediatric (*PED / PED) extensions; default true */
+  pediatric?: boolean;
+  /** Only count patents of these types; default all */
+  patentTypes?: PatentType[];
+};
+
+export type LoeLookup = {
+  loeYear: number | null;
+  tradeNames: string[];
+  ingredients: string[];
+  patents: OrangeBookPatent[];
+  exclusivities: OrangeBookExclusivity[];
+};
+
+const productKey = (applNo: string, productNo: string) => `${applNo}-${productNo}`;
+const normalize = (s: string) => s.trim().toUpperCase();
+
+function parseTable(text: string): Record<string, string>[] {
+  const [header, ...lines] = text.split(/\r?\n/).filter((l) => l.trim());
+  if (!header) return [];
+  const cols = header.split('~').map((c) => c.trim());
+  return lines.map((line) => {
+    const f = line.split('~');
+    const row: Record<string, string> = {};
+    cols.forEach((c, k) => { row[c] = (f[k] ?? '').trim(); });
+    return row;
+  });
+}
+
+// Orange Book dates look like "Mar 15, 2030"
+function toIsoDate(s: string): string {
+  const d = new Date(`${s} UTC`);
+  return isNaN(d.getTime()) ? s : d.toISOString().slice(0, 10);
+}
+
+export function buildOrangeBookIndex(productsTxt: string, patentTxt: string, exclusivityTxt: string): OrangeBookIndex {
+  const products: OrangeBookProduct[] = parseTable(productsTxt).map((r) => ({
+    applType: r.Appl_Type,
+    applNo: r.Appl_No,
+    productNo: r.Product_No,
+    tradeName: r.Trade_Name,
+    ingredient: r.Ingredient,
+    applicant: r.Applicant_Full_Name || r.Applicant,
+  }));
+
+  const patentsByProduct = new Map<string, OrangeBookPatent[]>();
+  for (const r of parseTable(patentTxt)) {
+    if (r.Delist_Flag === 'Y') continue;
+    const types: PatentType[] = [];
+    if (r.Drug_Substance_Flag === 'Y') types.push('substance');
+    if (r.Drug_Product_Flag === 'Y') types.push('product');
+    if (r.Patent_Use_Code) types.push('use');
+    const key = productKey(r.Appl_No, r.Product_No);
+    const list = patentsByProduct.get(key) ?? [];
+    list.push({
+      applNo: r.Appl_No,
+      productNo: r.Product_No,
+      patentNo: r.Patent_No,
+      expiry: toIsoDate(r.Patent_Expire_Date_Text),
+      types,
+      useCode: r.Patent_Use_Code || undefined,
+      pediatric: r.Patent_No.toUpperCase().endsWith('*PED'),
+    });
+    patentsByProduct.set(key, list);
+  }
+
+  const exclusivitiesByProduct = new Map<string, OrangeBookExclusivity[]>();
+  for (const r of parseTable(exclusivityTxt)) {
+    const key = productKey(r.Appl_No, r.Product_No);
+    const list = exclusivitiesByProduct.get(key) ?? [];
+    list.push({
+      applNo: r.Appl_No,
+      productNo: r.Product_No,
+      code: r.Exclusivity_Code,
+      expiry: toIsoDate(r.Exclusivity_Date),
+      pediatric: r.Exclusivity_Code === 'PED',
+    });
+    exclusivitiesByProduct.set(key, list);
+  }
+
+  const byName = new Map<string, OrangeBookProduct[]>();
+  for (const p of products) {
+    for (const name of new Set([normalize(p.tradeName), normalize(p.ingredient)])) {
+      if (!name) continue;
+      const list = byName.get(name) ?? [];
+      list.push(p);
+      byName.set(name, list);
+    }
+  }
+
+  return { products, patentsByProduct, exclusivitiesByProduct, byName };
+}
+
+/** Looks up a drug by trade name or ingredient; null when nothing matches. */
+export function lookupLoe(index: OrangeBookIndex, name: string, filters: LoeFilters = {}): LoeLookup | null {
+  const products = index.byName.get(normalize(name));
+  if (!products?.length) return null;
+  const includePed = filters.pediatric ?? true;
+
+  const patents: OrangeBookPatent[] = [];
+  const exclusivities: OrangeBookExclusivity[] = [];
+  const records: OrangeBookRecord[] = [];
+  for (const p of products) {
+    const key = productKey(p.applNo, p.productNo);
+    for (const pat of index.patentsByProduct.get(key) ?? []) {
+      if (!includePed && pat.pediatric) continue;
+      if (filters.patentTypes?.length && !pat.types.some((t) => filters.patentTypes!.includes(t))) continue;
+      patents.push(pat);
+      records.push({ applicationNumber: p.applNo, productName: p.tradeName, patentExpiry: pat.expiry });
+    }
+    for (const ex of index.exclusivitiesByProduct.get(key) ?? []) {
+      if (!includePed && ex.pediatric) continue;
+      exclusivities.push(ex);
+      records.push({ applicationNumber: p.applNo, productName: p.tradeName, exclusivityExpiry: ex.expiry });
+    }
+  }
+
+  return {
+    loeYear: computeLoeYearFromOrangeBook(records),
+    tradeNames: [...new Set(products.map((p) => p.tradeName))],
+    ingredients: [...new Set(products.map((p) => p.ingredient))],
+    patents,
+    exclusivities,
+  };
+}
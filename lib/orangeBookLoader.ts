@@ -0,0 +1,15 @@
+import fs from 'fs';
+import path from 'path';
+import { buildOrangeBookIndex, OrangeBookIndex } from './orangeBook';
+
+let cached: { dir: string; index: OrangeBookIndex } | null = null;
+
+/** Server-only: builds (once per process) the index from ORANGE_BOOK_DIR; null when unset. */
+export function getOrangeBookIndex(dir = process.env.ORANGE_BOOK_DIR): OrangeBookIndex | null {
+  if (!dir) return null;
+  if (cached?.dir === dir) return cached.index;
+  const read = (name: string) => fs.readFileSync(path.join(dir, name), 'utf8');
+  const index = buildOrangeBookIndex(read('products.txt'), read('patent.txt'), read('exclusivity.txt'));
+  cached = { dir, index };
+  return index;
+}
@@ -0,0 +1,63 @@
+/**
+ * Stage-gated development model
+ * Walks the remaining phases from the current one through approval, discounting
+ * each phase's cost to its start year and weighting it by the odds of getting there.
+ */
+import type { PhaseAssumption, PhaseStep } from './types';
+import { discountFactorAt } from './cashflow';
+
+export const phases = ['Preclinical', 'Phase I', 'Phase II', 'Phase III', 'NDA', 'Approved'];
+
+// Cost in $M per phase; transitionProbability is the odds of passing into the next phase.
+export const defaultPhaseAssumptions: PhaseAssumption[] = [
+  { phase: 'Preclinical', durationYears: 1.5, cost: 5, transitionProbability: 0.60 },
+  { phase: 'Phase I', durationYears: 1.5, cost: 15, transitionProbability: 0.52 },
+  { phase: 'Phase II', durationYears: 2.5, cost: 40, transitionProbability: 0.29 },
+  { phase: 'Phase III', durationYears: 3, cost: 150, transitionProbability: 0.58 },
+  { phase: 'NDA', durationYears: 1, cost: 5, transitionProbability: 0.91 },
+];
+
+export type PhasePlan = {
+  steps: PhaseStep[];
+  /** Probability of reaching approval from the current phase */
+  cumulativePos: number;
+  /** Risk-weighted, discounted, after-tax development cost */
+  devCostPV: number;
+  /** Years from today until approval */
+  yearsToApproval: number;
+};
+
+export type PlanOptions = {
+  /** Escalates each phase's cost to the year it starts */
+  inflation?: number;
+  discountCurve?: number[];
+};
+
+export function planRemainingPhases(
+  phase: string,
+  discountRate: number,
+  taxRate: number,
+  assumptions: PhaseAssumption[] = defaultPhaseAssumptions,
+  options: PlanOptions = {},
+): PhasePlan {
+  const start = assumptions.findIndex((a) => a.phase === phase);
+  if (start === -1 && phase !== 'Approved') {
+    // A phase the table doesn't know (e.g. a typo) has no path to approval, rather than being treated as approved
+    return { steps: [], cumulativePos: 0, devCostPV: 0, yearsToApproval: 0 };
+  }
+  const remaining = start === -1 ? [] : assumptions.slice(start);
+
+  const steps: PhaseStep[] = [];
+  let t = 0;
+  let reach = 1;
+  let devCostPV = 0;
+  for (const a of remaining) {
+    const cost = a.cost * Math.pow(1 + (options.inflation ?? 0), t);
+    const costPV = cost * reach * (1 - taxRate) * discountFactorAt(t, discountRate, options.discountCurve);
+    steps.push({ ...a, cost, startOffsetYears: t, probabilityOfReaching: reach, costPV });
+    devCostPV += costPV;
+    reach *= a.transitionProbability;
+    t += a.durationYears;
+  }
+  return { steps, cumulativePos: reach, devCostPV, yearsToApproval: t };
+}
@@ -0,0 +1,45 @@
+/**
+ * Portfolio cash profile and launch distribution (node:test; run from the repo root).
+ */
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import type { Inputs, Portfolio, Valuation } from './types';
+import { computeOutputs } from './valuation';
+import { analyzePortfolio } from './portfolio';
+
+const base: Inputs = JSON.parse(readFileSync('fixtures/valuation/inputs.json', 'utf8'));
+const year = 2026;
+const portfolio: Portfolio = {
+  id: 'pf', name: 'Pipeline', ownerId: 'u', workspaceId: 'w', createdAt: '', updatedAt: '', valuationIds: ['a'], correlation: 0,
+};
+const valuation = (inputs: Inputs): Valuation => ({
+  id: 'a', ownerId: 'u', workspaceId: 'w', createdAt: '', revision: 1, inputs, outputs: computeOutputs(inputs, year),
+});
+const sum = (xs: number[]) => xs.reduce((s, x) => s + x, 0);
+
+test('an owner pays risked development cost and earns risked commercial cashflow', () => {
+  const o = computeOutputs(base, year);
+  const a = analyzePortfolio(portfolio, [valuation(base)], year);
+  assert.equal(a.totalRnpv, o.rnpv);
+  assert.ok(Math.abs(sum(a.years.map((y) => y.cashflow)) - sum(o.schedule!.map((r) => r.netCashflow * o.ptrs))) < 1e-6);
+  assert.ok(Math.abs(sum(a.years.map((y) => y.devSpend)) - sum(o.phaseBreakdown!.map((s) => s.cost * s.probabilityOfReaching))) < 1e-6);
+});
+
+test('a licensor under a deal books the upfront and risked milestones, with no development spend', () => {
+  const inputs: Inputs = {
+    ...base,
+    role: 'LICENSOR',
+    dealTerms: {
+      upfront: 50,
+      tiers: [{ upTo: null, rate: 10 }],
+      milestones: [{ name: 'Phase III start', kind: 'development', phase: 'Phase III', amount: 25 }],
+    },
+  };
+  const o = computeOutputs(inputs, year);
+  const a = analyzePortfolio(portfolio, [valuation(inputs)], year);
+  const [m] = o.deal!.milestones;
+  const royalties = sum(o.schedule!.map((r) => r.netCashflow * o.ptrs));
+  assert.equal(sum(a.years.map((y) => y.devSpend)), 0);
+  assert.ok(Math.abs(sum(a.years.map((y) => y.cashflow)) - (royalties + o.deal!.upfrontPV + 25 * (1 - base.taxRate) * m.probability)) < 1e-6);
+});
@@ -0,0 +1,107 @@
+/**
+ * Portfolio analytics
+ * Aggregates saved valuations into pipeline-level rNPV, yearly cash/dev-spend
+ * profiles and a launch-count distribution with correlated success.
+ */
+import type { Inputs, Portfolio, PortfolioAnalysis, PortfolioYear, Valuation } from './types';
+import { computeOutputs } from './valuation';
+import { normalCdf, seededRng, standardNormal } from './random';
+import { defaultCurrency, fxRate } from './fx';
+
+/** Connected components of assets linked by a shared target or mechanism. */
+export function correlatedGroups(assets: { id: string; inputs: Inputs }[]): string[][] {
+  const parent = new Map(assets.map((a) => [a.id, a.id]));
+  const find = (x: string): string => (parent.get(x) === x ? x : find(parent.get(x)!));
+  const byKey = new Map<string, string>();
+  for (const a of assets) {
+    for (const key of [a.inputs.target && `t:${a.inputs.target.toLowerCase()}`, a.inputs.mechanism && `m:${a.inputs.mechanism.toLowerCase()}`]) {
+      if (!key) continue;
+      const other = byKey.get(key);
+      if (other) parent.set(find(a.id), find(other));
+      else byKey.set(key, a.id);
+    }
+  }
+  const groups = new Map<string, string[]>();
+  for (const a of assets) {
+    const root = find(a.id);
+    groups.set(root, [...(groups.get(root) ?? []), a.id]);
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Gaussian one-factor copula: assets in a group share a common factor with weight
+ * sqrt(correlation), so their successes move together while each keeps its own PTRS.
+ */
+export function launchDistribution(
+  ptrs: number[], groupOf: number[], correlation: number, iterations = 10000, seed = 7,
+): number[] {
+  const rng = seededRng(seed);
+  const rho = Math.min(1, Math.max(0, correlation));
+  const counts = new Array(ptrs.length + 1).fill(0);
+  const groupCount = Math.max(0, ...groupOf) + 1;
+  for (let n = 0; n < iterations; n++) {
+    const factors = Array.from({ length: groupCount }, () => standardNormal(rng));
+    let launches = 0;
+    ptrs.forEach((p, k) => {
+      const x = Math.sqrt(rho) * factors[groupOf[k]] + Math.sqrt(1 - rho) * standardNormal(rng);
+      if (normalCdf(x) < p) launches++;
+    });
+    counts[launches]++;
+  }
+  return counts.map((c) => c / iterations);
+}
+
+/** Money is reported in `currency`; each asset is converted from its own valuation currency. */
+export function analyzePortfolio(
+  portfolio: Portfolio, valuations: (Valuation | null)[], currentYear = new Date().getFullYear(), currency = defaultCurrency,
+): PortfolioAnalysis {
+  const found = valuations.filter((v): v is Valuation => !!v);
+  const missing = portfolio.valuationIds.filter((_, k) => !valuations[k]);
+  const years = new Map<number, PortfolioYear>();
+  const at = (year: number) => {
+    if (!years.has(year)) years.set(year, { year, cashflow: 0, devSpend: 0 });
+    return years.get(year)!;
+  };
+
+  const assets = found.map((v) => {
+    const o = computeOutputs(v.inputs, currentYear);
+    const fx = fxRate(o.currency ?? defaultCurrency, currency);
+    for (const r of o.schedule ?? []) at(r.year).cashflow += r.netCashflow * o.ptrs * fx;
+    // A licensor under a deal is paid the upfront and risked milestones, and the licensee funds development
+    const deal = (v.inputs.role ?? 'OWNER') === 'LICENSOR' ? o.deal : undefined;
+    if (deal) {
+      // The upfront is paid today, so its PV is the after-tax amount
+      at(currentYear).cashflow += deal.upfrontPV * fx;
+      for (const m of deal.milestones) at(m.year).cashflow += m.amount * (1 - v.inputs.taxRate) * m.probability * fx;
+    }
+    // Spread each phase's risked cost evenly across its duration
+    for (const step of deal ? [] : o.phaseBreakdown ?? []) {
+      const span = Math.max(1, Math.ceil(step.durationYears));
+      const start = Math.floor(currentYear + step.startOffsetYears);
+      for (let k = 0; k < span; k++) at(start + k).devSpend += (step.cost * step.probabilityOfReaching * fx) / span;
+    }
+    return {
+      id: v.id,
+      label: `${v.inputs.indication} · ${v.inputs.phase}${v.inputs.target ? ` · ${v.inputs.target}` : ''}`,
+      rnpv: o.rnpv * fx,
+      ptrs: o.ptrs,
+      launchYear: o.launchYear ?? v.inputs.launchYear,
+    };
+  });
+
+  const groups = correlatedGroups(found.map((v) => ({ id: v.id, inputs: v.inputs })));
+  const groupOf = found.map((v) => groups.findIndex((g) => g.includes(v.id)));
+  const dist = launchDistribution(assets.map((a) => a.ptrs), groupOf, portfolio.correlation);
+
+  return {
+    currency,
+    totalRnpv: assets.reduce((sum, a) => sum + a.rnpv, 0),
+    assets,
+    missing,
+    years: [...years.values()].sort((a, b) => a.year - b.year),
+    launchDistribution: dist,
+    expectedLaunches: assets.reduce((sum, a) => sum + a.ptrs, 0),
+    correlatedGroups: groups.filter((g) => g.length > 1),
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * Prisma-backed store against an in-memory PrismaLike stand-in (node:test).
+ * The stand-in enforces the (valuationId, revision) primary key the way Postgres does (P2002).
+ */
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import type { Inputs, Valuation } from './types';
+import { computeOutputs } from './valuation';
+import { createPrismaStore, PrismaLike } from './prismaStore';
+import { RevisionConflictError } from './history';
+
+type Row = Record<string, any>;
+
+const matches = (row: Row, where: Row) =>
+  Object.entries(where).every(([k, v]) => (v && typeof v === 'object' && 'in' in v ? v.in.includes(row[k]) : row[k] === v));
+
+function table(key: (r: Row) => string) {
+  const rows = new Map<string, Row>();
+  const keyOf = (where: Row) => key(where.valuationId_revision ?? where);
+  return {
+    rows,
+    async create({ data }: { data: Row }) {
+      if (rows.has(key(data))) throw Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+      rows.set(key(data), { ...data });
+      return { ...data };
+    },
+    async findUnique({ where }: { where: Row }) {
+      const row = rows.get(keyOf(where));
+      return row ? { ...row } : null;
+    },
+    async findMany({ where }: { where: Row }) {
+      return [...rows.values()].filter((r) => matches(r, where)).map((r) => ({ ...r }));
+    },
+    async update({ where, data }: { where: Row; data: Row }) {
+      const row = rows.get(keyOf(where));
+      if (!row) throw new Error('Record not found');
+      Object.assign(row, data);
+      return { ...row };
+    },
+    async updateMany({ where, data }: { where: Row; data: Row }) {
+      const hits = [...rows.values()].filter((r) => matches(r, where));
+      hits.forEach((r) => Object.assign(r, data));
+      return { count: hits.length };
+    },
+  };
+}
+
+function fakePrisma() {
+  const client = {
+    async $transaction<T>(ops: Promise<T>[]) { return Promise.all(ops); },
+    valuation: table((r) => r.id),
+    valuationRevision: table((r) => `${r.valuationId}:${r.revision}`),
+    portfolio: table((r) => r.id),
+  };
+  return client;
+}
+
+const inputs: Inputs = JSON.parse(readFileSync('fixtures/valuation/inputs.json', 'utf8'));
+const outputs = computeOutputs(inputs, 2026);
+
+function doc(revision: number, peakSales = inputs.peakSales): Valuation {
+  return {
+    id: 'val-1', ownerId: 'user-1', workspaceId: 'ws-1', createdAt: new Date(Date.UTC(2026, 0, revision)).toISOString(),
+    revision, inputs: { ...inputs, peakSales }, outputs,
+  };
+}
+
+// Only the delegates the valuation paths touch are faked
+const storeOver = (client: ReturnType<typeof fakePrisma>) => createPrismaStore(client as unknown as PrismaLike);
+
+test('revisions append in order and a stale revision is a conflict', async () => {
+  const store = storeOver(fakePrisma());
+  await store.insert(doc(1));
+  await store.appendRevision(doc(2, 600));
+  assert.equal((await store.getById('val-1'))?.inputs.peakSales, 600);
+  assert.deepEqual((await store.listRevisions('val-1')).map((v) => [v.revision, v.inputs.peakSales]), [[1, 500], [2, 600]]);
+  await assert.rejects(store.appendRevision(doc(2, 700)), RevisionConflictError);
+});
+
+test('two concurrent saves of the same revision: one wins, the other conflicts', async () => {
+  const store = storeOver(fakePrisma());
+  await store.insert(doc(1));
+  const results = await Promise.allSettled([store.appendRevision(doc(2, 600)), store.appendRevision(doc(2, 700))]);
+  assert.deepEqual(results.map((r) => r.status).sort(), ['fulfilled', 'rejected']);
+  const rejected = results.find((r): r is PromiseRejectedResult => r.status === 'rejected')!;
+  assert.ok(rejected.reason instanceof RevisionConflictError);
+  assert.equal((await store.listRevisions('val-1')).length, 2);
+});
+
+test('legacy rows read as not found until claimed, then keep their stored version as history', async () => {
+  const client = fakePrisma();
+  const { id, ownerId, workspaceId, createdAt, revision, ...payload } = doc(1);
+  // Saved before workspaces and revision history: no owner, no ValuationRevision row
+  client.valuation.rows.set(id, { id, ownerId: null, workspaceId: null, createdAt: new Date(createdAt), revision, payload });
+  client.portfolio.rows.set('pf-1', { id: 'pf-1', name: 'Legacy', ownerId: null, workspaceId: null, payload: {} });
+  const store = storeOver(client);
+
+  assert.equal(await store.getById(id), null);
+  assert.deepEqual(await store.listByWorkspace('ws-1'), []);
+  assert.deepEqual(await store.listRevisions(id), []);
+  assert.equal(await store.getRevision(id, 1), null);
+
+  assert.deepEqual(await store.claimUnowned('ws-1', 'user-1'), { valuations: 1, portfolios: 1 });
+  assert.equal((await store.getById(id))?.workspaceId, 'ws-1');
+
+  await store.appendRevision(doc(2, 600));
+  const history = await store.listRevisions(id);
+  assert.deepEqual(history.map((v) => [v.revision, v.inputs.peakSales, v.ownerId, v.workspaceId]), [
+    [1, 500, 'user-1', 'ws-1'],
+    [2, 600, 'user-1', 'ws-1'],
+  ]);
+});
+
+test('stored payloads that are not objects are rejected rather than spread', async () => {
+  const client = fakePrisma();
+  client.valuation.rows.set('bad', { id: 'bad', ownerId: 'user-1', workspaceId: 'ws-1', createdAt: new Date(), revision: 1, payload: [] });
+  await assert.rejects(storeOver(client).getById('bad'), /not an object/);
+});
@@ -0,0 +1,334 @@
+import type { Portfolio, ShareLink, User, Valuation, Workspace, WorkspaceRole } from './types';
+import type { ValuationStore } from './store';
+import { RevisionConflictError } from './history';
+import { EmailTakenError } from './auth';
+
+type ValuationPayload = Omit<Valuation, 'id' | 'ownerId' | 'workspaceId' | 'createdAt' | 'revision'>;
+type RevisionPayload = ValuationPayload & Partial<Pick<Valuation, 'ownerId' | 'workspaceId'>>;
+type PortfolioPayload = Omit<Portfolio, 'id' | 'name' | 'ownerId' | 'workspaceId' | 'createdAt' | 'updatedAt'>;
+
+// Json columns are read back as `unknown`; asPayload narrows them to what toRows/toPortfolioRow wrote.
+// ownerId/workspaceId are null on legacy rows until claimed (see claimUnowned).
+type PrismaRow = { id: string; ownerId: string | null; workspaceId: string | null; createdAt: Date; revision: number; payload: unknown };
+type PrismaRevisionRow = { valuationId: string; revision: number; createdAt: Date; payload: unknown };
+type PrismaPortfolioRow = {
+  id: string; name: string; ownerId: string | null; workspaceId: string | null; createdAt: Date; updatedAt: Date; payload: unknown;
+};
+type Claimed<T> = T & { ownerId: string; workspaceId: string };
+type ClaimArgs = { where: { workspaceId: null }; data: { ownerId: string; workspaceId: string } };
+type PrismaUserRow = { id: string; email: string; name: string | null; passwordHash: string; createdAt: Date };
+type PrismaWorkspaceRow = { id: string; name: string; createdAt: Date };
+type PrismaMemberRow = { workspaceId: string; userId: string; role: string };
+type PrismaShareLinkRow = {
+  slug: string; valuationId: string; createdBy: string; createdAt: Date; expiresAt: Date | null;
+  passwordHash: string | null; revokedAt: Date | null; views: number; lastViewedAt: Date | null;
+};
+
+/**
+ * Minimal slice of the generated PrismaClient used by this store.
+ * Typed structurally so tests can pass a client pointed at a local Postgres
+ * (or any stand-in with the same delegates).
+ */
+export type PrismaLike = {
+  $transaction<T>(ops: Promise<T>[]): Promise<T[]>;
+  valuation: {
+    create(args: { data: PrismaRow }): Promise<PrismaRow>;
+    update(args: { where: { id: string }; data: Partial<Omit<PrismaRow, 'id'>> }): Promise<PrismaRow>;
+    findUnique(args: { where: { id: string } }): Promise<PrismaRow | null>;
+    findMany(args: { where: { workspaceId: string }; orderBy: { createdAt: 'asc' } }): Promise<PrismaRow[]>;
+    updateMany(args: ClaimArgs): Promise<{ count: number }>;
+  };
+  valuationRevision: {
+    create(args: { data: PrismaRevisionRow }): Promise<PrismaRevisionRow>;
+    findMany(args: { where: { valuationId: string }; orderBy: { revision: 'asc' } }): Promise<PrismaRevisionRow[]>;
+    findUnique(args: { where: { valuationId_revision: { valuationId: string; revision: number } } }): Promise<PrismaRevisionRow | null>;
+  };
+  portfolio: {
+    create(args: { data: Claimed<PrismaPortfolioRow> }): Promise<Claimed<PrismaPortfolioRow>>;
+    update(args: { where: { id: string }; data: Omit<Claimed<PrismaPortfolioRow>, 'id' | 'createdAt'> }): Promise<Claimed<PrismaPortfolioRow>>;
+    findUnique(args: { where: { id: string } }): Promise<PrismaPortfolioRow | null>;
+    findMany(args: { where: { workspaceId: { in: string[] } }; orderBy: { createdAt: 'asc' } }): Promise<PrismaPortfolioRow[]>;
+    deleteMany(args: { where: { id: string } }): Promise<{ count: number }>;
+    updateMany(args: ClaimArgs): Promise<{ count: number }>;
+  };
+  user: {
+    create(args: { data: PrismaUserRow }): Promise<PrismaUserRow>;
+    findUnique(args: { where: { id: string } | { email: string } }): Promise<PrismaUserRow | null>;
+  };
+  workspace: {
+    create(args: { data: PrismaWorkspaceRow }): Promise<PrismaWorkspaceRow>;
+    findUnique(args: { where: { id: string } }): Promise<PrismaWorkspaceRow | null>;
+    findMany(args: { where: { id: { in: string[] } }; orderBy: { createdAt: 'asc' } }): Promise<PrismaWorkspaceRow[]>;
+  };
+  workspaceMember: {
+    createMany(args: { data: PrismaMemberRow[] }): Promise<{ count: number }>;
+    upsert(args: {
+      where: { workspaceId_userId: { workspaceId: string; userId: string } };
+      create: PrismaMemberRow;
+      update: { role: string };
+    }): Promise<PrismaMemberRow>;
+    deleteMany(args: { where: { workspaceId: string; userId: string } }): Promise<{ count: number }>;
+    findMany(args: { where: { workspaceId: string } | { userId: string } | { workspaceId: { in: string[] } } }): Promise<PrismaMemberRow[]>;
+  };
+  shareLink: {
+    create(args: { data: PrismaShareLinkRow }): Promise<PrismaShareLinkRow>;
+    findUnique(args: { where: { slug: string } }): Promise<PrismaShareLinkRow | null>;
+    findMany(args: { where: { valuationId: string }; orderBy: { createdAt: 'asc' } }): Promise<PrismaShareLinkRow[]>;
+    update(args: {
+      where: { slug: string };
+      data: Partial<Omit<PrismaShareLinkRow, 'slug' | 'views'>> & { views?: { increment: number } };
+    }): Promise<PrismaShareLinkRow>;
+  };
+};
+
+function asPayload<T>(payload: unknown): T {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) throw new Error('Stored payload is not an object');
+  return payload as T;
+}
+
+function isClaimed<T extends { ownerId: string | null; workspaceId: string | null }>(row: T | null): row is Claimed<T> {
+  return !!row && row.ownerId != null && row.workspaceId != null;
+}
+
+function toValuation(row: Claimed<PrismaRow>): Valuation {
+  return {
+    ...asPayload<ValuationPayload>(row.payload),
+    id: row.id,
+    ownerId: row.ownerId,
+    workspaceId: row.workspaceId,
+    revision: row.revision,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+// Ownership comes from the valuation row: revisions saved before workspaces existed don't record it
+function revisionToValuation(row: PrismaRevisionRow, latest: Claimed<PrismaRow>): Valuation {
+  return {
+    ...asPayload<RevisionPayload>(row.payload),
+    ownerId: latest.ownerId,
+    workspaceId: latest.workspaceId,
+    id: row.valuationId,
+    revision: row.revision,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+// Everything except the indexed columns lives in the `payload` Json column.
+function toPayload(doc: Valuation): ValuationPayload {
+  const { id, ownerId, workspaceId, createdAt, revision, ...payload } = doc;
+  return payload;
+}
+
+function toPortfolio(row: Claimed<PrismaPortfolioRow>): Portfolio {
+  return {
+    ...asPayload<PortfolioPayload>(row.payload),
+    id: row.id,
+    name: row.name,
+    ownerId: row.ownerId,
+    workspaceId: row.workspaceId,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+function toPortfolioRow(p: Portfolio): Claimed<PrismaPortfolioRow> {
+  const { id, name, ownerId, workspaceId, createdAt, updatedAt, ...payload } = p;
+  return { id, name, ownerId, workspaceId, createdAt: new Date(createdAt), updatedAt: new Date(updatedAt), payload };
+}
+
+function toRows(doc: Valuation): [Claimed<PrismaRow>, PrismaRevisionRow] {
+  const createdAt = new Date(doc.createdAt);
+  const payload = toPayload(doc);
+  const { id, ownerId, workspaceId, revision } = doc;
+  return [
+    { id, ownerId, workspaceId, createdAt, revision, payload },
+    { valuationId: id, revision, createdAt, payload: { ...payload, ownerId, workspaceId } },
+  ];
+}
+
+function toUser(row: PrismaUserRow): User {
+  const { name, createdAt, ...rest } = row;
+  return { ...rest, ...(name ? { name } : {}), createdAt: createdAt.toISOString() };
+}
+
+function toWorkspace(row: PrismaWorkspaceRow, members: PrismaMemberRow[]): Workspace {
+  return {
+    id: row.id,
+    name: row.name,
+    createdAt: row.createdAt.toISOString(),
+    members: members
+      .filter((m) => m.workspaceId === row.id)
+      .map((m) => ({ userId: m.userId, role: m.role as WorkspaceRole })),
+  };
+}
+
+const isoOrNull = (d: Date | null) => (d ? d.toISOString() : null);
+const dateOrNull = (s: string | null) => (s ? new Date(s) : null);
+
+function toShareLink(row: PrismaShareLinkRow): ShareLink {
+  return {
+    ...row,
+    createdAt: row.createdAt.toISOString(),
+    expiresAt: isoOrNull(row.expiresAt),
+    revokedAt: isoOrNull(row.revokedAt),
+    lastViewedAt: isoOrNull(row.lastViewedAt),
+  };
+}
+
+function toShareLinkRow(link: ShareLink): PrismaShareLinkRow {
+  return {
+    ...link,
+    createdAt: new Date(link.createdAt),
+    expiresAt: dateOrNull(link.expiresAt),
+    revokedAt: dateOrNull(link.revokedAt),
+    lastViewedAt: dateOrNull(link.lastViewedAt),
+  };
+}
+
+export function createPrismaStore(client: PrismaLike): ValuationStore {
+  async function loadWorkspace(id: string) {
+    const row = await client.workspace.findUnique({ where: { id } });
+    if (!row) return null;
+    return toWorkspace(row, await client.workspaceMember.findMany({ where: { workspaceId: id } }));
+  }
+
+  return {
+    async insert(doc) {
+      const [row, rev] = toRows(doc);
+      await client.$transaction<unknown>([
+        client.valuation.create({ data: row }),
+        client.valuationRevision.create({ data: rev }),
+      ]);
+      return doc;
+    },
+    async appendRevision(doc) {
+      const [{ id, ...row }, rev] = toRows(doc);
+      const previous = await client.valuation.findUnique({ where: { id } });
+      if (!isClaimed(previous)) throw new Error(`Unknown valuation ${id}`);
+      if (previous.revision !== doc.revision - 1) throw new RevisionConflictError(id, doc.revision);
+      const ops: Promise<unknown>[] = [];
+      // Valuations saved before revisions were recorded have no history row; keep their stored version first
+      const where = { valuationId_revision: { valuationId: id, revision: previous.revision } };
+      if (!(await client.valuationRevision.findUnique({ where }))) {
+        ops.push(client.valuationRevision.create({ data: toRows(toValuation(previous))[1] }));
+      }
+      ops.push(client.valuation.update({ where: { id }, data: row }), client.valuationRevision.create({ data: rev }));
+      try {
+        await client.$transaction<unknown>(ops);
+      } catch (e: any) {
+        // (valuationId, revision) is the primary key, so a concurrent save of the same revision fails here
+        if (e?.code === 'P2002') throw new RevisionConflictError(id, doc.revision);
+        throw e;
+      }
+      return doc;
+    },
+    async getById(id) {
+      const row = await client.valuation.findUnique({ where: { id } });
+      return isClaimed(row) ? toValuation(row) : null;
+    },
+    async listByWorkspace(workspaceId) {
+      return (await client.valuation.findMany({ where: { workspaceId }, orderBy: { createdAt: 'asc' } })).filter(isClaimed).map(toValuation);
+    },
+    async listRevisions(valuationId) {
+      const latest = await client.valuation.findUnique({ where: { id: valuationId } });
+      if (!isClaimed(latest)) return [];
+      const rows = await client.valuationRevision.findMany({ where: { valuationId }, orderBy: { revision: 'asc' } });
+      return rows.map((row) => revisionToValuation(row, latest));
+    },
+    async getRevision(valuationId, revision) {
+      const latest = await client.valuation.findUnique({ where: { id: valuationId } });
+      if (!isClaimed(latest)) return null;
+      const row = await client.valuationRevision.findUnique({ where: { valuationId_revision: { valuationId, revision } } });
+      return row ? revisionToValuation(row, latest) : null;
+    },
+    async insertPortfolio(p) {
+      return toPortfolio(await client.portfolio.create({ data: toPortfolioRow(p) }));
+    },
+    async updatePortfolio(p) {
+      const { id, createdAt, ...data } = toPortfolioRow(p);
+      return toPortfolio(await client.portfolio.update({ where: { id }, data }));
+    },
+    async getPortfolio(id) {
+      const row = await client.portfolio.findUnique({ where: { id } });
+      return isClaimed(row) ? toPortfolio(row) : null;
+    },
+    async listPortfolios(workspaceIds) {
+      const rows = await client.portfolio.findMany({ where: { workspaceId: { in: workspaceIds } }, orderBy: { createdAt: 'asc' } });
+      return rows.filter(isClaimed).map(toPortfolio);
+    },
+    async claimUnowned(workspaceId, ownerId) {
+      const args: ClaimArgs = { where: { workspaceId: null }, data: { ownerId, workspaceId } };
+      const [valuations, portfolios] = await client.$transaction([client.valuation.updateMany(args), client.portfolio.updateMany(args)]);
+      return { valuations: valuations.count, portfolios: portfolios.count };
+    },
+    async deletePortfolio(id) {
+      const { count } = await client.portfolio.deleteMany({ where: { id } });
+      return count > 0;
+    },
+    async insertUser(user) {
+      const { name, createdAt, ...rest } = user;
+      try {
+        return toUser(await client.user.create({ data: { ...rest, name: name ?? null, createdAt: new Date(createdAt) } }));
+      } catch (e: any) {
+        // email is unique, so a concurrent registration of the same address fails here
+        if (e?.code === 'P2002') throw new EmailTakenError();
+        throw e;
+      }
+    },
+    async getUserById(id) {
+      const row = await client.user.findUnique({ where: { id } });
+      return row ? toUser(row) : null;
+    },
+    async getUserByEmail(email) {
+      const row = await client.user.findUnique({ where: { email } });
+      return row ? toUser(row) : null;
+    },
+    async insertWorkspace(ws) {
+      await client.$transaction<unknown>([
+        client.workspace.create({ data: { id: ws.id, name: ws.name, createdAt: new Date(ws.createdAt) } }),
+        client.workspaceMember.createMany({ data: ws.members.map((m) => ({ workspaceId: ws.id, ...m })) }),
+      ]);
+      return ws;
+    },
+    getWorkspace: loadWorkspace,
+    async listWorkspacesForUser(userId) {
+      const ids = (await client.workspaceMember.findMany({ where: { userId } })).map((m) => m.workspaceId);
+      if (!ids.length) return [];
+      const [rows, members] = await Promise.all([
+        client.workspace.findMany({ where: { id: { in: ids } }, orderBy: { createdAt: 'asc' } }),
+        client.workspaceMember.findMany({ where: { workspaceId: { in: ids } } }),
+      ]);
+      return rows.map((row) => toWorkspace(row, members));
+    },
+    async setMember(workspaceId, { userId, role }) {
+      await client.workspaceMember.upsert({
+        where: { workspaceId_userId: { workspaceId, userId } },
+        create: { workspaceId, userId, role },
+        update: { role },
+      });
+      return loadWorkspace(workspaceId);
+    },
+    async insertShareLink(link) {
+      return toShareLink(await client.shareLink.create({ data: toShareLinkRow(link) }));
+    },
+    async getShareLink(slug) {
+      const row = await client.shareLink.findUnique({ where: { slug } });
+      return row ? toShareLink(row) : null;
+    },
+    async listShareLinks(valuationId) {
+      return (await client.shareLink.findMany({ where: { valuationId }, orderBy: { createdAt: 'asc' } })).map(toShareLink);
+    },
+    async updateShareLink(link) {
+      const { slug, views, ...data } = toShareLinkRow(link);
+      return toShareLink(await client.shareLink.update({ where: { slug }, data }));
+    },
+    async recordShareView(slug, at) {
+      // Atomic increment so concurrent viewers aren't lost
+      await client.shareLink.update({ where: { slug }, data: { views: { increment: 1 }, lastViewedAt: new Date(at) } });
+    },
+    async removeMember(workspaceId, userId) {
+      await client.workspaceMember.deleteMany({ where: { workspaceId, userId } });
+      return loadWorkspace(workspaceId);
+    },
+  };
+}
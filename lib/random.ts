@@ -0,0 +1,63 @@
+import type { Distribution } from './types';
+
+export type Rng = () => number;
+
+/** Mulberry32: small, fast, seedable PRNG returning floats in [0, 1). */
+export function seededRng(seed: number): Rng {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Box-Muller
+export function standardNormal(rng: Rng): number {
+  let u = 0;
+  while (u === 0) u = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+}
+
+export function sample(d: Distribution, rng: Rng): number {
+  switch (d.kind) {
+    case 'uniform':
+      return d.min + (d.max - d.min) * rng();
+    case 'normal':
+      return d.mean + d.sd * standardNormal(rng);
+    case 'lognormal':
+      return Math.exp(d.mu + d.sigma * standardNormal(rng));
+    case 'triangular': {
+      const u = rng();
+      const range = d.max - d.min;
+      if (range <= 0) return d.mode;
+      const c = (d.mode - d.min) / range;
+      return u < c
+        ? d.min + Math.sqrt(u * range * (d.mode - d.min))
+        : d.max - Math.sqrt((1 - u) * range * (d.max - d.mode));
+    }
+  }
+}
+
+export function bernoulli(p: number, rng: Rng): boolean {
+  return rng() < p;
+}
+
+/** Linear-interpolated percentile of an ascending-sorted array (p in 0..1). */
+export function percentile(sorted: number[], p: number): number {
+  if (!sorted.length) return 0;
+  const idx = (sorted.length - 1) * p;
+  const lo = Math.floor(idx);
+  const hi = Math.ceil(idx);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo);
+}
+
+/** Standard normal CDF (Abramowitz-Stegun 7.1.26 erf approximation). */
+export function normalCdf(x: number): number {
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * z);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-z * z);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
@@ -1,3 +1,5 @@
+import type { RoyaltyTier } from './types';
+
 export function royaltyAtYear(y: number, launch: number, loe: number, min: number, max: number, ramp = 3): number {
   if (y < launch || y >= loe) return 0;
   if (y - launch >= ramp) return max;
@@ -9,3 +11,15 @@ export function averageRoyalty(launch: number, loe: number, min: number, max: nu
   for (let y = launch; y < loe; y++) { sum += royaltyAtYear(y, launch, loe, min, max, ramp); n++; }
   return n ? sum / n : 0;
 }
+
+/** Royalty income on `sales` under marginal tiers, optionally scaled (e.g. post-LOE step-down). */
+export function tieredRoyalty(sales: number, tiers: RoyaltyTier[], scale = 1): number {
+  let income = 0, floor = 0;
+  for (const t of tiers) {
+    const cap = t.upTo ?? Infinity;
+    if (sales <= floor) break;
+    income += (Math.min(sales, cap) - floor) * (t.rate / 100);
+    floor = cap;
+  }
+  return income * scale;
+}
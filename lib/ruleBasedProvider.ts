@@ -0,0 +1,195 @@
+/**
+ * Offline, deterministic assistant. Answers the quick prompts from the model itself
+ * rather than free text, so it works without any API key.
+ */
+import type { ChatContext, ChatProvider, ChatReply } from './chat';
+import type { Inputs, NumericField, TornadoBar } from './types';
+import type { InputPatch, PatchProposal } from './assistantTools';
+import { runTool } from './assistantTools';
+import { computeScenarios, defaultScenarios } from './scenarios';
+import { formatMoney } from './fx';
+import { effectivePeakSales } from './valuation';
+
+type Ctx = Required<Pick<ChatContext, 'inputs' | 'outputs'>> & Pick<ChatContext, 'env'>;
+
+const pct = (v?: number) => `${((v ?? 0) * 100).toFixed(1)}%`;
+
+function explainPtrs({ outputs: o }: Ctx) {
+  const steps = (o.phaseBreakdown ?? []).map((p) => `${p.phase} ${pct(p.transitionProbability)}`).join(' × ');
+  const drivers = (o.mechanism?.contributions ?? [])
+    .filter((c) => c.delta !== 0)
+    .map((c) => `${c.note ?? c.label} ${c.delta > 0 ? '+' : ''}${c.delta.toFixed(2)}`)
+    .join(', ');
+  return [
+    `PTRS = baseline probability of approval × mechanism bonus, capped at 100%.`,
+    steps ? `Baseline: ${steps} = ${pct(o.baselinePos)} (benchmarks ${o.benchmarkVersion ?? 'default'}).` : `Baseline: asset is already approved (100%).`,
+    `Mechanism bonus ${o.mechanismBonus.toFixed(2)}x${drivers ? ` (${drivers})` : ''} → PTRS ${pct(o.ptrs)}.`,
+    `rNPV = success PV × PTRS − risked development cost = ${formatMoney(o.rnpv, o.currency)}.`,
+  ].join('\n');
+}
+
+async function topDrivers({ inputs, outputs: o, env }: Ctx): Promise<ChatReply> {
+  const call = await runTool({ name: 'sensitivity', args: { top: 3 } }, inputs, env);
+  const bars: TornadoBar[] = call.result ?? [];
+  const message = [
+    'Top 3 rNPV drivers (one-way flex, everything else at base):',
+    ...bars.map((b, k) => `${k + 1}. ${b.field}: ${b.low.toFixed(2)} → ${b.high.toFixed(2)} moves rNPV ${formatMoney(b.rnpvLow, o.currency)} → ${formatMoney(b.rnpvHigh, o.currency)} (swing ${formatMoney(b.swing, o.currency)})`),
+  ].join('\n');
+  return { message, toolResults: [call] };
+}
+
+function checkLoe({ inputs: i, outputs: o }: Ctx) {
+  const launch = o.launchYear ?? i.launchYear;
+  const exclusivity = i.loeYear - launch;
+  const notes: string[] = [`Launch ${launch}, LOE ${i.loeYear}: ${exclusivity.toFixed(1)} years of market exclusivity.`];
+  if (exclusivity <= 0) notes.push('⚠ LOE is at or before launch, so there is no protected revenue.');
+  else if (exclusivity < 7) notes.push('⚠ Under 7 years is short; check for unlisted patents, PTE or regulatory exclusivity.');
+  else if (exclusivity > 15) notes.push('⚠ Over 15 years is unusual; patent term extension is capped at 14 years post-approval in the US.');
+  else notes.push('Exclusivity window is within the typical 7–15 year range.');
+  notes.push(i.erosion?.length
+    ? `Post-LOE erosion: ${i.erosion.map((e) => `${Math.round(e * 100)}%`).join(', ')} lost in years 1–${i.erosion.length}.`
+    : 'Sales drop to zero at LOE (no erosion curve); consider a generic erosion profile.');
+  return notes.join('\n');
+}
+
+function suggestScenarios({ inputs, outputs: { currency } }: Ctx) {
+  const scenarios = defaultScenarios(inputs);
+  const { results, expectedRnpv } = computeScenarios(inputs, scenarios);
+  return [
+    'Suggested scenarios:',
+    ...results.map((r, k) => {
+      const o = scenarios[k].overrides;
+      const changes = Object.entries(o).map(([f, v]) => `${f} ${typeof v === 'number' ? v.toFixed(0) : v}`).join(', ') || 'current inputs';
+      return `• ${r.name} (${pct(r.weight)}): ${changes} → rNPV ${formatMoney(r.outputs.rnpv, currency)}`;
+    }),
+    `Probability-weighted rNPV: ${formatMoney(expectedRnpv, currency)}.`,
+  ].join('\n');
+}
+
+function overview({ outputs: o, inputs: i }: Ctx) {
+  const pv = ((i.role ?? 'OWNER') === 'OWNER' ? o.ownerPV : o.licensorPV) ?? 0;
+  return `rNPV ${formatMoney(o.rnpv, o.currency)} = ${formatMoney(pv, o.currency)} success PV × ${pct(o.ptrs)} PTRS − ${formatMoney(o.devCostPV, o.currency)} risked development cost.\n` +
+    'Ask about PTRS, top drivers, LOE assumptions or scenarios, or try "what if launch slips two years?".';
+}
+
+const numberWords: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+const NUM = '(\\d+(?:\\.\\d+)?|an?|one|two|three|four|five|six|seven|eight|nine|ten)';
+const toNumber = (s: string) => numberWords[s] ?? Number(s);
+
+const rateFields: [RegExp, NumericField][] = [
+  [/discount rate/, 'discountRate'],
+  [/tax rate/, 'taxRate'],
+  [/\bcogs\b|cost of goods/, 'cogs'],
+  [/commercial spend|sg&a/, 'commercialSpend'],
+  [/working capital/, 'workingCapital'],
+];
+
+/**
+ * Reads "what if" phrasing into an input patch: launch/LOE shifts in years, peak sales as an
+ * absolute ($M, or "1.2b") or relative change, and rates set to a percentage. Null when nothing matched.
+ */
+export function parseWhatIf(q: string, inputs: Inputs, launchYear: number): InputPatch | null {
+  const patch: InputPatch = {};
+  const years = (subject: string) => {
+    const m = q.match(new RegExp(`${subject}[^.?!]*?\\b(?:by\\s+)?${NUM}\\s*(?:more\\s+)?(?:years?|yrs?)`));
+    if (!m) return null;
+    const earlier = new RegExp(`${subject}[^.?!]*?(earlier|sooner|pull(?:ed|s)? (?:in|forward)|accelerat|shorter|less)`).test(q);
+    return earlier ? -toNumber(m[1]) : toNumber(m[1]);
+  };
+  const launchShift = years('launch');
+  if (launchShift) patch.launchYear = launchYear + launchShift;
+  const loeShift = years('(?:loe|exclusivity|patent)');
+  if (loeShift) patch.loeYear = inputs.loeYear + loeShift;
+
+  const relative = q.match(/peak sales[^.?!]*?(up|down|increase[sd]?|decrease[sd]?|higher|lower|cut|drop[s]?|fall[s]?|rise[s]?)[^.?!\d]*(\d+(?:\.\d+)?)\s*%/);
+  const absolute = q.match(/peak sales[^.?!\d]*?(?:of|to|at|=|is)\s*\$?(\d+(?:\.\d+)?)\s*(b|bn|billion|m|mm|million)?\b/);
+  if (relative) {
+    const down = /down|decrease|lower|cut|drop|fall/.test(relative[1]);
+    patch.peakSales = effectivePeakSales(inputs) * (1 + (down ? -1 : 1) * Number(relative[2]) / 100);
+  } else if (absolute) {
+    patch.peakSales = Number(absolute[1]) * (/^b/.test(absolute[2] ?? '') ? 1000 : 1);
+  }
+
+  for (const [re, field] of rateFields) {
+    const m = q.match(new RegExp(`(?:${re.source})[^.?!\\d]*?(\\d+(?:\\.\\d+)?)\\s*%`));
+    if (m) patch[field] = Number(m[1]) / 100;
+  }
+  return Object.keys(patch).length ? patch : null;
+}
+
+const roiText = (v: number | null) => (v != null ? `${v}%` : 'n/a');
+
+function formatChange(field: string, v: number | boolean | undefined, currency?: string) {
+  if (typeof v !== 'number') return String(v);
+  if (field === 'peakSales') return formatMoney(v, currency);
+  if (rateFields.some(([, f]) => f === field)) return pct(v);
+  return String(Math.round(v * 100) / 100);
+}
+
+async function whatIf({ inputs, outputs: { currency }, env }: Ctx, patch: InputPatch): Promise<ChatReply> {
+  const call = await runTool({ name: 'propose_patch', args: { patch, rationale: 'What-if from chat' } }, inputs, env);
+  if (call.error) return { message: `Could not re-run the model: ${call.error}`, toolResults: [call] };
+  const proposal: PatchProposal = call.result;
+  const { before, after } = proposal;
+  const delta = after.rnpv - before.rnpv;
+  const message = [
+    `Re-ran the model with ${proposal.changes.map((c) => `${c.field} ${formatChange(c.field, c.from, currency)} → ${formatChange(c.field, c.to, currency)}`).join(', ')}:`,
+    `rNPV ${formatMoney(before.rnpv, currency)} → ${formatMoney(after.rnpv, currency)} (${delta >= 0 ? '+' : '−'}${formatMoney(Math.abs(delta), currency)}); PTRS ${pct(before.ptrs)} → ${pct(after.ptrs)}; ROI ${roiText(before.roi)} → ${roiText(after.roi)}.`,
+    'Apply the changes below to update the form.',
+  ].join('\n');
+  return { message, toolResults: [call], proposal };
+}
+
+async function lookupTrial({ inputs, env }: Ctx, nctId: string): Promise<ChatReply> {
+  const call = await runTool({ name: 'lookup_trial', args: { nctId } }, inputs, env);
+  if (call.error) return { message: `Trial lookup failed: ${call.error}`, toolResults: [call] };
+  const t = call.result;
+  const message = [
+    `${t.nctId}: ${t.title ?? 'untitled'}`,
+    `Phase ${t.phase ?? (t.registryPhases.join('/') || 'n/a')}; sponsor ${t.sponsor ?? 'n/a'}; status ${t.overallStatus ?? 'n/a'}.`,
+    `Start ${t.startDate ?? 'n/a'}, primary completion ${t.primaryCompletionDate ?? 'n/a'}, enrollment ${t.enrollment ?? 'n/a'}.`,
+    t.phase && t.phase !== inputs.phase ? `The model is set to ${inputs.phase}; the registry says ${t.phase}.` : '',
+  ].filter(Boolean).join('\n');
+  return { message, toolResults: [call] };
+}
+
+async function lookupLoe(ctx: Ctx, drugName: string): Promise<ChatReply> {
+  const { inputs, env } = ctx;
+  const call = await runTool({ name: 'lookup_loe', args: { drugName } }, inputs, env);
+  if (call.error) return { message: `LOE lookup failed: ${call.error}`, toolResults: [call] };
+  const { loeYear, tradeNames, patents } = call.result;
+  if (loeYear == null) return { message: `${drugName} has no listed patents or exclusivities.`, toolResults: [call] };
+  const reply: ChatReply = {
+    message: `${tradeNames.join(', ') || drugName}: LOE ${loeYear} from ${patents} listed patents (model uses ${inputs.loeYear}).`,
+    toolResults: [call],
+  };
+  if (loeYear === inputs.loeYear) return reply;
+  const proposed = await whatIf(ctx, { loeYear });
+  return {
+    message: `${reply.message}\n${proposed.message}`,
+    toolResults: [call, ...(proposed.toolResults ?? [])],
+    proposal: proposed.proposal,
+  };
+}
+
+export const ruleBasedProvider: ChatProvider = {
+  name: 'rules',
+  async reply(messages, context) {
+    if (!context.inputs || !context.outputs) return { message: 'No valuation is loaded yet; enter inputs first.' };
+    const ctx: Ctx = { inputs: context.inputs, outputs: context.outputs, env: context.env };
+    const q = ([...messages].reverse().find((m) => m.role === 'user')?.content ?? '').toLowerCase();
+    const nct = q.match(/\bnct\s*-?\s*\d{8}\b/);
+    if (nct) return lookupTrial(ctx, nct[0].replace(/[\s-]/g, '').toUpperCase());
+    const drug = q.match(/(?:loe|exclusivity|patents?) (?:for|of) ([a-z0-9][a-z0-9 -]*?)\s*(?:[.?!]|$)/);
+    if (drug && !/\b(this|the|our|it)\b/.test(drug[1])) return lookupLoe(ctx, drug[1]);
+    const patch = parseWhatIf(q, ctx.inputs, ctx.outputs.launchYear ?? ctx.inputs.launchYear);
+    if (patch) return whatIf(ctx, patch);
+    if (q.includes('ptrs') || /\bpos\b|probabilit/.test(q)) return { message: explainPtrs(ctx) };
+    if (q.includes('driver') || q.includes('move') || q.includes('sensitiv')) return topDrivers(ctx);
+    if (q.includes('loe') || q.includes('exclusiv') || q.includes('patent')) return { message: checkLoe(ctx) };
+    if (q.includes('scenario')) return { message: suggestScenarios(ctx) };
+    return { message: overview(ctx) };
+  },
+};
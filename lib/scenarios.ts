@@ -0,0 +1,40 @@
+/**
+ * Named scenarios
+ * Each scenario overlays the base Inputs; outputs are computed per scenario and
+ * combined into a probability-weighted expected rNPV.
+ */
+import type { Inputs, Scenario, ScenarioOutputs } from './types';
+import { computeOutputs, withPeakSales } from './valuation';
+
+export function applyScenario(base: Inputs, s: Scenario): Inputs {
+  const { peakSales, ...overrides } = s.overrides;
+  const merged = { ...base, ...overrides };
+  // An explicit launch year overrides the phase-derived one
+  if (s.overrides.launchYear != null) merged.deriveLaunchYear = false;
+  return peakSales == null ? merged : withPeakSales(merged, peakSales);
+}
+
+export function computeScenarios(base: Inputs, scenarios: Scenario[], currentYear = new Date().getFullYear()): ScenarioOutputs {
+  const results = scenarios.map((s) => ({
+    name: s.name,
+    weight: s.weight,
+    outputs: computeOutputs(applyScenario(base, s), currentYear),
+  }));
+  const totalWeight = results.reduce((sum, r) => sum + Math.max(0, r.weight), 0);
+  const expectedRnpv = totalWeight
+    ? results.reduce((sum, r) => sum + (Math.max(0, r.weight) / totalWeight) * r.outputs.rnpv, 0)
+    : 0;
+  return { results, expectedRnpv };
+}
+
+/** Starter low/base/high set: ±40% peak sales with launch slipping or pulling in. */
+export function defaultScenarios(base: Inputs, currentYear = new Date().getFullYear()): Scenario[] {
+  const outputs = computeOutputs(base, currentYear);
+  const launchYear = outputs.launchYear ?? base.launchYear;
+  const peakSales = outputs.epidemiology?.peakSales ?? base.peakSales;
+  return [
+    { name: 'Low', weight: 0.25, overrides: { peakSales: peakSales * 0.6, launchYear: launchYear + 2 } },
+    { name: 'Base', weight: 0.5, overrides: {} },
+    { name: 'High', weight: 0.25, overrides: { peakSales: peakSales * 1.4, launchYear: launchYear - 1 } },
+  ];
+}
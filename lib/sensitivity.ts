@@ -0,0 +1,92 @@
+/**
+ * One-way (tornado) and two-way sensitivity on rNPV.
+ * Each case is a full re-run of the rNPV engine with a single field changed.
+ */
+import type { Bounds, Inputs, NumericField, TornadoBar, TwoWayTable } from './types';
+import { computeOutputs, effectivePeakSales, withPeakSales } from './valuation';
+import { clampToSchema } from './validation';
+
+export const numericFields: NumericField[] = [
+  'peakSales', 'launchYear', 'loeYear', 'discountRate', 'taxRate', 'cogs', 'commercialSpend', 'workingCapital',
+  'potency', 'selectivity', 'halfLife', 'molecularWeight', 'logP', 'bioavailability', 'targetValidation', 'targetNovelty',
+  'royaltyMin', 'royaltyMax', 'royaltyRampYears',
+];
+
+const yearFields: NumericField[] = ['launchYear', 'loeYear', 'royaltyRampYears'];
+
+// ±20% of zero is no flex at all, so a zero base moves by one of these steps instead
+const zeroSteps: Partial<Record<NumericField, number>> = {
+  peakSales: 100, discountRate: 0.02, taxRate: 0.05, cogs: 0.05, commercialSpend: 0.05, workingCapital: 0.02,
+  bioavailability: 0.1, targetValidation: 0.1, targetNovelty: 0.1, royaltyMin: 1, royaltyMax: 1, inflation: 0.01,
+};
+
+/** Default flex: ±2 years for year-like fields, ±20% otherwise (a fixed step around zero). */
+export function defaultBounds(field: NumericField, value: number): Bounds {
+  if (yearFields.includes(field)) return { low: clampToSchema(field, value - 2), high: clampToSchema(field, value + 2) };
+  const step = value === 0 ? zeroSteps[field] ?? 1 : Math.abs(value) * 0.2;
+  return { low: clampToSchema(field, value - step), high: clampToSchema(field, value + step) };
+}
+
+/** Royalty min and max flex only up to each other, so every case satisfies min ≤ max. */
+function withinRoyaltyRange(base: Inputs, field: NumericField, { low, high }: Bounds): Bounds {
+  if (field === 'royaltyMin' && base.royaltyMax != null) return { low: Math.min(low, base.royaltyMax), high: Math.min(high, base.royaltyMax) };
+  if (field === 'royaltyMax' && base.royaltyMin != null) return { low: Math.max(low, base.royaltyMin), high: Math.max(high, base.royaltyMin) };
+  return { low, high };
+}
+
+/** The value a field is flexed around; peak sales comes from the patient funnel when there is one. */
+export function baseValue(base: Inputs, field: NumericField): number | undefined {
+  return field === 'peakSales' ? effectivePeakSales(base) : base[field];
+}
+
+function rnpvWith(base: Inputs, patch: Partial<Inputs>, currentYear: number): number {
+  // Flexing launchYear only makes sense once it is no longer derived from the phase timeline
+  const pinned = 'launchYear' in patch ? { deriveLaunchYear: false } : {};
+  const { peakSales, ...rest } = patch;
+  const merged = { ...base, ...rest, ...pinned };
+  return computeOutputs(peakSales == null ? merged : withPeakSales(merged, peakSales), currentYear).rnpv;
+}
+
+export function tornado(
+  base: Inputs,
+  bounds: Partial<Record<NumericField, Bounds>> = {},
+  fields: NumericField[] = numericFields,
+  currentYear = new Date().getFullYear(),
+): TornadoBar[] {
+  const bars: TornadoBar[] = [];
+  // A derived launch year is flexed around the year the phase timeline actually produces
+  const launchYear = computeOutputs(base, currentYear).launchYear ?? base.launchYear;
+  for (const field of fields) {
+    const value = field === 'launchYear' ? launchYear : baseValue(base, field);
+    if (typeof value !== 'number') continue;
+    const { low, high } = withinRoyaltyRange(base, field, bounds[field] ?? defaultBounds(field, value));
+    const rnpvLow = rnpvWith(base, { [field]: low }, currentYear);
+    const rnpvHigh = rnpvWith(base, { [field]: high }, currentYear);
+    bars.push({ field, low, high, rnpvLow, rnpvHigh, swing: Math.abs(rnpvHigh - rnpvLow) });
+  }
+  return bars.sort((a, b) => b.swing - a.swing);
+}
+
+export function twoWayTable(
+  base: Inputs,
+  xField: NumericField,
+  xValues: number[],
+  yField: NumericField,
+  yValues: number[],
+  currentYear = new Date().getFullYear(),
+): TwoWayTable {
+  return {
+    xField,
+    yField,
+    xValues,
+    yValues,
+    rnpv: yValues.map((y) => xValues.map((x) => rnpvWith(base, { [xField]: x, [yField]: y }, currentYear))),
+  };
+}
+
+/** Evenly spaced steps across a field's default bounds, for quick grids. */
+export function gridValues(field: NumericField, value: number, steps = 5): number[] {
+  const { low, high } = defaultBounds(field, value);
+  if (steps < 2) return [value];
+  return Array.from({ length: steps }, (_, k) => low + ((high - low) * k) / (steps - 1));
+}
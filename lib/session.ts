@@ -0,0 +1,33 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { User } from './types';
+import { AccessError } from './access';
+import { clearedSessionCookie, SESSION_COOKIE, sessionCookie, sessionSecret, signSession, verifySession } from './auth';
+import { getUserById } from './store';
+
+/** The signed-in user from the session cookie, or null. */
+export async function getSessionUser(req: NextApiRequest): Promise<User | null> {
+  const token = req.cookies?.[SESSION_COOKIE];
+  if (!token) return null;
+  const userId = verifySession(token, sessionSecret());
+  return userId ? getUserById(userId) : null;
+}
+
+export async function requireUser(req: NextApiRequest): Promise<User> {
+  const user = await getSessionUser(req);
+  if (!user) throw new AccessError('Sign in required', 401);
+  return user;
+}
+
+/** Client address for rate limits; behind a proxy (TRUST_PROXY set) the first X-Forwarded-For hop. */
+export function clientAddress(req: NextApiRequest, env = process.env): string {
+  const forwarded = env.TRUST_PROXY ? String(req.headers['x-forwarded-for'] ?? '').split(',')[0].trim() : '';
+  return forwarded || req.socket?.remoteAddress || 'unknown';
+}
+
+export function startSession(res: NextApiResponse, user: User) {
+  res.setHeader('Set-Cookie', sessionCookie(signSession(user.id, sessionSecret())));
+}
+
+export function endSession(res: NextApiResponse) {
+  res.setHeader('Set-Cookie', clearedSessionCookie());
+}
@@ -0,0 +1,72 @@
+/**
+ * Public share links: expiry, passwords and revocation (node:test).
+ */
+import test, { beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import type { Inputs } from './types';
+import { computeOutputs } from './valuation';
+import { createMemoryStore } from './memoryStore';
+import { createShareLink, createValuation, openShareLink, registerUser, revokeShareLink, setStore } from './store';
+import { createAttemptLimiter, expiryFromDays, MAX_EXPIRY_DAYS, sharedView } from './shareLinks';
+
+const inputs: Inputs = JSON.parse(readFileSync('fixtures/valuation/inputs.json', 'utf8'));
+const day = 24 * 3600 * 1000;
+let userId: string;
+let valuationId: string;
+
+beforeEach(async () => {
+  setStore(createMemoryStore());
+  const { user } = await registerUser('owner@example.com', 'correct horse');
+  userId = user.id;
+  valuationId = (await createValuation(userId, undefined, { inputs, outputs: computeOutputs(inputs, 2026) })).id;
+});
+
+test('an open link returns the valuation without owner ids and counts the view', async () => {
+  const link = (await createShareLink(userId, valuationId))!;
+  const opened = await openShareLink(link.slug);
+  assert.ok('valuation' in opened);
+  assert.equal(opened.link.views, 1);
+  assert.equal('ownerId' in sharedView(opened.valuation), false);
+  assert.equal('workspaceId' in sharedView(opened.valuation), false);
+});
+
+test('links expire after the chosen number of days', async () => {
+  const now = new Date('2026-01-01T00:00:00Z');
+  assert.equal(expiryFromDays(7, now), new Date(now.getTime() + 7 * day).toISOString());
+  assert.equal(expiryFromDays('', now), null);
+  assert.equal(expiryFromDays('30', now), new Date(now.getTime() + 30 * day).toISOString());
+  for (const bad of [0, 0.01, 1.5, -1, MAX_EXPIRY_DAYS + 1, 'soon']) assert.throws(() => expiryFromDays(bad, now), RangeError);
+  const link = (await createShareLink(userId, valuationId, { expiresAt: expiryFromDays(7, now) }))!;
+  assert.ok('valuation' in (await openShareLink(link.slug, undefined, new Date(now.getTime() + 6 * day))));
+  assert.deepEqual(await openShareLink(link.slug, undefined, new Date(now.getTime() + 7 * day)), { denied: 'expired' });
+});
+
+test('a password-protected link needs the right password', async () => {
+  const link = (await createShareLink(userId, valuationId, { password: 'open sesame' }))!;
+  assert.notEqual(link.passwordHash, 'open sesame');
+  assert.deepEqual(await openShareLink(link.slug), { denied: 'password_required' });
+  assert.deepEqual(await openShareLink(link.slug, 'open sesame!'), { denied: 'wrong_password' });
+  assert.ok('valuation' in (await openShareLink(link.slug, 'open sesame')));
+});
+
+test('short passwords are refused and revoked links stop working', async () => {
+  await assert.rejects(createShareLink(userId, valuationId, { password: 'short' }));
+  const link = (await createShareLink(userId, valuationId))!;
+  await revokeShareLink(userId, valuationId, link.slug);
+  assert.deepEqual(await openShareLink(link.slug), { denied: 'revoked' });
+  assert.deepEqual(await openShareLink('no-such-link'), { denied: 'not_found' });
+});
+
+test('the attempt limiter locks a key after repeated failures and forgets stale keys', () => {
+  const limiter = createAttemptLimiter(3, 1000);
+  for (let k = 0; k < 3; k++) limiter.fail('10.0.0.1 slug', 0);
+  assert.equal(limiter.retryAfter('10.0.0.1 slug', 500), 1);
+  assert.equal(limiter.retryAfter('10.0.0.2 slug', 500), 0);
+  assert.equal(limiter.retryAfter('10.0.0.1 slug', 1000), 0);
+
+  for (let k = 0; k < 50; k++) limiter.fail(`client-${k}`, 2000);
+  assert.equal(limiter.size, 50);
+  limiter.fail('late', 3500);
+  assert.equal(limiter.size, 1);
+});
@@ -0,0 +1,81 @@
+/**
+ * Share links
+ * Status and presentation rules for public links; lib/store.ts does the persistence.
+ */
+import type { ShareLink, ShareLinkStatus, ShareLinkSummary, Valuation } from './types';
+
+/** Why a link could not be opened; mapped to HTTP statuses by the share route. */
+export type ShareDenial = 'not_found' | 'expired' | 'revoked' | 'password_required' | 'wrong_password' | 'too_many_attempts';
+
+export function shareLinkStatus(link: ShareLink, now = new Date()): ShareLinkStatus {
+  if (link.revokedAt) return 'revoked';
+  if (link.expiresAt && new Date(link.expiresAt).getTime() <= now.getTime()) return 'expired';
+  return 'active';
+}
+
+export function summarizeShareLink({ passwordHash, ...link }: ShareLink, now = new Date()): ShareLinkSummary {
+  return { ...link, hasPassword: !!passwordHash, status: shareLinkStatus({ passwordHash, ...link }, now) };
+}
+
+// Shorter links would lapse before most recipients open them
+export const MIN_EXPIRY_DAYS = 1;
+export const MAX_EXPIRY_DAYS = 365;
+
+/** Whole days from MIN_EXPIRY_DAYS to MAX_EXPIRY_DAYS; null/blank (never expires) is valid too. */
+export function isValidExpiryDays(days: unknown): boolean {
+  if (days == null || days === '') return true;
+  const d = typeof days === 'string' ? Number(days) : days;
+  return typeof d === 'number' && Number.isInteger(d) && d >= MIN_EXPIRY_DAYS && d <= MAX_EXPIRY_DAYS;
+}
+
+/** Expiry from a number of days; null/blank means the link never expires. Throws on days isValidExpiryDays rejects. */
+export function expiryFromDays(days: unknown, now = new Date()): string | null {
+  if (!isValidExpiryDays(days)) throw new RangeError(`Expiry must be ${MIN_EXPIRY_DAYS} to ${MAX_EXPIRY_DAYS} whole days`);
+  if (days == null || days === '') return null;
+  return new Date(now.getTime() + Number(days) * 24 * 3600 * 1000).toISOString();
+}
+
+/**
+ * Counts failures per key (a link, a client, an account) over a sliding window so
+ * passwords can't be brute-forced. State is per process, which is enough to make
+ * guessing impractical; keys whose failures have all aged out are dropped.
+ */
+export function createAttemptLimiter(maxFailures = 10, windowMs = 15 * 60 * 1000) {
+  const failures = new Map<string, number[]>();
+  let lastSweep = 0;
+  const recent = (key: string, now: number) => {
+    const list = (failures.get(key) ?? []).filter((t) => now - t < windowMs);
+    if (list.length) failures.set(key, list);
+    else failures.delete(key);
+    return list;
+  };
+  // Keys that are never looked up again would otherwise stay in the map for the life of the process
+  const sweep = (now: number) => {
+    if (now - lastSweep < windowMs) return;
+    lastSweep = now;
+    for (const key of [...failures.keys()]) recent(key, now);
+  };
+  return {
+    /** Seconds until another attempt is allowed; 0 when the key isn't blocked. */
+    retryAfter(key: string, now = Date.now()): number {
+      const list = recent(key, now);
+      return list.length >= maxFailures ? Math.ceil((list[0] + windowMs - now) / 1000) : 0;
+    },
+    fail(key: string, now = Date.now()) {
+      sweep(now);
+      failures.set(key, [...recent(key, now), now]);
+    },
+    /** Keys currently tracked. */
+    get size() {
+      return failures.size;
+    },
+    reset(key: string) {
+      failures.delete(key);
+    },
+  };
+}
+
+/** The valuation as a link recipient sees it: no owner or workspace ids. */
+export function sharedView({ ownerId, workspaceId, ...rest }: Valuation) {
+  return rest;
+}
@@ -0,0 +1,60 @@
+/**
+ * Workspace access checks on saved data, against the in-memory backend (node:test).
+ */
+import test, { beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import type { Inputs } from './types';
+import { computeOutputs } from './valuation';
+import { createMemoryStore } from './memoryStore';
+import { EmailTakenError } from './auth';
+import {
+  createValuation, getValuation, listValuationRevisions, listValuations, registerUser, removeWorkspaceMember,
+  reviseValuation, setStore, setWorkspaceMember,
+} from './store';
+
+const inputs: Inputs = JSON.parse(readFileSync('fixtures/valuation/inputs.json', 'utf8'));
+const fields = () => ({ inputs, outputs: computeOutputs(inputs, 2026) });
+
+let owner: Awaited<ReturnType<typeof registerUser>>;
+let other: Awaited<ReturnType<typeof registerUser>>;
+
+beforeEach(async () => {
+  setStore(createMemoryStore());
+  owner = await registerUser('owner@example.com', 'correct horse');
+  other = await registerUser('other@example.com', 'battery staple');
+});
+
+test('a non-member cannot see or list another workspace\'s valuation', async () => {
+  const v = await createValuation(owner.user.id, undefined, fields());
+  assert.equal(v.workspaceId, owner.workspace.id);
+  await assert.rejects(getValuation(other.user.id, v.id), { status: 404 });
+  await assert.rejects(listValuations(other.user.id, owner.workspace.id), { status: 404 });
+  assert.equal((await getValuation(owner.user.id, v.id))?.id, v.id);
+});
+
+test('viewers can read but not revise; editors can revise', async () => {
+  const v = await createValuation(owner.user.id, undefined, fields());
+  await setWorkspaceMember(owner.user.id, owner.workspace.id, 'other@example.com', 'viewer');
+  assert.equal((await getValuation(other.user.id, v.id))?.id, v.id);
+  await assert.rejects(reviseValuation(other.user.id, v.id, fields()), { status: 403 });
+
+  await setWorkspaceMember(owner.user.id, owner.workspace.id, 'other@example.com', 'editor');
+  const revised = await reviseValuation(other.user.id, v.id, fields());
+  assert.equal(revised?.revision, 2);
+  assert.equal(revised?.ownerId, owner.user.id);
+  assert.deepEqual((await listValuationRevisions(owner.user.id, v.id)).map((r) => r.revision), [1, 2]);
+});
+
+test('only admins manage members, and the last admin cannot leave', async () => {
+  await setWorkspaceMember(owner.user.id, owner.workspace.id, 'other@example.com', 'editor');
+  await assert.rejects(setWorkspaceMember(other.user.id, owner.workspace.id, 'other@example.com', 'admin'), { status: 403 });
+  await assert.rejects(removeWorkspaceMember(owner.user.id, owner.workspace.id, owner.user.id), { status: 403 });
+});
+
+test('a taken email is a 409, including two registrations racing past the lookup', async () => {
+  await assert.rejects(registerUser(' Owner@Example.com ', 'another password'), { status: 409 });
+  const race = await Promise.allSettled([registerUser('new@example.com', 'password one'), registerUser('new@example.com', 'password two')]);
+  assert.deepEqual(race.map((r) => r.status).sort(), ['fulfilled', 'rejected']);
+  assert.ok((race.find((r) => r.status === 'rejected') as PromiseRejectedResult).reason instanceof EmailTakenError);
+});
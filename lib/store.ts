@@ -1,4 +1,46 @@
-import type { Valuation } from './types';
+import type { Portfolio, PublicUser, ShareLink, User, Valuation, Workspace, WorkspaceMember, WorkspaceRole } from './types';
+import { createMemoryStore } from './memoryStore';
+import { createPrismaStore, PrismaLike } from './prismaStore';
+import { AccessError, assertRole, hasRole, roleOf } from './access';
+import { EmailTakenError, hashPassword, MIN_PASSWORD_LENGTH, normalizeEmail, randomToken, verifyPassword } from './auth';
+import { ShareDenial, shareLinkStatus } from './shareLinks';
+import { RevisionConflictError } from './history';
+
+/**
+ * Backend-agnostic persistence. The backends do no access checks; the helpers below
+ * take the acting user's id and check workspace roles before every read or write.
+ */
+export interface ValuationStore {
+  insert(doc: Valuation): Promise<Valuation>;
+  /** Records `doc` as a new immutable revision and makes it the latest. */
+  appendRevision(doc: Valuation): Promise<Valuation>;
+  getById(id: string): Promise<Valuation | null>;
+  listByWorkspace(workspaceId: string): Promise<Valuation[]>;
+  listRevisions(id: string): Promise<Valuation[]>;
+  getRevision(id: string, revision: number): Promise<Valuation | null>;
+  insertPortfolio(p: Portfolio): Promise<Portfolio>;
+  updatePortfolio(p: Portfolio): Promise<Portfolio>;
+  getPortfolio(id: string): Promise<Portfolio | null>;
+  listPortfolios(workspaceIds: string[]): Promise<Portfolio[]>;
+  deletePortfolio(id: string): Promise<boolean>;
+  /** Assigns valuations and portfolios saved before workspaces existed (no workspace) to `workspaceId`. */
+  claimUnowned(workspaceId: string, ownerId: string): Promise<{ valuations: number; portfolios: number }>;
+  insertUser(user: User): Promise<User>;
+  getUserById(id: string): Promise<User | null>;
+  getUserByEmail(email: string): Promise<User | null>;
+  insertWorkspace(ws: Workspace): Promise<Workspace>;
+  getWorkspace(id: string): Promise<Workspace | null>;
+  listWorkspacesForUser(userId: string): Promise<Workspace[]>;
+  /** Adds the member or changes their role. */
+  setMember(workspaceId: string, member: WorkspaceMember): Promise<Workspace | null>;
+  removeMember(workspaceId: string, userId: string): Promise<Workspace | null>;
+  insertShareLink(link: ShareLink): Promise<ShareLink>;
+  getShareLink(slug: string): Promise<ShareLink | null>;
+  listShareLinks(valuationId: string): Promise<ShareLink[]>;
+  updateShareLink(link: ShareLink): Promise<ShareLink>;
+  /** Bumps the view counter; must not lose concurrent views. */
+  recordShareView(slug: string, at: string): Promise<void>;
+}
 
 function randomId(len = 10) {
   const chars = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
@@ -7,19 +49,268 @@ function randomId(len = 10) {
   return s;
 }
 
-const memById = new Map<string, Valuation>();
-const memBySlug = new Map<string, Valuation>();
+let active: ValuationStore | null = null;
+
+// Prisma when DATABASE_URL is set (see .env.example), otherwise the in-memory Maps.
+function defaultStore(): ValuationStore {
+  if (process.env.DATABASE_URL) {
+    const { PrismaClient } = require('@prisma/client');
+    return createPrismaStore(new PrismaClient() as PrismaLike);
+  }
+  return createMemoryStore();
+}
+
+export function getStore(): ValuationStore {
+  if (!active) active = defaultStore();
+  return active;
+}
+
+/** Swap the active backend, e.g. to a Prisma client pointed at a local test database. */
+export function setStore(store: ValuationStore | null) {
+  active = store;
+}
+
+export function toPublicUser({ passwordHash, ...user }: User): PublicUser {
+  return user;
+}
+
+// ---- Users and workspaces
+
+export async function registerUser(email: string, password: string, name?: string) {
+  const normalized = normalizeEmail(email);
+  if (!/^[^@\s]+@[^@\s]+$/.test(normalized)) throw new Error('A valid email is required');
+  if (password.length < MIN_PASSWORD_LENGTH) throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  if (await getStore().getUserByEmail(normalized)) throw new EmailTakenError();
+  const now = new Date().toISOString();
+  const user = await getStore().insertUser({
+    id: randomId(12), email: normalized, ...(name ? { name } : {}), passwordHash: hashPassword(password), createdAt: now,
+  });
+  // Everyone starts with a personal workspace they administer
+  const workspace = await getStore().insertWorkspace({
+    id: randomId(12), name: `${name || normalized}'s workspace`, createdAt: now, members: [{ userId: user.id, role: 'admin' }],
+  });
+  return { user, workspace };
+}
+
+export async function getUserById(id: string) {
+  return getStore().getUserById(id);
+}
+export async function getUserByEmail(email: string) {
+  return getStore().getUserByEmail(normalizeEmail(email));
+}
+
+export async function listWorkspaces(userId: string) {
+  return getStore().listWorkspacesForUser(userId);
+}
+
+export async function createWorkspace(userId: string, name: string): Promise<Workspace> {
+  return getStore().insertWorkspace({
+    id: randomId(12), name, createdAt: new Date().toISOString(), members: [{ userId, role: 'admin' }],
+  });
+}
+
+export async function getWorkspace(userId: string, id: string, min: WorkspaceRole = 'viewer') {
+  return assertRole(await getStore().getWorkspace(id), userId, min, 'Workspace not found');
+}
+
+/** Explicit workspace, or the first one where the user has at least `min`. */
+async function resolveWorkspace(userId: string, workspaceId: string | undefined, min: WorkspaceRole) {
+  if (workspaceId) return getWorkspace(userId, workspaceId, min);
+  const ws = (await listWorkspaces(userId)).find((w) => hasRole(w, userId, min));
+  if (!ws) throw new AccessError(`No workspace with ${min} access`, 403);
+  return ws;
+}
+
+export async function setWorkspaceMember(userId: string, workspaceId: string, email: string, role: WorkspaceRole) {
+  const ws = await getWorkspace(userId, workspaceId, 'admin');
+  const member = await getUserByEmail(email);
+  if (!member) throw new AccessError('No user with that email', 404);
+  if (roleOf(ws, member.id) === 'admin' && role !== 'admin') assertNotLastAdmin(ws, member.id);
+  return getStore().setMember(workspaceId, { userId: member.id, role });
+}
+
+export async function removeWorkspaceMember(userId: string, workspaceId: string, memberId: string) {
+  const ws = await getWorkspace(userId, workspaceId, 'admin');
+  if (!roleOf(ws, memberId)) throw new AccessError('Not a member', 404);
+  assertNotLastAdmin(ws, memberId);
+  return getStore().removeMember(workspaceId, memberId);
+}
+
+/** Site admins listed in ADMIN_EMAILS (comma-separated). */
+export function isSiteAdmin(user: User, env = process.env): boolean {
+  const admins = (env.ADMIN_EMAILS ?? '').split(',').map(normalizeEmail).filter(Boolean);
+  return admins.includes(user.email);
+}
+
+/** Moves rows saved before workspaces existed into a workspace the site admin administers. */
+export async function claimLegacyData(user: User, workspaceId: string) {
+  if (!isSiteAdmin(user)) throw new AccessError('Only site admins can claim legacy data', 403);
+  await getWorkspace(user.id, workspaceId, 'admin');
+  return getStore().claimUnowned(workspaceId, user.id);
+}
+
+function assertNotLastAdmin(ws: Workspace, memberId: string) {
+  const admins = ws.members.filter((m) => m.role === 'admin');
+  if (admins.length === 1 && admins[0].userId === memberId) {
+    throw new AccessError('A workspace needs at least one admin', 403);
+  }
+}
 
-export async function createValuation(v: Omit<Valuation, 'id' | 'shareSlug' | 'createdAt'>): Promise<Valuation> {
-  const doc: Valuation = { id: randomId(12), shareSlug: randomId(8), createdAt: new Date().toISOString(), ...v };
-  memById.set(doc.id, doc);
-  memBySlug.set(doc.shareSlug, doc);
+// ---- Valuations
+
+type ValuationFields = Omit<Valuation, 'id' | 'createdAt' | 'revision' | 'ownerId' | 'workspaceId'>;
+
+/** Loads `doc`'s workspace and checks the role; a doc the user can't see reads as not found. */
+async function authorize<T extends { workspaceId: string }>(userId: string, doc: T | null, min: WorkspaceRole): Promise<T | null> {
+  if (!doc) return null;
+  assertRole(await getStore().getWorkspace(doc.workspaceId), userId, min);
   return doc;
 }
 
-export async function getValuationByIdOrSlug(k: string) {
-  return memById.get(k) || memBySlug.get(k) || null;
+export async function createValuation(userId: string, workspaceId: string | undefined, v: ValuationFields): Promise<Valuation> {
+  const ws = await resolveWorkspace(userId, workspaceId, 'editor');
+  const doc: Valuation = {
+    ...v, id: randomId(12), ownerId: userId, workspaceId: ws.id, createdAt: new Date().toISOString(), revision: 1,
+  };
+  return getStore().insert(doc);
+}
+
+const REVISION_ATTEMPTS = 3;
+
+/** Appends the next revision; if a concurrent save took that number, re-reads the latest and tries again. */
+export async function reviseValuation(userId: string, id: string, v: ValuationFields): Promise<Valuation | null> {
+  for (let attempt = 1; ; attempt++) {
+    const latest = await authorize(userId, await getStore().getById(id), 'editor');
+    if (!latest) return null;
+    const doc: Valuation = {
+      ...v,
+      id,
+      ownerId: latest.ownerId,
+      workspaceId: latest.workspaceId,
+      createdAt: new Date().toISOString(),
+      revision: latest.revision + 1,
+    };
+    try {
+      return await getStore().appendRevision(doc);
+    } catch (e) {
+      if (!(e instanceof RevisionConflictError) || attempt >= REVISION_ATTEMPTS) throw e;
+    }
+  }
+}
+
+export async function getValuation(userId: string, id: string) {
+  return authorize(userId, await getStore().getById(id), 'viewer');
+}
+
+export async function listValuations(userId: string, workspaceId: string) {
+  await getWorkspace(userId, workspaceId);
+  return getStore().listByWorkspace(workspaceId);
+}
+
+// Valuations saved before revisions were recorded have no history rows; the stored row stands in as their only revision
+export async function listValuationRevisions(userId: string, id: string) {
+  const latest = await getValuation(userId, id);
+  if (!latest) return [];
+  const revisions = await getStore().listRevisions(id);
+  return revisions.length ? revisions : [latest];
+}
+export async function getValuationRevision(userId: string, id: string, revision: number) {
+  const latest = await getValuation(userId, id);
+  if (!latest) return null;
+  return (await getStore().getRevision(id, revision)) ?? (revision === latest.revision ? latest : null);
+}
+
+// ---- Share links
+
+/** Editors create links; the slug comes from the CSPRNG and the password is stored hashed. */
+export async function createShareLink(
+  userId: string, valuationId: string, opts: { expiresAt?: string | null; password?: string } = {},
+): Promise<ShareLink | null> {
+  if (opts.password && opts.password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  if (!(await authorize(userId, await getStore().getById(valuationId), 'editor'))) return null;
+  return getStore().insertShareLink({
+    slug: randomToken(),
+    valuationId,
+    createdBy: userId,
+    createdAt: new Date().toISOString(),
+    expiresAt: opts.expiresAt ?? null,
+    passwordHash: opts.password ? hashPassword(opts.password) : null,
+    revokedAt: null,
+    views: 0,
+    lastViewedAt: null,
+  });
+}
+
+export async function listShareLinks(userId: string, valuationId: string): Promise<ShareLink[] | null> {
+  if (!(await getValuation(userId, valuationId))) return null;
+  return getStore().listShareLinks(valuationId);
+}
+
+export async function revokeShareLink(userId: string, valuationId: string, slug: string): Promise<ShareLink | null> {
+  if (!(await authorize(userId, await getStore().getById(valuationId), 'editor'))) return null;
+  const link = await getStore().getShareLink(slug);
+  if (!link || link.valuationId !== valuationId) return null;
+  if (link.revokedAt) return link;
+  return getStore().updateShareLink({ ...link, revokedAt: new Date().toISOString() });
+}
+
+/**
+ * Public, unauthenticated read through a share link. Counts a view only when
+ * the valuation is actually returned.
+ */
+export async function openShareLink(
+  slug: string, password?: string, now = new Date(),
+): Promise<{ valuation: Valuation; link: ShareLink } | { denied: ShareDenial }> {
+  const link = await getStore().getShareLink(slug);
+  if (!link) return { denied: 'not_found' };
+  const status = shareLinkStatus(link, now);
+  if (status !== 'active') return { denied: status };
+  if (link.passwordHash) {
+    if (!password) return { denied: 'password_required' };
+    if (!verifyPassword(password, link.passwordHash)) return { denied: 'wrong_password' };
+  }
+  const valuation = await getStore().getById(link.valuationId);
+  if (!valuation) return { denied: 'not_found' };
+  await getStore().recordShareView(slug, now.toISOString());
+  return { valuation, link: { ...link, views: link.views + 1, lastViewedAt: now.toISOString() } };
+}
+
+// ---- Portfolios
+
+type PortfolioFields = Pick<Portfolio, 'name' | 'valuationIds' | 'correlation'>;
+
+export async function createPortfolio(userId: string, workspaceId: string | undefined, p: PortfolioFields): Promise<Portfolio> {
+  const ws = await resolveWorkspace(userId, workspaceId, 'editor');
+  const now = new Date().toISOString();
+  return getStore().insertPortfolio({ id: randomId(12), ownerId: userId, workspaceId: ws.id, createdAt: now, updatedAt: now, ...p });
+}
+
+export async function updatePortfolio(userId: string, id: string, patch: Partial<PortfolioFields>): Promise<Portfolio | null> {
+  const current = await authorize(userId, await getStore().getPortfolio(id), 'editor');
+  if (!current) return null;
+  return getStore().updatePortfolio({ ...current, ...patch, id, updatedAt: new Date().toISOString() });
+}
+
+export async function getPortfolio(userId: string, id: string) {
+  return authorize(userId, await getStore().getPortfolio(id), 'viewer');
+}
+
+/** Portfolio members resolved within the portfolio's own workspace; anything else is reported missing. */
+export async function getPortfolioValuations(userId: string, portfolio: Portfolio) {
+  await authorize(userId, portfolio, 'viewer');
+  return Promise.all(portfolio.valuationIds.map(async (v) => {
+    const doc = await getStore().getById(v);
+    return doc?.workspaceId === portfolio.workspaceId ? doc : null;
+  }));
+}
+
+export async function listPortfolios(userId: string) {
+  const ids = (await listWorkspaces(userId)).map((w) => w.id);
+  return getStore().listPortfolios(ids);
 }
-export async function getValuationBySlug(s: string) {
-  return memBySlug.get(s) || null;
+export async function deletePortfolio(userId: string, id: string) {
+  if (!(await authorize(userId, await getStore().getPortfolio(id), 'editor'))) return false;
+  return getStore().deletePortfolio(id);
 }
@@ -0,0 +1,27 @@
+import fs from 'fs';
+import path from 'path';
+import type { TrialFetcher } from './trials';
+
+const API = 'https://clinicaltrials.gov/api/v2/studies';
+
+export const httpTrialFetcher: TrialFetcher = async (nctId) => {
+  const res = await fetch(`${API}/${encodeURIComponent(nctId)}`);
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`ClinicalTrials.gov returned ${res.status}`);
+  return res.json();
+};
+
+/** Reads `<dir>/<NCT ID>.json` saved from the v2 API. */
+export function fixtureTrialFetcher(dir: string): TrialFetcher {
+  return async (nctId) => {
+    const file = path.join(dir, `${nctId}.json`);
+    if (!fs.existsSync(file)) return null;
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  };
+}
+
+/** Server-only: fixtures when CT_FIXTURES_DIR is set, otherwise the live API. */
+export function defaultTrialFetcher(): TrialFetcher {
+  const dir = process.env.CT_FIXTURES_DIR;
+  return dir ? fixtureTrialFetcher(dir) : httpTrialFetcher;
+}
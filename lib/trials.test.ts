@@ -0,0 +1,74 @@
+/**
+ * ClinicalTrials.gov adapter against the saved v2 fixtures (node:test; run from the repo root).
+ */
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { fractionalYear, getTrial, normalizeNctId, normalizePhase, parseStudy } from './trials';
+import { fixtureTrialFetcher } from './trialFetchers';
+
+const fetcher = fixtureTrialFetcher(path.resolve('fixtures/clinicaltrials'));
+
+test('getTrial parses a saved v2 study', async () => {
+  const trial = await getTrial('NCT00000000', fetcher);
+  assert.deepEqual(trial, {
+    nctId: 'NCT00000000',
+    title: 'Example Phase 2 Study of EXA-101 in Advanced Solid Tumors',
+    phase: 'Phase II',
+    registryPhases: ['PHASE2'],
+    sponsor: 'Example Sponsor',
+    startDate: '2024-03-01',
+    primaryCompletionDate: '2027-06',
+    enrollment: 120,
+    conditions: ['Solid Tumor'],
+    interventions: [{ type: 'DRUG', name: 'EXA-101' }],
+    overallStatus: 'RECRUITING',
+  });
+});
+
+test('getTrial returns null for a study with no fixture', async () => {
+  assert.equal(await getTrial('NCT99999999', fetcher), null);
+});
+
+test('normalizePhase maps v2 enums and free text onto app phases', () => {
+  assert.equal(normalizePhase('PHASE1'), 'Phase I');
+  assert.equal(normalizePhase('PHASE2'), 'Phase II');
+  assert.equal(normalizePhase('PHASE1 PHASE2'), 'Phase II');
+  assert.equal(normalizePhase('PHASE2 PHASE3'), 'Phase III');
+  assert.equal(normalizePhase('Phase 3'), 'Phase III');
+  assert.equal(normalizePhase('PHASE4'), 'Approved');
+  assert.equal(normalizePhase('EARLY_PHASE1'), 'Phase I');
+  assert.equal(normalizePhase('NA'), undefined);
+  assert.equal(normalizePhase(undefined), undefined);
+});
+
+test('normalizeNctId accepts only NCT followed by eight digits', () => {
+  assert.equal(normalizeNctId(' nct00000000 '), 'NCT00000000');
+  assert.equal(normalizeNctId('NCT123'), null);
+});
+
+test('parseStudy reads only well-typed fields and needs an NCT ID', () => {
+  const trial = parseStudy({
+    protocolSection: {
+      identificationModule: { nctId: 'NCT00000001' },
+      designModule: { phases: ['PHASE3', 7], enrollmentInfo: { count: '120' } },
+      conditionsModule: { conditions: 'Asthma' },
+      armsInterventionsModule: { interventions: [{ name: 'EXA-202' }, { type: 'DRUG' }, null] },
+    },
+  });
+  assert.deepEqual(trial, {
+    nctId: 'NCT00000001', phase: 'Phase III', registryPhases: ['PHASE3'], sponsor: null, startDate: null, primaryCompletionDate: null,
+    enrollment: null, conditions: [], interventions: [{ name: 'EXA-202' }], overallStatus: null,
+  });
+  assert.throws(() => parseStudy({ protocolSection: {} }), /no NCT ID/);
+  assert.throws(() => parseStudy('not a study'), /no NCT ID/);
+});
+
+test('fractionalYear reads v2 partial dates', () => {
+  assert.equal(fractionalYear('2027'), 2027);
+  assert.equal(fractionalYear('2027-07'), 2027.5);
+  assert.equal(fractionalYear('2027-07-15'), 2027.5);
+  assert.equal(fractionalYear('July 2027'), null);
+  assert.equal(fractionalYear('2027-13'), null);
+  assert.equal(fractionalYear(null), null);
+});
@@ -0,0 +1,81 @@
+/**
+ * ClinicalTrials.gov v2 adapter
+ * Parses the v2 study JSON into a TrialSummary. Fetching is pluggable so routes can
+ * hit the live API while tests and offline setups read saved fixtures.
+ */
+import type { TrialSummary } from './types';
+
+/** Returns the raw v2 study JSON (unchecked; parseStudy narrows it), or null when the study does not exist. */
+export type TrialFetcher = (nctId: string) => Promise<unknown>;
+
+const NCT_ID = /^NCT\d{8}$/;
+
+export function normalizeNctId(id: string): string | null {
+  const t = id.trim().toUpperCase();
+  return NCT_ID.test(t) ? t : null;
+}
+
+/** Maps free-text or v2 enum phases (e.g. "Phase 2", "PHASE2") onto the app's phase names. */
+export function normalizePhase(p?: string): string | undefined {
+  if (!p) return;
+  const t = p.toLowerCase().replace(/_/g, ' ').replace(/phase(\d)/g, 'phase $1');
+  if (t.includes('2/3') || (t.includes('phase 2') && t.includes('phase 3'))) return 'Phase III';
+  if (t.includes('1/2') || (t.includes('phase 1') && t.includes('phase 2'))) return 'Phase II';
+  if (t.includes('phase 4') || t.includes('phase iv') || t.includes('approved')) return 'Approved';
+  if (t.includes('phase 3') || t.includes('phase iii')) return 'Phase III';
+  if (t.includes('phase 2') || t.includes('phase ii')) return 'Phase II';
+  if (t.includes('phase 1') || t.includes('phase i')) return 'Phase I';
+  if (t.includes('nda') || t.includes('bla')) return 'NDA';
+  if (t.includes('pre') || t.includes('nonclinical')) return 'Preclinical';
+  return;
+}
+
+// The v2 record is external JSON: every module and field is optional and read through these
+type Json = Record<string, unknown>;
+const obj = (v: unknown): Json => (v && typeof v === 'object' && !Array.isArray(v) ? (v as Json) : {});
+const str = (v: unknown): string | null => (typeof v === 'string' && v ? v : null);
+const strings = (v: unknown): string[] => (Array.isArray(v) ? v.filter((x): x is string => typeof x === 'string') : []);
+const list = (v: unknown): Json[] => (Array.isArray(v) ? v.map(obj) : []);
+
+export function parseStudy(raw: unknown): TrialSummary {
+  const p = obj(obj(raw).protocolSection);
+  const id = obj(p.identificationModule);
+  const status = obj(p.statusModule);
+  const design = obj(p.designModule);
+  const nctId = str(id.nctId);
+  if (!nctId) throw new Error('ClinicalTrials.gov study has no NCT ID');
+  const registryPhases = strings(design.phases);
+  const enrollment = obj(design.enrollmentInfo).count;
+  const title = str(id.briefTitle);
+  return {
+    nctId,
+    ...(title ? { title } : {}),
+    phase: normalizePhase(registryPhases.join(' ')) ?? null,
+    registryPhases,
+    sponsor: str(obj(obj(p.sponsorCollaboratorsModule).leadSponsor).name),
+    startDate: str(obj(status.startDateStruct).date),
+    primaryCompletionDate: str(obj(status.primaryCompletionDateStruct).date),
+    enrollment: typeof enrollment === 'number' && isFinite(enrollment) ? enrollment : null,
+    conditions: strings(obj(p.conditionsModule).conditions),
+    interventions: list(obj(p.armsInterventionsModule).interventions).flatMap((x) => {
+      const name = str(x.name);
+      const type = str(x.type);
+      return name ? [{ ...(type ? { type } : {}), name }] : [];
+    }),
+    overallStatus: str(status.overallStatus),
+  };
+}
+
+/** A v2 partial date ("2027", "2027-06" or "2027-06-15") as a fractional year; null when absent or malformed. */
+export function fractionalYear(date: string | null | undefined): number | null {
+  const m = date?.match(/^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?$/);
+  if (!m) return null;
+  const month = m[2] ? Number(m[2]) : 1;
+  if (month < 1 || month > 12) return null;
+  return Number(m[1]) + (month - 1) / 12;
+}
+
+export async function getTrial(nctId: string, fetcher: TrialFetcher): Promise<TrialSummary | null> {
+  const raw = await fetcher(nctId);
+  return raw ? parseStudy(raw) : null;
+}
@@ -21,6 +21,247 @@ export type Inputs = {
   royaltyMax?: number;
   royaltyRampYears?: number;
   role?: 'OWNER' | 'LICENSOR';
+  modality?: string;
+  /** Biological target / mechanism; portfolio assets sharing either have correlated success */
+  target?: string;
+  mechanism?: string;
+  /** When true, launchYear is replaced by today + remaining phase durations */
+  deriveLaunchYear?: boolean;
+  /** Uptake curve; defaults to the 4-year linear ramp */
+  salesCurve?: SalesCurve;
+  /** Fraction of sales lost in years 1..n after LOE; sales stop after the last entry */
+  erosion?: number[];
+  /** Licensing deal; when set, licensor value uses these instead of the royalty ramp */
+  dealTerms?: DealTerms;
+  /** Overrides the benchmark phase durations/costs/transition odds */
+  phaseAssumptions?: PhaseAssumption[];
+  /** ISO code all money inputs/outputs are in (millions); defaults to USD */
+  currency?: string;
+  /** Annual escalation of prices and costs from today; negative for price erosion */
+  inflation?: number;
+  /**
+   * 'nominal' (default): cashflows are escalated by inflation and discountRate is nominal.
+   * 'real': cashflows stay in today's money and discountRate is a real rate.
+   */
+  discountBasis?: 'nominal' | 'real';
+  /** Year-by-year discount rates from today (WACC term structure); the last rate carries on. Overrides discountRate. */
+  discountCurve?: number[];
+  /** Launch markets; when set, sales are the sum across markets and peakSales is the global peak */
+  markets?: Market[];
+  /** Bottom-up forecast; when set, peakSales and salesCurve are derived from it and the typed-in values are ignored */
+  epidemiology?: Epidemiology;
+};
+
+/** Patient funnel behind a bottom-up peak sales forecast. Rates are fractions of the previous step. */
+export type Epidemiology = {
+  /** 'prevalence': patients living with the disease; 'incidence': new cases per year */
+  basis: 'prevalence' | 'incidence';
+  patients: number;
+  diagnosisRate: number;
+  treatedRate: number;
+  /** Share of treated patients who reach the line of therapy the asset targets */
+  lineOfTherapyShare: number;
+  peakShare: number;
+  /** List price per patient-year, in whole units of the valuation currency (not millions) */
+  annualPrice: number;
+  /** Fraction of prescribed doses actually taken (and paid for) */
+  compliance: number;
+  /** Months on therapy: per year for prevalence (at most 12), per course for incidence */
+  durationMonths: number;
+  /** Years from launch to peak share; defaults to 5 */
+  yearsToPeakShare?: number;
+};
+
+export type FunnelStep = { label: string; value: number; unit: 'patients' | 'money' };
+
+export type EpidemiologyForecast = {
+  funnel: FunnelStep[];
+  /** Patient-years on therapy at peak */
+  peakPatientYears: number;
+  peakSales: number;
+  salesCurve: SalesCurve;
+};
+
+/**
+ * One launch market. Its peak is peakSales × peakShare × pricingFactor and it launches
+ * launchLag years after the (global) launch year.
+ */
+export type Market = {
+  name: string;
+  /** Fraction of global peak volume (0–1) */
+  peakShare: number;
+  launchLag: number;
+  /** Price relative to the reference price behind peakSales (US = 1) */
+  pricingFactor: number;
+  /** Defaults to the asset's loeYear */
+  loeYear?: number;
+  /** Defaults to the asset's erosion */
+  erosion?: number[];
+};
+
+/** Marginal royalty tier: `rate`% applies to annual sales up to `upTo` ($M); null = no cap. */
+export type RoyaltyTier = {
+  upTo: number | null;
+  rate: number;
+};
+
+export type Milestone = {
+  name: string;
+  amount: number;
+  /** development: paid on entering `phase`; sales: paid the first year annual sales reach `salesThreshold` */
+  kind: 'development' | 'sales';
+  phase?: string;
+  salesThreshold?: number;
+};
+
+export type DealTerms = {
+  upfront: number;
+  tiers: RoyaltyTier[];
+  milestones: Milestone[];
+  /** Multiplier on royalty rates after patent expiry (LOE), e.g. 0.5 for a 50% step-down */
+  loeStepDown?: number;
+};
+
+export type MilestoneValue = Milestone & {
+  year: number;
+  probability: number;
+  pv: number;
+};
+
+export type DealValue = {
+  upfrontPV: number;
+  /** Unrisked PV of royalty income */
+  royaltyPV: number;
+  /** Probability-weighted PV of all milestones */
+  milestonesPV: number;
+  milestones: MilestoneValue[];
+};
+
+/** Each curve maps years since launch to a fraction of peak sales. */
+export type SalesCurve =
+  | { kind: 'linear'; rampYears: number }
+  | { kind: 'logistic'; yearsToPeak: number; steepness?: number }
+  | { kind: 'bass'; p: number; q: number }
+  | { kind: 'custom'; shares: number[] };
+
+export type PhaseAssumption = {
+  phase: string;
+  durationYears: number;
+  cost: number;
+  transitionProbability: number;
+};
+
+export type BenchmarkEntry = {
+  indication: string;
+  modality: string;
+  phases: PhaseAssumption[];
+};
+
+export type BenchmarkSet = {
+  version: string;
+  source?: string;
+  /** Currency of the phase costs; USD when omitted */
+  currency?: string;
+  entries: BenchmarkEntry[];
+};
+
+/** Units of each currency per one unit of `base`. */
+export type FxTable = {
+  version: string;
+  base: string;
+  asOf?: string;
+  source?: string;
+  rates: Record<string, number>;
+};
+
+export type MechanisticField =
+  'potency' | 'selectivity' | 'halfLife' | 'molecularWeight' | 'logP' | 'bioavailability' | 'targetValidation' | 'targetNovelty';
+
+/** A band matches when every bound it sets holds; an empty band is the catch-all. */
+export type MechanismBand = {
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+  delta: number;
+  note?: string;
+};
+
+/** One input, scored by the first matching band; `weight` scales the band's delta (default 1). */
+export type MechanismRule = {
+  id: string;
+  field: MechanisticField;
+  label?: string;
+  weight?: number;
+  bands: MechanismBand[];
+};
+
+export type MechanismModel = {
+  modality: string;
+  rules: MechanismRule[];
+};
+
+/** Versioned scoring config; models use '*' as the modality wildcard. */
+export type MechanismConfig = {
+  version: string;
+  source?: string;
+  base: number;
+  min: number;
+  max: number;
+  models: MechanismModel[];
+};
+
+export type MechanismContribution = {
+  ruleId: string;
+  field: MechanisticField;
+  label: string;
+  value: number;
+  /** Weighted delta added to the bonus; 0 when no band matched */
+  delta: number;
+  note?: string;
+};
+
+export type MechanismScore = {
+  version: string;
+  /** Modality of the model that was applied ('*' for the default) */
+  modality: string;
+  base: number;
+  /** Before the min/max clamp */
+  raw: number;
+  bonus: number;
+  contributions: MechanismContribution[];
+};
+
+export type PhaseStep = PhaseAssumption & {
+  startOffsetYears: number;
+  probabilityOfReaching: number;
+  costPV: number;
+};
+
+/** One phase gate in the eNPV tree; values are PVs today, conditional on reaching the gate. */
+export type DecisionGate = {
+  phase: string;
+  year: number;
+  probabilityOfReaching: number;
+  transitionProbability: number;
+  /** After-tax phase cost, discounted */
+  costPV: number;
+  /** Value of paying for the phase, keeping the later options */
+  continueValue: number;
+  /** Stopping here beats continuing */
+  abandon: boolean;
+  /** What the option to stop at this gate adds (0 when continuing is worth more) */
+  optionValue: number;
+};
+
+export type DecisionTree = {
+  /** Expected NPV when the sponsor can stop at any gate */
+  enpv: number;
+  /** Value when every remaining phase is committed up front; equals rNPV */
+  committedNpv: number;
+  /** enpv − committedNpv: the expected value of the abandonment options */
+  optionValue: number;
+  gates: DecisionGate[];
 };
 
 export type Outputs = {
@@ -30,15 +271,56 @@ export type Outputs = {
   ownerPV?: number;
   licensorPV?: number;
   rnpv: number;
-  roi: number;
+  /** rNPV as a % of risked dev cost; null for a licensor under a deal, who funds no development */
+  roi: number | null;
+  /** Risk-adjusted IRR of the expected cashflows; null when they never change sign */
+  irr?: number | null;
+  /** Year from which cumulative risked PV stays non-negative; null if it never pays back */
+  paybackYear?: number | null;
+  /** Largest cumulative after-tax cash outlay ($M, undiscounted) on the success path */
+  peakFunding?: number;
+  peakFundingYear?: number;
+  decisionTree?: DecisionTree;
   baselinePos?: number;
   mechanisticPos?: number;
+  launchYear?: number;
+  phaseBreakdown?: PhaseStep[];
+  benchmarkVersion?: string;
+  /** Currency of every money output (the valuation's currency) */
+  currency?: string;
+  mechanism?: MechanismScore;
+  /** Patient funnel and the peak sales/uptake derived from it, when the inputs carry one */
+  epidemiology?: EpidemiologyForecast;
+  deal?: DealValue;
+  /** Year-by-year cashflows for the selected role */
+  schedule?: CashflowRow[];
+};
+
+export type CashflowRow = {
+  year: number;
+  /** Owner: product sales. Licensor: royalty income. */
+  revenue: number;
+  cogs: number;
+  commercialSpend: number;
+  workingCapitalChange: number;
+  tax: number;
+  netCashflow: number;
+  discountFactor: number;
+  pv: number;
+  cumulativePv: number;
+  /** Licensor only */
+  productSales?: number;
+  royaltyRate?: number;
+  /** Product sales by market name, when the valuation has markets */
+  marketSales?: Record<string, number>;
 };
 
 export type Valuation = {
   id: string;
-  shareSlug: string;
+  ownerId: string;
+  workspaceId: string;
   createdAt: string;
+  revision: number;
   inputs: Inputs;
   outputs: Outputs;
   nctId?: string;
@@ -47,4 +329,237 @@ export type Valuation = {
   royaltyMax?: number;
   trialSponsor?: string | null;
   trialStartDate?: string | null;
+  scenarios?: Scenario[];
+  scenarioOutputs?: ScenarioOutputs;
+};
+
+/** A named overlay on the base Inputs with a probability weight. */
+export type Scenario = {
+  name: string;
+  weight: number;
+  overrides: Partial<Inputs>;
+};
+
+export type ScenarioResult = {
+  name: string;
+  weight: number;
+  outputs: Outputs;
+};
+
+export type ScenarioOutputs = {
+  results: ScenarioResult[];
+  /** Probability-weighted rNPV across scenarios (weights normalised to sum to 1) */
+  expectedRnpv: number;
 };
+
+export type FieldChange = {
+  field: keyof Inputs;
+  from: unknown;
+  to: unknown;
+};
+
+export type MetricChange = {
+  from: number;
+  to: number;
+  delta: number;
+};
+
+export type RevisionDiff = {
+  id: string;
+  fromRevision: number;
+  toRevision: number;
+  inputs: FieldChange[];
+  rnpv: MetricChange;
+  ptrs: MetricChange;
+};
+
+export type Distribution =
+  | { kind: 'triangular'; min: number; mode: number; max: number }
+  | { kind: 'normal'; mean: number; sd: number }
+  | { kind: 'uniform'; min: number; max: number }
+  | { kind: 'lognormal'; mu: number; sigma: number };
+
+export type SimulatedField = 'peakSales' | 'launchYear' | 'loeYear' | 'discountRate' | 'cogs' | 'royaltyMin' | 'royaltyMax';
+
+export type SimulationSpec = {
+  iterations?: number;
+  seed?: number;
+  bins?: number;
+  distributions: Partial<Record<SimulatedField, Distribution>>;
+};
+
+export type HistogramBin = {
+  from: number;
+  to: number;
+  count: number;
+};
+
+export type SimulationResult = {
+  iterations: number;
+  seed: number;
+  mean: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  probNegative: number;
+  successRate: number;
+  histogram: HistogramBin[];
+};
+
+export type NumericField = {
+  [K in keyof Inputs]-?: Inputs[K] extends number | undefined ? K : never;
+}[keyof Inputs];
+
+export type Bounds = { low: number; high: number };
+
+export type TornadoBar = {
+  field: NumericField;
+  low: number;
+  high: number;
+  rnpvLow: number;
+  rnpvHigh: number;
+  swing: number;
+};
+
+export type TwoWayTable = {
+  xField: NumericField;
+  yField: NumericField;
+  xValues: number[];
+  yValues: number[];
+  /** rnpv[row][col] for yValues[row] × xValues[col] */
+  rnpv: number[][];
+};
+
+/** Body of POST /api/sensitivity once validated; omitted grid axes fall back to each field's default bounds. */
+export type SensitivityRequest = {
+  bounds: Partial<Record<NumericField, Bounds>>;
+  fields: NumericField[];
+  twoWay?: { xField: NumericField; yField: NumericField; xValues?: number[]; yValues?: number[] };
+};
+
+export type DealSplit = {
+  /** rNPV of the asset to a single owner-operator */
+  assetRnpv: number;
+  licensorRnpv: number;
+  licenseeRnpv: number;
+  licensorShare: number;
+  licenseeShare: number;
+  licenseeIrr: number | null;
+};
+
+export type DealTarget =
+  | { kind: 'licensorShare'; value: number }
+  | { kind: 'licenseeIrr'; value: number };
+
+/** royalty: scales every tier rate by one factor; upfront: solves for the upfront payment */
+export type DealLever = 'royalty' | 'upfront';
+
+export type DealSolution = {
+  lever: DealLever;
+  target: DealTarget;
+  converged: boolean;
+  terms: DealTerms;
+  split: DealSplit;
+};
+
+export type TrialSummary = {
+  nctId: string;
+  title?: string;
+  /** Mapped onto the app's phase names; null when the registry phase has no equivalent */
+  phase: string | null;
+  registryPhases: string[];
+  sponsor: string | null;
+  startDate: string | null;
+  primaryCompletionDate: string | null;
+  enrollment: number | null;
+  conditions: string[];
+  interventions: { type?: string; name: string }[];
+  overallStatus: string | null;
+};
+
+export type Portfolio = {
+  id: string;
+  name: string;
+  ownerId: string;
+  workspaceId: string;
+  createdAt: string;
+  updatedAt: string;
+  valuationIds: string[];
+  /** Success correlation (0..1) between assets sharing a target or mechanism */
+  correlation: number;
+};
+
+export type PortfolioAsset = {
+  id: string;
+  label: string;
+  rnpv: number;
+  ptrs: number;
+  launchYear: number;
+};
+
+export type PortfolioYear = {
+  year: number;
+  /** Risk-weighted net commercial cashflow; for a licensor under a deal, also the upfront and milestones */
+  cashflow: number;
+  /** Risk-weighted development spend (pre-tax); none for a licensor under a deal, whose licensee funds it */
+  devSpend: number;
+};
+
+export type PortfolioAnalysis = {
+  /** Reporting currency of every money figure below */
+  currency: string;
+  totalRnpv: number;
+  assets: PortfolioAsset[];
+  missing: string[];
+  years: PortfolioYear[];
+  /** launchDistribution[k] = P(exactly k launches) */
+  launchDistribution: number[];
+  expectedLaunches: number;
+  /** Asset ids grouped by shared target/mechanism */
+  correlatedGroups: string[][];
+};
+
+export type User = {
+  id: string;
+  /** Stored lower-cased; unique */
+  email: string;
+  name?: string;
+  /** scrypt hash, see lib/auth.ts */
+  passwordHash: string;
+  createdAt: string;
+};
+
+/** What the API returns for a user: never the password hash */
+export type PublicUser = Omit<User, 'passwordHash'>;
+
+/** viewer: read; editor: also create and revise; admin: also manage members */
+export type WorkspaceRole = 'viewer' | 'editor' | 'admin';
+
+export type WorkspaceMember = { userId: string; role: WorkspaceRole };
+
+export type Workspace = {
+  id: string;
+  name: string;
+  createdAt: string;
+  members: WorkspaceMember[];
+};
+
+/** Public read-only link to the latest revision of a valuation; see lib/shareLinks.ts */
+export type ShareLink = {
+  slug: string;
+  valuationId: string;
+  createdBy: string;
+  createdAt: string;
+  /** null = never expires */
+  expiresAt: string | null;
+  /** scrypt hash (lib/auth.ts); null = no password */
+  passwordHash: string | null;
+  revokedAt: string | null;
+  views: number;
+  lastViewedAt: string | null;
+};
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+/** What workspace members see: never the password hash */
+export type ShareLinkSummary = Omit<ShareLink, 'passwordHash'> & { hasPassword: boolean; status: ShareLinkStatus };
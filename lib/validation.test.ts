@@ -0,0 +1,114 @@
+/**
+ * Runtime schema: what the API routes turn into 400s (node:test; run from the repo root).
+ */
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { MAX_CHAT_MESSAGE_LENGTH, MAX_CHAT_MESSAGES, MAX_GRID_STEPS, MAX_PORTFOLIO_ASSETS, validateChat, validateInputs, validatePortfolio, validatePortfolioQuery, validateRequest, validateSensitivity, validateSimulation } from './validation';
+import { MAX_ITERATIONS } from './montecarlo';
+
+const base = JSON.parse(readFileSync('fixtures/valuation/inputs.json', 'utf8'));
+const fields = (r: { ok: boolean; errors?: { field: string }[] }) => (r.ok ? [] : r.errors!.map((e) => e.field));
+
+test('valid inputs pass and come back as a copy of known fields', () => {
+  const r = validateInputs(base);
+  assert.ok(r.ok);
+  assert.deepEqual(r.value, base);
+  assert.notEqual(r.value, base);
+});
+
+test('numbers are not coerced from strings and unknown fields are rejected', () => {
+  const r = validateInputs({ ...base, discountRate: '0.1', colour: 'blue' });
+  assert.deepEqual(fields(r).sort(), ['colour', 'discountRate']);
+});
+
+test('missing inputs, out-of-range rates and LOE before launch are reported per field', () => {
+  assert.deepEqual(fields(validateInputs(undefined)), ['inputs']);
+  assert.deepEqual(fields(validateInputs({ ...base, taxRate: 1.5 })), ['taxRate']);
+  assert.deepEqual(fields(validateInputs({ ...base, loeYear: base.launchYear })), ['loeYear']);
+});
+
+test('nested deal terms are checked field by field', () => {
+  const r = validateInputs({ ...base, dealTerms: { upfront: -1, tiers: [{ upTo: null, rate: 5 }, { upTo: 100, rate: 8 }], milestones: [] } });
+  assert.deepEqual(fields(r).sort(), ['dealTerms.tiers[0].upTo', 'dealTerms.upfront']);
+});
+
+test('nested objects come back as copies without unknown keys', () => {
+  const dealTerms = { upfront: 10, tiers: [{ upTo: null, rate: 5, note: 'x' }], milestones: [{ name: 'P3', amount: 5, kind: 'development', phase: 'Phase III', salesThreshold: 1 }] };
+  const markets = [{ name: 'US', peakShare: 0.6, launchLag: 0, pricingFactor: 1, erosion: [0.5], extra: true }];
+  const r = validateInputs({ ...base, dealTerms, markets, salesCurve: { kind: 'bass', p: 0.03, q: 0.4, shares: [1] } });
+  assert.ok(r.ok);
+  assert.deepEqual(r.value.dealTerms, { upfront: 10, tiers: [{ upTo: null, rate: 5 }], milestones: [{ name: 'P3', amount: 5, kind: 'development', phase: 'Phase III' }] });
+  assert.deepEqual(r.value.markets, [{ name: 'US', peakShare: 0.6, launchLag: 0, pricingFactor: 1, erosion: [0.5] }]);
+  assert.deepEqual(r.value.salesCurve, { kind: 'bass', p: 0.03, q: 0.4 });
+  assert.notEqual(r.value.markets![0].erosion, markets[0].erosion);
+  assert.deepEqual(fields(validateInputs({ ...base, markets: [null] })).sort(), ['markets[0].launchLag', 'markets[0].name', 'markets[0].peakShare', 'markets[0].pricingFactor']);
+});
+
+test('validated scenarios hold only the fields they override', () => {
+  const r = validateRequest({ inputs: base, scenarios: [{ name: 'Low', weight: 0.5, overrides: { cogs: 0.3 }, colour: 'red' }] });
+  assert.ok(r.ok);
+  assert.deepEqual(r.value.scenarios, [{ name: 'Low', weight: 0.5, overrides: { cogs: 0.3 } }]);
+  assert.deepEqual(fields(validateRequest('inputs')), ['inputs']);
+});
+
+test('scenario errors are prefixed with the scenario they came from', () => {
+  const r = validateRequest({ inputs: base, scenarios: [{ name: 'Bad', weight: 0.5, overrides: { cogs: 2 } }] });
+  assert.deepEqual(fields(r), ['scenarios[0].cogs']);
+});
+
+test('simulation specs are bounded and distributions well formed', () => {
+  assert.ok(validateSimulation(undefined).ok);
+  assert.deepEqual(fields(validateSimulation({ iterations: MAX_ITERATIONS + 1 })), ['simulation.iterations']);
+  assert.deepEqual(fields(validateSimulation({ distributions: { peakSales: { kind: 'normal', mean: 500, sd: -1 } } })), ['simulation.distributions.peakSales.sd']);
+  assert.deepEqual(fields(validateSimulation({ distributions: { taxRate: { kind: 'uniform', min: 0, max: 1 } } })), ['simulation.distributions.taxRate']);
+  assert.deepEqual(fields(validateSimulation({ distributions: { cogs: { kind: 'triangular', min: 0.1, mode: 0.5, max: 0.3 } } })), ['simulation.distributions.cogs.mode']);
+});
+
+test('sensitivity requests flex known numeric inputs, clamp bounds and cap grid size', () => {
+  const ok = validateSensitivity({ fields: ['taxRate', 'launchYear'], bounds: { taxRate: { low: -0.5, high: 1.5 } }, twoWay: { xField: 'cogs', yField: 'peakSales', xValues: [0.1, 2] } });
+  assert.ok(ok.ok);
+  assert.deepEqual(ok.value.fields, ['taxRate', 'launchYear']);
+  assert.deepEqual(ok.value.bounds.taxRate, { low: 0, high: 1 });
+  assert.deepEqual(ok.value.twoWay, { xField: 'cogs', yField: 'peakSales', xValues: [0.1, 1] });
+
+  assert.deepEqual(fields(validateSensitivity({ fields: ['indication', 'taxRate'] })), ['fields[0]']);
+  assert.deepEqual(fields(validateSensitivity({ bounds: { taxRate: { low: '0', high: 1 } } })), ['bounds.taxRate.low']);
+  assert.deepEqual(fields(validateSensitivity({ twoWay: { xField: 'cogs', yField: 'phase' } })), ['twoWay.yField']);
+  const tooMany = Array.from({ length: MAX_GRID_STEPS + 1 }, (_, k) => k / 100);
+  assert.deepEqual(fields(validateSensitivity({ twoWay: { xField: 'cogs', yField: 'taxRate', yValues: tooMany } })), ['twoWay.yValues']);
+  assert.deepEqual(fields(validateSensitivity({ twoWay: { xField: 'cogs', yField: 'taxRate', xValues: [0.1, Infinity] } })), ['twoWay.xValues[1]']);
+});
+
+test('portfolio bodies need a name on create and a bounded list of valuation ids', () => {
+  const ok = validatePortfolio({ name: 'Pipeline', valuationIds: ['a', 'b', 'a'], correlation: 0.3 });
+  assert.ok(ok.ok);
+  assert.deepEqual(ok.value, { name: 'Pipeline', valuationIds: ['a', 'b'], correlation: 0.3 });
+  assert.deepEqual(fields(validatePortfolio({ valuationIds: [] })), ['name']);
+  assert.ok(validatePortfolio({ correlation: 0.5 }, true).ok);
+  assert.deepEqual(fields(validatePortfolio({ name: '' }, true)), ['name']);
+  assert.deepEqual(fields(validatePortfolio({ name: 'P', valuationIds: ['a', 7, { id: 'b' }] })), ['valuationIds[1]', 'valuationIds[2]']);
+  assert.deepEqual(fields(validatePortfolio({ name: 'P', valuationIds: Array.from({ length: MAX_PORTFOLIO_ASSETS + 1 }, (_, k) => `v${k}`) })), ['valuationIds']);
+  assert.deepEqual(fields(validatePortfolio({ name: 'P', correlation: '0.3' })), ['correlation']);
+});
+
+test('portfolio queries need one id and a known currency', () => {
+  assert.deepEqual(validatePortfolioQuery({ id: 'pf-1' }), { ok: true, value: { id: 'pf-1' } });
+  assert.deepEqual(validatePortfolioQuery({ id: 'pf-1', currency: 'EUR' }), { ok: true, value: { id: 'pf-1', currency: 'EUR' } });
+  assert.deepEqual(fields(validatePortfolioQuery({ id: ['a', 'b'], currency: 'XYZ' })), ['id', 'currency']);
+  assert.deepEqual(fields(validatePortfolioQuery({})), ['id']);
+});
+
+test('chat requests carry a bounded history and valid inputs when a valuation is loaded', () => {
+  const ok = validateChat({ messages: [{ role: 'user', content: 'Why?', extra: 1 }], context: { payload: { inputs: base, outputs: { rnpv: 1e9 } } } });
+  assert.ok(ok.ok);
+  assert.deepEqual(ok.value, { messages: [{ role: 'user', content: 'Why?' }], inputs: base });
+  assert.ok(validateChat({ messages: [{ role: 'user', content: 'Hi' }] }).ok);
+
+  assert.deepEqual(fields(validateChat({ messages: [] })), ['messages']);
+  assert.deepEqual(fields(validateChat({ messages: Array(MAX_CHAT_MESSAGES + 1).fill({ role: 'user', content: 'x' }) })), ['messages']);
+  assert.deepEqual(fields(validateChat({ messages: [{ role: 'system', content: 'x' }, { role: 'user', content: 'x'.repeat(MAX_CHAT_MESSAGE_LENGTH + 1) }] })),
+    ['messages[0].role', 'messages[1].content']);
+  assert.deepEqual(fields(validateChat({ messages: [{ role: 'user', content: 'x' }], context: { payload: { inputs: { ...base, cogs: 3 } } } })),
+    ['context.payload.inputs.cogs']);
+});
@@ -0,0 +1,540 @@
+/**
+ * Runtime schema for Inputs/Outputs
+ * One declarative field table (units, ranges, allowed values) plus cross-field rules,
+ * shared by the API routes (structured 400s) and the form (inline errors).
+ */
+import type {
+  Bounds, DealTerms, Distribution, Epidemiology, Inputs, Market, Milestone, NumericField, Outputs, PhaseAssumption, Portfolio, RoyaltyTier,
+  SalesCurve, Scenario, SensitivityRequest, SimulatedField, SimulationSpec,
+} from './types';
+import { phases } from './phaseModel';
+import { applyScenario } from './scenarios';
+import { currencies } from './fx';
+import { MAX_BINS, MAX_ITERATIONS } from './montecarlo';
+import { numericFields } from './sensitivity';
+import type { ChatMessage } from './chat';
+
+export type FieldError = { field: string; message: string };
+export type Validated<T> = { ok: true; value: T } | { ok: false; errors: FieldError[] };
+
+type NumberRule = { kind: 'number'; label: string; unit?: string; min?: number; max?: number; integer?: boolean };
+type ChoiceRule = { kind: 'choice'; label: string; values: readonly string[] };
+type TextRule = { kind: 'text'; label: string; maxLength?: number };
+type BooleanRule = { kind: 'boolean'; label: string };
+export type FieldRule = (NumberRule | ChoiceRule | TextRule | BooleanRule) & { optional?: boolean };
+
+type ScalarInputField = Exclude<keyof Inputs, 'salesCurve' | 'erosion' | 'dealTerms' | 'phaseAssumptions' | 'discountCurve' | 'markets' | 'epidemiology'>;
+
+const rate = (label: string, optional = false): FieldRule => ({ kind: 'number', label, unit: 'fraction', min: 0, max: 1, optional });
+const year = (label: string): FieldRule => ({ kind: 'number', label, unit: 'year', min: 1950, max: 2200 });
+
+export const inputSchema: Record<ScalarInputField, FieldRule> = {
+  peakSales: { kind: 'number', label: 'Peak annual sales', unit: '$M', min: 0 },
+  launchYear: year('Launch year'),
+  loeYear: year('LOE year'),
+  discountRate: rate('Discount rate'),
+  taxRate: rate('Tax rate'),
+  cogs: rate('COGS'),
+  commercialSpend: rate('Commercial spend'),
+  workingCapital: rate('Working capital'),
+  potency: { kind: 'number', label: 'Potency (IC50)', unit: 'nM', min: 0 },
+  selectivity: { kind: 'number', label: 'Selectivity', unit: 'fold', min: 0 },
+  halfLife: { kind: 'number', label: 'Half-life', unit: 'hr', min: 0 },
+  molecularWeight: { kind: 'number', label: 'Molecular weight', unit: 'Da', min: 0 },
+  logP: { kind: 'number', label: 'LogP', min: -10, max: 15 },
+  bioavailability: rate('Bioavailability'),
+  targetValidation: rate('Target validation'),
+  targetNovelty: rate('Target novelty'),
+  phase: { kind: 'choice', label: 'Phase', values: phases },
+  indication: { kind: 'text', label: 'Indication', maxLength: 100 },
+  royaltyMin: { kind: 'number', label: 'Royalty min', unit: '%', min: 0, max: 100, optional: true },
+  royaltyMax: { kind: 'number', label: 'Royalty max', unit: '%', min: 0, max: 100, optional: true },
+  royaltyRampYears: { kind: 'number', label: 'Royalty ramp', unit: 'years', min: 0, max: 50, optional: true },
+  role: { kind: 'choice', label: 'Role', values: ['OWNER', 'LICENSOR'], optional: true },
+  modality: { kind: 'text', label: 'Modality', maxLength: 100, optional: true },
+  target: { kind: 'text', label: 'Target', maxLength: 200, optional: true },
+  mechanism: { kind: 'text', label: 'Mechanism', maxLength: 200, optional: true },
+  deriveLaunchYear: { kind: 'boolean', label: 'Derive launch year', optional: true },
+  currency: { kind: 'text', label: 'Currency', maxLength: 3, optional: true },
+  inflation: { kind: 'number', label: 'Inflation', unit: 'fraction', min: -0.5, max: 0.5, optional: true },
+  discountBasis: { kind: 'choice', label: 'Discount basis', values: ['nominal', 'real'], optional: true },
+};
+
+/** Keeps a value inside the field's schema range (rates stay in 0–1, counts non-negative, years 1950–2200). */
+export function clampToSchema(field: NumericField, v: number): number {
+  const rule = inputSchema[field];
+  if (rule.kind !== 'number') return v;
+  return Math.min(rule.max ?? Infinity, Math.max(rule.min ?? -Infinity, v));
+}
+
+const nestedFields = ['salesCurve', 'erosion', 'dealTerms', 'phaseAssumptions', 'discountCurve', 'markets', 'epidemiology'];
+
+/** Appends an error for `value` at `field` if it breaks `rule`; returns whether it passed. */
+function check(errors: FieldError[], field: string, value: unknown, rule: FieldRule): boolean {
+  const fail = (message: string) => { errors.push({ field, message: `${rule.label} ${message}` }); return false; };
+  if (value === undefined || value === null || value === '') return rule.optional ? true : fail('is required');
+  switch (rule.kind) {
+    case 'number': {
+      if (typeof value !== 'number' || !isFinite(value)) return fail('must be a number');
+      const unit = rule.unit === '%' ? '%' : rule.unit && rule.unit !== 'fraction' && rule.unit !== 'year' ? ` ${rule.unit}` : '';
+      if (rule.integer && !Number.isInteger(value)) return fail('must be a whole number');
+      if (rule.min != null && value < rule.min) return fail(`must be at least ${rule.min}${unit}`);
+      if (rule.max != null && value > rule.max) return fail(`must be at most ${rule.max}${unit}`);
+      return true;
+    }
+    case 'choice':
+      return rule.values.includes(value as string) ? true : fail(`must be one of ${rule.values.join(', ')}`);
+    case 'text':
+      if (typeof value !== 'string') return fail('must be text');
+      if (rule.maxLength && value.length > rule.maxLength) return fail(`must be at most ${rule.maxLength} characters`);
+      return true;
+    case 'boolean':
+      return typeof value === 'boolean' ? true : fail('must be true or false');
+  }
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+
+/** Copies only `fields` (those that are set), so unknown nested keys never reach the stored inputs. */
+function pick<T>(source: Record<string, unknown>, fields: readonly string[]): T {
+  const copy: Record<string, unknown> = {};
+  for (const f of fields) if (source[f] !== undefined) copy[f] = source[f];
+  return copy as T;
+}
+
+function checkRates(errors: FieldError[], field: string, list: unknown, listMessage: string, label: (k: number) => string): number[] | undefined {
+  if (!Array.isArray(list)) { errors.push({ field, message: listMessage }); return undefined; }
+  list.forEach((v: unknown, k: number) => check(errors, `${field}[${k}]`, v, rate(label(k))));
+  return [...list];
+}
+
+function checkSalesCurve(errors: FieldError[], c: unknown): SalesCurve | undefined {
+  if (!isObject(c)) { errors.push({ field: 'salesCurve', message: 'Sales curve must be an object' }); return undefined; }
+  const n = (field: string, rule: Omit<NumberRule, 'kind'>, optional = false) =>
+    check(errors, `salesCurve.${field}`, c[field], { kind: 'number', ...rule, optional });
+  switch (c.kind) {
+    case 'linear':
+      n('rampYears', { label: 'Ramp years', min: 0, max: 30 });
+      return pick(c, ['kind', 'rampYears']);
+    case 'logistic':
+      n('yearsToPeak', { label: 'Years to peak', min: 0.5, max: 30 });
+      n('steepness', { label: 'Steepness', min: 0.01, max: 20 }, true);
+      return pick(c, ['kind', 'yearsToPeak', 'steepness']);
+    case 'bass':
+      n('p', { label: 'Innovation (p)', min: 0.0001, max: 1 });
+      n('q', { label: 'Imitation (q)', min: 0, max: 5 });
+      return pick(c, ['kind', 'p', 'q']);
+    case 'custom':
+      if (!Array.isArray(c.shares) || !c.shares.length) {
+        errors.push({ field: 'salesCurve.shares', message: 'Custom curve needs at least one share of peak' });
+        return undefined;
+      }
+      c.shares.forEach((v: unknown, k: number) => n(`shares[${k}]`, { label: `Share of peak (year ${k + 1})`, min: 0, max: 1 }));
+      return { kind: 'custom', shares: [...c.shares] };
+    default:
+      errors.push({ field: 'salesCurve.kind', message: 'Sales curve must be linear, logistic, bass or custom' });
+      return undefined;
+  }
+}
+
+function checkDealTerms(errors: FieldError[], d: unknown): DealTerms | undefined {
+  if (!isObject(d)) { errors.push({ field: 'dealTerms', message: 'Deal terms must be an object' }); return undefined; }
+  check(errors, 'dealTerms.upfront', d.upfront, { kind: 'number', label: 'Upfront', unit: '$M', min: 0 });
+  check(errors, 'dealTerms.loeStepDown', d.loeStepDown, { ...rate('Post-LOE royalty multiplier'), optional: true });
+  const tiers: RoyaltyTier[] = [];
+  if (!Array.isArray(d.tiers)) errors.push({ field: 'dealTerms.tiers', message: 'Royalty tiers must be a list' });
+  else {
+    const list: unknown[] = d.tiers;
+    let prev = 0;
+    list.forEach((entry: unknown, k: number) => {
+      const t = isObject(entry) ? entry : {};
+      const f = `dealTerms.tiers[${k}]`;
+      check(errors, `${f}.rate`, t.rate, { kind: 'number', label: `Tier ${k + 1} rate`, unit: '%', min: 0, max: 100 });
+      if (t.upTo === null) {
+        if (k !== list.length - 1) errors.push({ field: `${f}.upTo`, message: `Only the last tier can be uncapped` });
+      } else if (check(errors, `${f}.upTo`, t.upTo, { kind: 'number', label: `Tier ${k + 1} cap`, unit: '$M', min: 0 })) {
+        const upTo = t.upTo as number;
+        if (upTo <= prev) errors.push({ field: `${f}.upTo`, message: `Tier ${k + 1} cap must be above the previous tier's` });
+        prev = upTo;
+      }
+      tiers.push(pick(t, ['upTo', 'rate']));
+    });
+  }
+  const milestones: Milestone[] = [];
+  if (!Array.isArray(d.milestones)) errors.push({ field: 'dealTerms.milestones', message: 'Milestones must be a list' });
+  else {
+    d.milestones.forEach((entry: unknown, k: number) => {
+      const m = isObject(entry) ? entry : {};
+      const f = `dealTerms.milestones[${k}]`;
+      check(errors, `${f}.name`, m.name, { kind: 'text', label: `Milestone ${k + 1} name`, maxLength: 100 });
+      check(errors, `${f}.amount`, m.amount, { kind: 'number', label: `Milestone ${k + 1} amount`, unit: '$M', min: 0 });
+      if (!check(errors, `${f}.kind`, m.kind, { kind: 'choice', label: `Milestone ${k + 1} type`, values: ['development', 'sales'] })) return;
+      if (m.kind === 'development') {
+        check(errors, `${f}.phase`, m.phase, { kind: 'choice', label: `Milestone ${k + 1} phase`, values: phases });
+        milestones.push(pick(m, ['name', 'amount', 'kind', 'phase']));
+      } else {
+        check(errors, `${f}.salesThreshold`, m.salesThreshold, { kind: 'number', label: `Milestone ${k + 1} sales threshold`, unit: '$M', min: 0 });
+        milestones.push(pick(m, ['name', 'amount', 'kind', 'salesThreshold']));
+      }
+    });
+  }
+  return { ...pick<DealTerms>(d, ['upfront', 'loeStepDown']), tiers, milestones };
+}
+
+function checkPhaseAssumptions(errors: FieldError[], list: unknown): PhaseAssumption[] | undefined {
+  if (!Array.isArray(list) || !list.length) {
+    errors.push({ field: 'phaseAssumptions', message: 'Phase assumptions must be a non-empty list' });
+    return undefined;
+  }
+  return list.map((entry: unknown, k: number) => {
+    const a = isObject(entry) ? entry : {};
+    const f = `phaseAssumptions[${k}]`;
+    const label = typeof a.phase === 'string' ? a.phase : 'Phase';
+    check(errors, `${f}.phase`, a.phase, { kind: 'choice', label: `Row ${k + 1} phase`, values: phases });
+    check(errors, `${f}.durationYears`, a.durationYears, { kind: 'number', label: `${label} duration`, unit: 'years', min: 0, max: 20 });
+    check(errors, `${f}.cost`, a.cost, { kind: 'number', label: `${label} cost`, unit: '$M', min: 0 });
+    check(errors, `${f}.transitionProbability`, a.transitionProbability, rate(`${label} transition probability`));
+    return pick(a, ['phase', 'durationYears', 'cost', 'transitionProbability']);
+  });
+}
+
+function checkMarkets(errors: FieldError[], list: unknown): Market[] | undefined {
+  if (!Array.isArray(list)) { errors.push({ field: 'markets', message: 'Markets must be a list' }); return undefined; }
+  const names = new Set<string>();
+  return list.map((entry: unknown, k: number) => {
+    const m = isObject(entry) ? entry : {};
+    const f = `markets[${k}]`;
+    const label = typeof m.name === 'string' && m.name ? m.name : `Market ${k + 1}`;
+    if (check(errors, `${f}.name`, m.name, { kind: 'text', label: `Market ${k + 1} name`, maxLength: 50 })) {
+      if (names.has(label)) errors.push({ field: `${f}.name`, message: `Market ${label} is listed twice` });
+      names.add(label);
+    }
+    check(errors, `${f}.peakShare`, m.peakShare, rate(`${label} peak share`));
+    check(errors, `${f}.launchLag`, m.launchLag, { kind: 'number', label: `${label} launch lag`, unit: 'years', min: 0, max: 20 });
+    check(errors, `${f}.pricingFactor`, m.pricingFactor, { kind: 'number', label: `${label} pricing factor`, min: 0, max: 10 });
+    check(errors, `${f}.loeYear`, m.loeYear, { ...year(`${label} LOE year`), optional: true });
+    const market = pick<Market>(m, ['name', 'peakShare', 'launchLag', 'pricingFactor', 'loeYear']);
+    if (m.erosion != null) {
+      market.erosion = checkRates(errors, `${f}.erosion`, m.erosion, `${label} erosion must be a list of fractions`, (y) => `${label} erosion year ${y + 1}`);
+    }
+    return market;
+  });
+}
+
+function checkEpidemiology(errors: FieldError[], e: unknown): Epidemiology | undefined {
+  if (!isObject(e)) { errors.push({ field: 'epidemiology', message: 'Epidemiology must be an object' }); return undefined; }
+  const f = (name: string) => `epidemiology.${name}`;
+  check(errors, f('basis'), e.basis, { kind: 'choice', label: 'Epidemiology basis', values: ['prevalence', 'incidence'] });
+  check(errors, f('patients'), e.patients, { kind: 'number', label: 'Patients', unit: 'patients', min: 0 });
+  check(errors, f('diagnosisRate'), e.diagnosisRate, rate('Diagnosis rate'));
+  check(errors, f('treatedRate'), e.treatedRate, rate('Treated rate'));
+  check(errors, f('lineOfTherapyShare'), e.lineOfTherapyShare, rate('Line of therapy share'));
+  check(errors, f('peakShare'), e.peakShare, rate('Peak market share'));
+  check(errors, f('annualPrice'), e.annualPrice, { kind: 'number', label: 'Annual price', min: 0 });
+  check(errors, f('compliance'), e.compliance, rate('Compliance'));
+  // Prevalent patients can't be on therapy more than a year per year; an incident course can run longer
+  check(errors, f('durationMonths'), e.durationMonths, {
+    kind: 'number', label: 'Duration of therapy', unit: 'months', min: 0.1, max: e.basis === 'incidence' ? 240 : 12,
+  });
+  check(errors, f('yearsToPeakShare'), e.yearsToPeakShare, { kind: 'number', label: 'Years to peak share', min: 0.5, max: 30, optional: true });
+  return pick(e, [
+    'basis', 'patients', 'diagnosisRate', 'treatedRate', 'lineOfTherapyShare', 'peakShare', 'annualPrice', 'compliance',
+    'durationMonths', 'yearsToPeakShare',
+  ]);
+}
+
+/**
+ * Checks every field and the cross-field rules; on success returns a copy holding only
+ * known fields, nested objects included. Nothing is coerced: strings like "0.1" are errors, not numbers.
+ */
+export function validateInputs(raw: unknown): Validated<Inputs> {
+  if (raw == null) return { ok: false, errors: [{ field: 'inputs', message: 'inputs required' }] };
+  if (!isObject(raw)) return { ok: false, errors: [{ field: 'inputs', message: 'inputs must be an object' }] };
+  const errors: FieldError[] = [];
+  const value: Partial<Inputs> = {};
+  const scalars = value as Record<string, unknown>;
+
+  for (const key of Object.keys(raw)) {
+    if (!(key in inputSchema) && !nestedFields.includes(key)) errors.push({ field: key, message: `Unknown field ${key}` });
+  }
+  for (const [field, rule] of Object.entries(inputSchema) as [ScalarInputField, FieldRule][]) {
+    if (check(errors, field, raw[field], rule) && raw[field] != null) scalars[field] = raw[field];
+  }
+
+  if (raw.salesCurve != null) value.salesCurve = checkSalesCurve(errors, raw.salesCurve);
+  if (raw.erosion != null) value.erosion = checkRates(errors, 'erosion', raw.erosion, 'Erosion must be a list of fractions', (k) => `Erosion year ${k + 1}`);
+  if (raw.discountCurve != null) {
+    value.discountCurve = checkRates(errors, 'discountCurve', raw.discountCurve, 'Discount curve must be a list of rates', (k) => `Discount rate year ${k + 1}`);
+  }
+  if (raw.dealTerms != null) value.dealTerms = checkDealTerms(errors, raw.dealTerms);
+  if (raw.phaseAssumptions != null) value.phaseAssumptions = checkPhaseAssumptions(errors, raw.phaseAssumptions);
+  if (raw.markets != null) value.markets = checkMarkets(errors, raw.markets);
+  if (raw.epidemiology != null) value.epidemiology = checkEpidemiology(errors, raw.epidemiology);
+
+  // Cross-field rules, only once the fields involved are individually valid (so `value` holds them)
+  const has = (f: string) => !errors.some((e) => e.field === f);
+  const { launchYear, loeYear } = value;
+  // A derived launch year is recomputed from the phase plan, so the stored one may be stale
+  if (!value.deriveLaunchYear && launchYear != null && loeYear != null && loeYear <= launchYear) {
+    errors.push({ field: 'loeYear', message: 'LOE year must be after the launch year' });
+  }
+  if (value.markets) {
+    const shares = value.markets.reduce((sum, m) => sum + (typeof m.peakShare === 'number' ? m.peakShare : 0), 0);
+    if (shares > 1 + 1e-9) errors.push({ field: 'markets', message: `Market peak shares add up to ${Math.round(shares * 100)}%; they can't exceed 100%` });
+    if (!value.deriveLaunchYear && launchYear != null) {
+      value.markets.forEach((m, k) => {
+        const f = `markets[${k}]`;
+        const loe = m.loeYear ?? loeYear;
+        if (has(`${f}.loeYear`) && has(`${f}.launchLag`) && loe != null && loe <= launchYear + m.launchLag) {
+          errors.push({ field: `${f}.loeYear`, message: `${m.name || `Market ${k + 1}`} LOE year must be after its launch (${launchYear + m.launchLag})` });
+        }
+      });
+    }
+  }
+  // Custom assumptions must cover the current phase, or the asset has no path to approval
+  if (value.phaseAssumptions && value.phase && has('phaseAssumptions') && value.phase !== 'Approved'
+    && !value.phaseAssumptions.some((a) => a.phase === value.phase)) {
+    errors.push({ field: 'phaseAssumptions', message: `Phase assumptions must include the current phase (${value.phase})` });
+  }
+  // The FX table is configurable, so the known currencies are only known at runtime
+  if (value.currency != null && !currencies().includes(value.currency)) {
+    errors.push({ field: 'currency', message: `Currency must be one of ${currencies().join(', ')}` });
+  }
+  if (value.royaltyMin != null && value.royaltyMax != null && value.royaltyMin > value.royaltyMax) {
+    errors.push({ field: 'royaltyMax', message: 'Royalty max must be at least royalty min' });
+  }
+
+  return errors.length ? { ok: false, errors } : { ok: true, value: value as Inputs };
+}
+
+/**
+ * Scenario overrides are validated as the merged inputs they produce; error fields are prefixed `scenarios[k].`.
+ * On success each scenario holds the validated copies of the fields it overrides.
+ */
+export function validateScenarios(base: Inputs, raw: unknown): Validated<Scenario[]> {
+  if (raw == null) return { ok: true, value: [] };
+  if (!Array.isArray(raw)) return { ok: false, errors: [{ field: 'scenarios', message: 'scenarios must be a list' }] };
+  const errors: FieldError[] = [];
+  const scenarios: Scenario[] = [];
+  raw.forEach((entry: unknown, k: number) => {
+    const s = isObject(entry) ? entry : {};
+    const f = `scenarios[${k}]`;
+    const label = typeof s.name === 'string' ? s.name : `Scenario ${k + 1}`;
+    check(errors, `${f}.name`, s.name, { kind: 'text', label: `Scenario ${k + 1} name`, maxLength: 100 });
+    check(errors, `${f}.weight`, s.weight, { kind: 'number', label: `Scenario ${k + 1} weight`, min: 0, max: 1 });
+    if (!isObject(s.overrides)) return errors.push({ field: `${f}.overrides`, message: `Scenario ${k + 1} overrides must be an object` });
+    const { overrides } = s;
+    const merged = validateInputs(applyScenario(base, { name: label, weight: 0, overrides: overrides as Partial<Inputs> }));
+    if (!merged.ok) return errors.push(...merged.errors.map((e) => ({ field: `${f}.${e.field}`, message: `${label}: ${e.message}` })));
+    const copy = Object.keys(overrides).map((key) => [key, (merged.value as Record<string, unknown>)[key]]);
+    scenarios.push({ name: s.name as string, weight: s.weight as number, overrides: Object.fromEntries(copy) });
+  });
+  return errors.length ? { ok: false, errors } : { ok: true, value: scenarios };
+}
+
+/** Validates the `{ inputs, scenarios? }` pair every computing route accepts, in one pass. */
+export function validateRequest(body: unknown): Validated<{ inputs: Inputs; scenarios: Scenario[] }> {
+  const raw = isObject(body) ? body : {};
+  const inputs = validateInputs(raw.inputs);
+  if (!inputs.ok) return inputs;
+  const scenarios = validateScenarios(inputs.value, raw.scenarios);
+  if (!scenarios.ok) return scenarios;
+  return { ok: true, value: { inputs: inputs.value, scenarios: scenarios.value } };
+}
+
+const simulatedFields: SimulatedField[] = ['peakSales', 'launchYear', 'loeYear', 'discountRate', 'cogs', 'royaltyMin', 'royaltyMax'];
+const distributionParams: Record<string, string[]> = {
+  triangular: ['min', 'mode', 'max'], normal: ['mean', 'sd'], uniform: ['min', 'max'], lognormal: ['mu', 'sigma'],
+};
+
+/** Monte Carlo request: bounded iteration and bin counts, and well-formed distributions for known fields. */
+export function validateSimulation(raw: unknown): Validated<SimulationSpec> {
+  if (raw == null) return { ok: true, value: { distributions: {} } };
+  if (!isObject(raw)) return { ok: false, errors: [{ field: 'simulation', message: 'simulation must be an object' }] };
+  const errors: FieldError[] = [];
+  check(errors, 'simulation.iterations', raw.iterations, { kind: 'number', label: 'Iterations', min: 1, max: MAX_ITERATIONS, integer: true, optional: true });
+  check(errors, 'simulation.seed', raw.seed, { kind: 'number', label: 'Seed', optional: true });
+  check(errors, 'simulation.bins', raw.bins, { kind: 'number', label: 'Histogram bins', min: 1, max: MAX_BINS, integer: true, optional: true });
+  const value: SimulationSpec = { ...pick<Omit<SimulationSpec, 'distributions'>>(raw, ['iterations', 'seed', 'bins']), distributions: {} };
+  const distributions = raw.distributions ?? {};
+  if (!isObject(distributions)) errors.push({ field: 'simulation.distributions', message: 'Distributions must be an object' });
+  else {
+    for (const [field, entry] of Object.entries(distributions)) {
+      const f = `simulation.distributions.${field}`;
+      if (!simulatedFields.includes(field as SimulatedField)) { errors.push({ field: f, message: `${field} can't be simulated` }); continue; }
+      const d = isObject(entry) ? entry : {};
+      const params = typeof d.kind === 'string' ? distributionParams[d.kind] : undefined;
+      if (!params) { errors.push({ field: `${f}.kind`, message: `${field} distribution must be ${Object.keys(distributionParams).join(', ')}` }); continue; }
+      if (!params.map((p) => check(errors, `${f}.${p}`, d[p], { kind: 'number', label: `${field} ${p}` })).every(Boolean)) continue;
+      const dist = pick<Distribution>(d, ['kind', ...params]);
+      if (dist.kind === 'normal') check(errors, `${f}.sd`, dist.sd, { kind: 'number', label: `${field} sd`, min: 0 });
+      if (dist.kind === 'lognormal') check(errors, `${f}.sigma`, dist.sigma, { kind: 'number', label: `${field} sigma`, min: 0 });
+      if ((dist.kind === 'triangular' || dist.kind === 'uniform') && dist.min > dist.max) errors.push({ field: `${f}.max`, message: `${field} max must be at least min` });
+      else if (dist.kind === 'triangular' && (dist.mode < dist.min || dist.mode > dist.max)) errors.push({ field: `${f}.mode`, message: `${field} mode must be between min and max` });
+      value.distributions[field as SimulatedField] = dist;
+    }
+  }
+  return errors.length ? { ok: false, errors: dedupe(errors) } : { ok: true, value };
+}
+
+// Each grid cell is a full engine run, so a two-way table is at most 25 × 25
+export const MAX_GRID_STEPS = 25;
+
+const isFlexField = (f: unknown): f is NumericField => typeof f === 'string' && numericFields.includes(f as NumericField);
+
+/** Grid axis: up to MAX_GRID_STEPS finite numbers, each clamped into the field's range. */
+function checkGridAxis(errors: FieldError[], field: string, flexed: NumericField | undefined, raw: unknown): number[] | undefined {
+  if (raw == null) return undefined;
+  if (!Array.isArray(raw) || !raw.length || raw.length > MAX_GRID_STEPS) {
+    errors.push({ field, message: `${field} must be a list of 1 to ${MAX_GRID_STEPS} numbers` });
+    return undefined;
+  }
+  const ok = raw.map((v, k) => check(errors, `${field}[${k}]`, v, { kind: 'number', label: `${field} value ${k + 1}` }));
+  if (!ok.every(Boolean)) return undefined;
+  return (raw as number[]).map((v) => (flexed ? clampToSchema(flexed, v) : v));
+}
+
+/** Tornado / two-way request: flexed fields from numericFields, finite bounds and grids clamped to each field's range. */
+export function validateSensitivity(raw: unknown): Validated<SensitivityRequest> {
+  const body = isObject(raw) ? raw : {};
+  const errors: FieldError[] = [];
+  const value: SensitivityRequest = { bounds: {}, fields: numericFields };
+
+  if (body.fields != null) {
+    if (!Array.isArray(body.fields) || !body.fields.length) errors.push({ field: 'fields', message: 'fields must be a non-empty list of inputs' });
+    else {
+      body.fields.forEach((f: unknown, k: number) => {
+        if (!isFlexField(f)) errors.push({ field: `fields[${k}]`, message: `${String(f)} isn't a numeric input that can be flexed` });
+      });
+      value.fields = [...new Set(body.fields.filter(isFlexField))];
+    }
+  }
+  if (body.bounds != null) {
+    if (!isObject(body.bounds)) errors.push({ field: 'bounds', message: 'bounds must be an object' });
+    else {
+      for (const [field, b] of Object.entries(body.bounds)) {
+        const f = `bounds.${field}`;
+        if (!isFlexField(field)) { errors.push({ field: f, message: `${field} isn't a numeric input that can be flexed` }); continue; }
+        if (!isObject(b)) { errors.push({ field: f, message: `${field} bounds must be { low, high }` }); continue; }
+        const low = check(errors, `${f}.low`, b.low, { kind: 'number', label: `${field} low` });
+        const high = check(errors, `${f}.high`, b.high, { kind: 'number', label: `${field} high` });
+        if (low && high) value.bounds[field] = { low: clampToSchema(field, b.low as number), high: clampToSchema(field, b.high as number) } satisfies Bounds;
+      }
+    }
+  }
+  if (body.twoWay != null) {
+    const t = isObject(body.twoWay) ? body.twoWay : undefined;
+    if (!t) errors.push({ field: 'twoWay', message: 'twoWay must be an object' });
+    else {
+      const xField = isFlexField(t.xField) ? t.xField : undefined;
+      const yField = isFlexField(t.yField) ? t.yField : undefined;
+      if (!xField) errors.push({ field: 'twoWay.xField', message: 'twoWay xField must be a numeric input' });
+      if (!yField) errors.push({ field: 'twoWay.yField', message: 'twoWay yField must be a numeric input' });
+      const xValues = checkGridAxis(errors, 'twoWay.xValues', xField, t.xValues);
+      const yValues = checkGridAxis(errors, 'twoWay.yValues', yField, t.yValues);
+      if (xField && yField) value.twoWay = { xField, yField, ...(xValues ? { xValues } : {}), ...(yValues ? { yValues } : {}) };
+    }
+  }
+  return errors.length ? { ok: false, errors } : { ok: true, value };
+}
+
+// Each asset is a full engine run on every portfolio read
+export const MAX_PORTFOLIO_ASSETS = 100;
+
+export type PortfolioBody = Partial<Pick<Portfolio, 'name' | 'valuationIds' | 'correlation'>> & { workspaceId?: string };
+
+/** Portfolio create/update body; with `partial` (updates) every field is optional, otherwise name is required. */
+export function validatePortfolio(raw: unknown, partial = false): Validated<PortfolioBody> {
+  if (!isObject(raw)) return { ok: false, errors: [{ field: 'portfolio', message: 'Body must be an object' }] };
+  const errors: FieldError[] = [];
+  const value: PortfolioBody = {};
+  if (check(errors, 'name', raw.name, { kind: 'text', label: 'Name', maxLength: 100, optional: partial && raw.name === undefined }) && typeof raw.name === 'string') value.name = raw.name;
+  if (check(errors, 'correlation', raw.correlation, { kind: 'number', label: 'Correlation', min: 0, max: 1, optional: true }) && typeof raw.correlation === 'number') {
+    value.correlation = raw.correlation;
+  }
+  if (check(errors, 'workspaceId', raw.workspaceId, { kind: 'text', label: 'Workspace', maxLength: 64, optional: true }) && typeof raw.workspaceId === 'string' && raw.workspaceId) {
+    value.workspaceId = raw.workspaceId;
+  }
+  if (raw.valuationIds != null) {
+    const ids: unknown = raw.valuationIds;
+    if (!Array.isArray(ids) || ids.length > MAX_PORTFOLIO_ASSETS) {
+      errors.push({ field: 'valuationIds', message: `valuationIds must be a list of at most ${MAX_PORTFOLIO_ASSETS} valuation ids` });
+    } else {
+      const ok = ids.map((id, k) => check(errors, `valuationIds[${k}]`, id, { kind: 'text', label: `Valuation ${k + 1}`, maxLength: 64 }));
+      if (ok.every(Boolean)) value.valuationIds = [...new Set(ids as string[])];
+    }
+  }
+  return errors.length ? { ok: false, errors } : { ok: true, value };
+}
+
+/** `/api/portfolios/[id]` query: a single id and, optionally, a reporting currency from the FX table. */
+export function validatePortfolioQuery(query: unknown): Validated<{ id: string; currency?: string }> {
+  const q = isObject(query) ? query : {};
+  const errors: FieldError[] = [];
+  check(errors, 'id', q.id, { kind: 'text', label: 'Portfolio id', maxLength: 64 });
+  check(errors, 'currency', q.currency, { kind: 'choice', label: 'Currency', values: currencies(), optional: true });
+  if (errors.length) return { ok: false, errors };
+  return { ok: true, value: { id: q.id as string, ...(q.currency ? { currency: q.currency as string } : {}) } };
+}
+
+// Every message goes to the model on each turn, so the history sent is bounded
+export const MAX_CHAT_MESSAGES = 40;
+export const MAX_CHAT_MESSAGE_LENGTH = 8000;
+
+/** Assistant request: a bounded user/assistant history and, when a valuation is loaded, its inputs. */
+export function validateChat(raw: unknown): Validated<{ messages: ChatMessage[]; inputs?: Inputs }> {
+  const body = isObject(raw) ? raw : {};
+  const errors: FieldError[] = [];
+  const messages: ChatMessage[] = [];
+  if (!Array.isArray(body.messages) || !body.messages.length || body.messages.length > MAX_CHAT_MESSAGES) {
+    errors.push({ field: 'messages', message: `messages must be a list of 1 to ${MAX_CHAT_MESSAGES} messages` });
+  } else {
+    body.messages.forEach((m: unknown, k: number) => {
+      const msg = isObject(m) ? m : {};
+      const role = check(errors, `messages[${k}].role`, msg.role, { kind: 'choice', label: `Message ${k + 1} role`, values: ['user', 'assistant'] });
+      const content = check(errors, `messages[${k}].content`, msg.content, { kind: 'text', label: `Message ${k + 1}`, maxLength: MAX_CHAT_MESSAGE_LENGTH });
+      if (role && content) messages.push({ role: msg.role as ChatMessage['role'], content: msg.content as string });
+    });
+  }
+  // Context is optional, but if inputs are sent they must be valid: the assistant recomputes from them
+  const payload = isObject(body.context) && isObject(body.context.payload) ? body.context.payload : {};
+  let inputs: Inputs | undefined;
+  if (payload.inputs != null) {
+    const checked = validateInputs(payload.inputs);
+    if (checked.ok) inputs = checked.value;
+    else errors.push(...checked.errors.map((e) => ({ ...e, field: `context.payload.inputs.${e.field}` })));
+  }
+  return errors.length ? { ok: false, errors } : { ok: true, value: { messages, ...(inputs ? { inputs } : {}) } };
+}
+
+const outputNumbers: [keyof Outputs, boolean][] = [
+  ['mechanismBonus', true], ['ptrs', true], ['devCostPV', true], ['rnpv', true], ['roi', false],
+  ['ownerPV', false], ['licensorPV', false], ['baselinePos', false], ['mechanisticPos', false], ['launchYear', false],
+  ['irr', false], ['paybackYear', false], ['peakFunding', false], ['peakFundingYear', false],
+];
+
+/** Outputs must be finite everywhere; catches NaN/Infinity from a degenerate input mix before it is stored or shown. */
+export function validateOutputs(raw: unknown): Validated<Outputs> {
+  if (!isObject(raw)) return { ok: false, errors: [{ field: 'outputs', message: 'outputs must be an object' }] };
+  const errors: FieldError[] = [];
+  for (const [field, required] of outputNumbers) {
+    check(errors, `outputs.${field}`, raw[field], { kind: 'number', label: field, optional: !required });
+  }
+  check(errors, 'outputs.ptrs', raw.ptrs, { kind: 'number', label: 'PTRS', min: 0, max: 1 });
+  (Array.isArray(raw.schedule) ? raw.schedule : []).forEach((entry: unknown, k: number) => {
+    const r = isObject(entry) ? entry : {};
+    for (const f of ['revenue', 'netCashflow', 'pv'] as const) check(errors, `outputs.schedule[${k}].${f}`, r[f], { kind: 'number', label: `${r.year ?? k} ${f}` });
+  });
+  return errors.length ? { ok: false, errors: dedupe(errors) } : { ok: true, value: raw as Outputs };
+}
+
+function dedupe(errors: FieldError[]) {
+  return errors.filter((e, k) => errors.findIndex((o) => o.field === e.field) === k);
+}
+
+/** Field → first message, for inline form errors. */
+export function errorsByField(errors: FieldError[]): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const e of errors) if (!(e.field in out)) out[e.field] = e.message;
+  return out;
+}
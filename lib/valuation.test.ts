@@ -0,0 +1,62 @@
+/**
+ * rNPV engine: owner, licensor and deal formulas (node:test; run from the repo root).
+ */
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import type { DealTerms, Inputs } from './types';
+import { computeOutputs } from './valuation';
+
+const base: Inputs = JSON.parse(readFileSync('fixtures/valuation/inputs.json', 'utf8'));
+const year = 2026;
+const dealTerms: DealTerms = {
+  upfront: 50,
+  tiers: [{ upTo: 300, rate: 8 }, { upTo: null, rate: 12 }],
+  milestones: [
+    { name: 'Phase III start', kind: 'development', phase: 'Phase III', amount: 25 },
+    { name: 'Approval', kind: 'development', phase: 'Approved', amount: 75 },
+    { name: 'Sales $250M', kind: 'sales', salesThreshold: 250, amount: 40 },
+  ],
+};
+
+const close = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 1e-6, `${actual} ≠ ${expected}`);
+
+test('owner rNPV is success PV × PTRS less risked development cost', () => {
+  const o = computeOutputs(base, year);
+  close(o.ptrs, Math.min(1, o.baselinePos! * o.mechanismBonus));
+  close(o.rnpv, o.ownerPV! * o.ptrs - o.devCostPV);
+  assert.equal(o.roi, Math.round((o.rnpv / o.devCostPV) * 100));
+  assert.ok(o.devCostPV > 0 && o.ptrs > 0 && o.ptrs < 1);
+});
+
+test('licensor without a deal books royalties and still carries development cost', () => {
+  const o = computeOutputs({ ...base, role: 'LICENSOR' }, year);
+  close(o.rnpv, o.licensorPV! * o.ptrs - o.devCostPV);
+  assert.ok(o.licensorPV! < o.ownerPV!);
+});
+
+test('licensor under a deal books upfront and risked milestones instead of development cost', () => {
+  const o = computeOutputs({ ...base, role: 'LICENSOR', dealTerms }, year);
+  assert.ok(o.deal);
+  close(o.rnpv, o.licensorPV! * o.ptrs + o.deal.upfrontPV + o.deal.milestonesPV);
+  close(o.deal.upfrontPV, 50 * (1 - base.taxRate));
+  // The licensee funds development, so ROI on the licensor's dev cost is meaningless
+  assert.equal(o.roi, null);
+  assert.deepEqual(o.deal.milestones.map((m) => m.name), ['Phase III start', 'Approval', 'Sales $250M']);
+  // Development milestones carry the same mechanism bonus as the sales ones
+  const [phase3, approval, sales] = o.deal.milestones;
+  close(phase3.probability, Math.min(1, o.phaseBreakdown![1].probabilityOfReaching * o.mechanismBonus));
+  close(approval.probability, o.ptrs);
+  close(sales.probability, o.ptrs);
+});
+
+test('an approved asset has no development cost and PTRS is the mechanism bonus capped at 1', () => {
+  const o = computeOutputs({ ...base, phase: 'Approved' }, year);
+  assert.equal(o.devCostPV, 0);
+  close(o.ptrs, Math.min(1, o.mechanismBonus));
+});
+
+test('a phase missing from custom assumptions has no path to approval', () => {
+  const o = computeOutputs({ ...base, phaseAssumptions: [{ phase: 'Phase III', durationYears: 3, cost: 100, transitionProbability: 0.5 }] }, year);
+  assert.equal(o.ptrs, 0);
+});
@@ -0,0 +1,134 @@
+/**
+ * rNPV engine
+ * Pure functions shared by the UI and the API routes so both report the same numbers.
+ */
+import type { Inputs, Outputs } from './types';
+import type { MarketDcf } from './cashflow';
+import { licensorSchedule, ownerSchedule } from './cashflow';
+import { royaltyAtYear } from './royalty';
+import { defaultPhaseAssumptions, planRemainingPhases } from './phaseModel';
+import { getBenchmarks, resolveBenchmark } from './benchmarks';
+import { dealRoyaltyIncome, valueDeal } from './deal';
+import { scoreMechanism } from './mechanism';
+import { valuationMetrics } from './metrics';
+import { defaultCurrency, fxRate } from './fx';
+import { buildEpidemiology } from './epidemiology';
+
+export { phases } from './phaseModel';
+
+/** Each market's own sales timeline; markets without an LOE or erosion inherit the asset's. */
+function marketTimelines(i: Inputs, launchYear: number): MarketDcf[] | undefined {
+  if (!i.markets?.length) return undefined;
+  return i.markets.map((m) => ({
+    name: m.name,
+    launchYear: launchYear + m.launchLag,
+    loeYear: m.loeYear ?? i.loeYear,
+    peakSales: i.peakSales * m.peakShare * m.pricingFactor,
+    erosion: m.erosion ?? i.erosion,
+  }));
+}
+
+/** Peak sales the engine uses: the patient funnel's when there is one, otherwise the typed value. */
+export function effectivePeakSales(i: Inputs): number {
+  return i.epidemiology ? buildEpidemiology(i.epidemiology).peakSales : i.peakSales;
+}
+
+/**
+ * Sets peak sales for a flex, scenario or what-if. A patient funnel would replace the
+ * typed value, so its price is rescaled until the funnel reaches `peakSales` instead.
+ */
+export function withPeakSales(i: Inputs, peakSales: number): Inputs {
+  if (!i.epidemiology) return { ...i, peakSales };
+  const e = i.epidemiology;
+  const volume = buildEpidemiology(e).peakPatientYears * e.compliance;
+  if (!(volume > 0)) return { ...i, peakSales };
+  return { ...i, peakSales, epidemiology: { ...e, annualPrice: (peakSales * 1e6) / volume } };
+}
+
+export function computeOutputs(typed: Inputs, currentYear = new Date().getFullYear()): Outputs {
+  // A bottom-up forecast replaces the typed-in peak sales and uptake curve
+  const epidemiology = typed.epidemiology ? buildEpidemiology(typed.epidemiology) : undefined;
+  const i: Inputs = epidemiology ? { ...typed, peakSales: epidemiology.peakSales, salesCurve: epidemiology.salesCurve } : typed;
+  const mechanism = scoreMechanism(i);
+  const bonus = mechanism.bonus;
+  const benchmarks = getBenchmarks();
+  const currency = i.currency ?? defaultCurrency;
+  // Benchmark costs are quoted in the dataset's currency; custom assumptions are already in the valuation's
+  const fx = fxRate(benchmarks.currency ?? defaultCurrency, currency);
+  const assumptions = i.phaseAssumptions
+    ?? (resolveBenchmark(benchmarks, i.indication, i.modality)?.phases ?? defaultPhaseAssumptions)
+      .map((a) => (fx === 1 ? a : { ...a, cost: a.cost * fx }));
+  // Nominal: prices and costs escalate with inflation. Real: they stay in today's money,
+  // and the deal's fixed contract amounts are deflated instead.
+  const nominal = (i.discountBasis ?? 'nominal') === 'nominal';
+  const inflation = nominal ? i.inflation ?? 0 : 0;
+  const deflation = nominal ? 0 : i.inflation ?? 0;
+  const discountCurve = i.discountCurve?.length ? i.discountCurve : undefined;
+  const plan = planRemainingPhases(i.phase, i.discountRate, i.taxRate, assumptions, { inflation, discountCurve });
+  const probability = plan.cumulativePos;
+  const devCostPV = plan.devCostPV;
+  const launchYear = i.deriveLaunchYear ? currentYear + Math.ceil(plan.yearsToApproval) : i.launchYear;
+  const markets = marketTimelines(i, launchYear);
+
+  const ownerRows = ownerSchedule({
+    currentYear, launchYear, loeYear: i.loeYear, discountRate: i.discountRate, taxRate: i.taxRate,
+    peakSales: i.peakSales, cogs: i.cogs, commercialSpend: i.commercialSpend, workingCapital: i.workingCapital,
+    salesCurve: i.salesCurve, erosion: i.erosion, inflation, discountCurve, markets,
+  });
+  const royaltyMin = i.royaltyMin ?? 5;
+  const royaltyMax = i.royaltyMax ?? 12;
+  const royaltyRampYears = i.royaltyRampYears ?? 3;
+  const licensorRows = licensorSchedule({
+    currentYear, launchYear, loeYear: i.loeYear, discountRate: i.discountRate, taxRate: i.taxRate,
+    peakSales: i.peakSales,
+    royaltyPctAt: (y) => royaltyAtYear(y, launchYear, i.loeYear, royaltyMin, royaltyMax, royaltyRampYears),
+    royaltyIncomeAt: i.dealTerms ? dealRoyaltyIncome(i.dealTerms, i.loeYear) : undefined,
+    cogs: 0, commercialSpend: 0, workingCapital: 0,
+    salesCurve: i.salesCurve, erosion: i.erosion, inflation, discountCurve, markets,
+  });
+
+  const ownerPV = ownerRows.reduce((sum, r) => sum + r.pv, 0);
+  const licensorPV = licensorRows.reduce((sum, r) => sum + r.pv, 0);
+
+  // Risk-adjusted outputs
+  const isOwner = (i.role ?? 'OWNER') === 'OWNER';
+  const selectedPV = isOwner ? ownerPV : licensorPV;
+  const ptrs = Math.min(1, probability * bonus);
+  const deal = i.dealTerms
+    ? valueDeal(i.dealTerms, {
+      currentYear, launchYear, loeYear: i.loeYear, discountRate: i.discountRate, taxRate: i.taxRate, ptrs, mechanismBonus: bonus, plan,
+      discountCurve, deflation,
+    }, licensorRows)
+    : undefined;
+  // Under a deal the licensee funds development, so the licensor books upfront + risked milestones instead
+  const rnpv = !isOwner && deal
+    ? selectedPV * ptrs + deal.upfrontPV + deal.milestonesPV
+    : selectedPV * ptrs - devCostPV;
+  // The licensee's dev spend isn't the licensor's outlay, so there is no cost base to return on
+  const roi = !isOwner && deal ? null : devCostPV !== 0 ? Math.round((rnpv / devCostPV) * 100) : 0;
+  const metrics = valuationMetrics({
+    currentYear, discountRate: i.discountRate, taxRate: i.taxRate, plan,
+    rows: isOwner ? ownerRows : licensorRows, ptrs, deal: isOwner ? undefined : deal, discountCurve, deflation,
+  }, selectedPV);
+
+  return {
+    mechanismBonus: bonus,
+    ptrs,
+    devCostPV,
+    ownerPV,
+    licensorPV,
+    rnpv,
+    roi,
+    ...metrics,
+    baselinePos: probability,
+    mechanisticPos: ptrs,
+    launchYear,
+    phaseBreakdown: plan.steps,
+    benchmarkVersion: i.phaseAssumptions ? 'custom' : benchmarks.version,
+    currency,
+    mechanism,
+    epidemiology,
+    deal,
+    schedule: isOwner ? ownerRows : licensorRows,
+  };
+}
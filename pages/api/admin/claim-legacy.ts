@@ -0,0 +1,16 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { claimLegacyData } from '../../../lib/store';
+import { requireUser } from '../../../lib/session';
+
+// POST { workspaceId } moves valuations and portfolios saved before workspaces existed into that workspace
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+  try {
+    const user = await requireUser(req);
+    const { workspaceId } = req.body ?? {};
+    if (!workspaceId || typeof workspaceId !== 'string') return res.status(400).json({ error: 'workspaceId required' });
+    res.status(200).json(await claimLegacyData(user, workspaceId));
+  } catch (e: any) {
+    res.status(e.status ?? 500).json({ error: e.message });
+  }
+}
@@ -0,0 +1,39 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getUserByEmail, listWorkspaces, toPublicUser } from '../../../lib/store';
+import { clientAddress, startSession } from '../../../lib/session';
+import { dummyPasswordHash, normalizeEmail, verifyPassword } from '../../../lib/auth';
+import { createAttemptLimiter } from '../../../lib/shareLinks';
+
+// Per account against guessing one password; per address, more loosely, against trying many accounts
+const accountAttempts = createAttemptLimiter();
+const addressAttempts = createAttemptLimiter(50);
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+  const { email, password } = req.body ?? {};
+  if (typeof email !== 'string' || typeof password !== 'string') {
+    return res.status(400).json({ error: 'email and password required' });
+  }
+  try {
+    const account = normalizeEmail(email);
+    const address = clientAddress(req);
+    const retryAfter = Math.max(accountAttempts.retryAfter(account), addressAttempts.retryAfter(address));
+    if (retryAfter) {
+      res.setHeader('Retry-After', String(retryAfter));
+      return res.status(429).json({ error: 'Too many failed sign-ins; try again later' });
+    }
+    const user = await getUserByEmail(email);
+    // Same answer, and the same scrypt work, for unknown email and wrong password
+    const valid = verifyPassword(password, user?.passwordHash ?? dummyPasswordHash());
+    if (!user || !valid) {
+      accountAttempts.fail(account);
+      addressAttempts.fail(address);
+      return res.status(401).json({ error: 'Invalid email or password' });
+    }
+    accountAttempts.reset(account);
+    startSession(res, user);
+    res.status(200).json({ user: toPublicUser(user), workspaces: await listWorkspaces(user.id) });
+  } catch (e: any) {
+    res.status(500).json({ error: e.message });
+  }
+}
@@ -0,0 +1,8 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { endSession } from '../../../lib/session';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+  endSession(res);
+  res.status(204).end();
+}
@@ -0,0 +1,14 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { listWorkspaces, toPublicUser } from '../../../lib/store';
+import { getSessionUser } from '../../../lib/session';
+
+// 200 with { user: null } when signed out, so the UI can probe without an error
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const user = await getSessionUser(req);
+    if (!user) return res.status(200).json({ user: null, workspaces: [] });
+    res.status(200).json({ user: toPublicUser(user), workspaces: await listWorkspaces(user.id) });
+  } catch (e: any) {
+    res.status(500).json({ error: e.message });
+  }
+}
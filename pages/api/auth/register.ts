@@ -0,0 +1,23 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { registerUser, toPublicUser } from '../../../lib/store';
+import { startSession } from '../../../lib/session';
+import { MIN_PASSWORD_LENGTH } from '../../../lib/auth';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+  const { email, password, name } = req.body ?? {};
+  if (typeof email !== 'string' || !/^[^@\s]+@[^@\s]+$/.test(email.trim())) {
+    return res.status(400).json({ error: 'A valid email is required' });
+  }
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+  }
+  try {
+    // Taken emails, including a concurrent registration of the same one, are a 409 (EmailTakenError)
+    const { user, workspace } = await registerUser(email, password, typeof name === 'string' ? name.trim() : undefined);
+    startSession(res, user);
+    res.status(200).json({ user: toPublicUser(user), workspaces: [workspace] });
+  } catch (e: any) {
+    res.status(e.status ?? 500).json({ error: e.message });
+  }
+}
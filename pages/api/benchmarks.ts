@@ -0,0 +1,19 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getBenchmarks, resolveBenchmark } from '../../lib/benchmarks';
+import { ensureBenchmarks } from '../../lib/benchmarkLoader';
+
+// GET /api/benchmarks[?indication=Oncology&modality=Biologic]
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') return res.status(405).json({ error: 'Method not allowed' });
+  try {
+    ensureBenchmarks();
+    const set = getBenchmarks();
+    const { indication, modality } = req.query;
+    if (!indication) return res.status(200).json(set);
+    const entry = resolveBenchmark(set, indication as string, (modality as string) || '*');
+    if (!entry) return res.status(404).json({ error: 'No benchmark for indication' });
+    res.status(200).json({ version: set.version, source: set.source, entry });
+  } catch (e: any) {
+    res.status(500).json({ error: e.message });
+  }
+}
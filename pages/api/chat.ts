@@ -0,0 +1,54 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { buildChatContext } from '../../lib/chat';
+import type { ToolEnv } from '../../lib/assistantTools';
+import { getChatProvider } from '../../lib/chatProviders';
+import { ruleBasedProvider } from '../../lib/ruleBasedProvider';
+import { ensureBenchmarks } from '../../lib/benchmarkLoader';
+import { lookupLoe } from '../../lib/orangeBook';
+import { getOrangeBookIndex } from '../../lib/orangeBookLoader';
+import { getTrial, normalizeNctId } from '../../lib/trials';
+import { defaultTrialFetcher } from '../../lib/trialFetchers';
+import { validateChat } from '../../lib/validation';
+import { requireUser } from '../../lib/session';
+
+// Same data sources as /api/loe and /api/trial
+function toolEnv(): ToolEnv {
+  const index = getOrangeBookIndex();
+  return {
+    lookupLoe: index ? (drugName) => lookupLoe(index, drugName) : undefined,
+    lookupTrial: async (nctId) => {
+      const id = normalizeNctId(nctId);
+      if (!id) throw new Error('Invalid NCT ID (expected NCT followed by 8 digits)');
+      return getTrial(id, defaultTrialFetcher());
+    },
+  };
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+  // Every message can reach a paid model API, so only signed-in users get the assistant
+  try {
+    await requireUser(req);
+  } catch (e: any) {
+    return res.status(e.status ?? 500).json({ error: e.message });
+  }
+  const checked = validateChat(req.body);
+  if (!checked.ok) return res.status(400).json({ error: 'Invalid chat request', fields: checked.errors });
+  const { messages, inputs } = checked.value;
+
+  try {
+    ensureBenchmarks();
+    const ctx = buildChatContext(inputs, toolEnv());
+    const provider = getChatProvider();
+    try {
+      return res.status(200).json({ ...(await provider.reply(messages, ctx)), provider: provider.name });
+    } catch (e: any) {
+      // A configured model being down shouldn't leave the panel silent
+      if (provider === ruleBasedProvider) throw e;
+      const reply = await ruleBasedProvider.reply(messages, ctx);
+      return res.status(200).json({ ...reply, provider: ruleBasedProvider.name, warning: e.message });
+    }
+  } catch (e: any) {
+    res.status(500).json({ error: e.message });
+  }
+}
@@ -0,0 +1,24 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { dealSplit, solveDeal } from '../../lib/negotiation';
+import { ensureBenchmarks } from '../../lib/benchmarkLoader';
+import { validateInputs } from '../../lib/validation';
+import { requireUser } from '../../lib/session';
+
+// POST { inputs, target?: { kind: 'licensorShare' | 'licenseeIrr', value }, lever?: 'royalty' | 'upfront' }
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+  try {
+    await requireUser(req);
+    ensureBenchmarks();
+    const { target, lever } = req.body;
+    const checked = validateInputs(req.body.inputs);
+    if (!checked.ok) return res.status(400).json({ error: 'Invalid inputs', fields: checked.errors });
+    const inputs = checked.value;
+    if (!inputs.dealTerms) return res.status(400).json({ error: 'inputs.dealTerms required' });
+    const result: Record<string, unknown> = { split: dealSplit(inputs) };
+    if (target) result.solution = solveDeal(inputs, target, lever ?? 'royalty');
+    res.status(200).json(result);
+  } catch (e: any) {
+    res.status(e.status ?? 500).json({ error: e.message });
+  }
+}
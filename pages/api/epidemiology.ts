@@ -0,0 +1,18 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { buildEpidemiology } from '../../lib/epidemiology';
+import { ensureBenchmarks } from '../../lib/benchmarkLoader';
+import { validateInputs } from '../../lib/validation';
+
+// POST { inputs } with inputs.epidemiology set returns the patient funnel, derived peak sales and uptake curve
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+  try {
+    ensureBenchmarks();
+    const checked = validateInputs(req.body?.inputs);
+    if (!checked.ok) return res.status(400).json({ error: 'Invalid inputs', fields: checked.errors });
+    if (!checked.value.epidemiology) return res.status(400).json({ error: 'inputs.epidemiology required' });
+    res.status(200).json(buildEpidemiology(checked.value.epidemiology));
+  } catch (e: any) {
+    res.status(500).json({ error: e.message });
+  }
+}
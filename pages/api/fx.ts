@@ -0,0 +1,22 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { convert, currencies, getFxTable } from '../../lib/fx';
+import { ensureBenchmarks } from '../../lib/benchmarkLoader';
+
+// GET /api/fx[?amount=100&from=USD&to=EUR]
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') return res.status(405).json({ error: 'Method not allowed' });
+  try {
+    ensureBenchmarks();
+    const table = getFxTable();
+    const { amount, from, to } = req.query;
+    if (!from && !to) return res.status(200).json(table);
+    if (!from || !to) return res.status(400).json({ error: 'from and to required' });
+    const unknown = [from, to].find((c) => !currencies(table).includes(c as string));
+    if (unknown) return res.status(400).json({ error: `Unknown currency ${unknown}` });
+    const value = Number(amount ?? 1);
+    if (!isFinite(value)) return res.status(400).json({ error: 'amount must be a number' });
+    res.status(200).json({ version: table.version, from, to, amount: value, converted: convert(value, from as string, to as string, table) });
+  } catch (e: any) {
+    res.status(500).json({ error: e.message });
+  }
+}
@@ -1,10 +1,34 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
+import { lookupLoe, PatentType } from '../../../lib/orangeBook';
+import { getOrangeBookIndex } from '../../../lib/orangeBookLoader';
 
+const patentTypes: PatentType[] = ['substance', 'product', 'use'];
+
+// GET /api/loe/[drugName]?pediatric=false&patentType=substance,use
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const { drugName } = req.query;
+  const { drugName, pediatric, patentType } = req.query;
   if (!drugName) return res.status(400).json({ error: 'Missing drug name' });
 
-  // Placeholder LOE estimation
-  const loeYear = new Date().getFullYear() + 10;
-  res.status(200).json({ loeYear, source: 'placeholder' });
+  try {
+    const index = getOrangeBookIndex();
+    if (!index) {
+      // No Orange Book data configured; fall back to a placeholder estimate
+      const loeYear = new Date().getFullYear() + 10;
+      return res.status(200).json({ loeYear, source: 'placeholder' });
+    }
+
+    const types = patentType ? String(patentType).split(',').map((t) => t.trim()) : [];
+    const unknown = types.filter((t) => !patentTypes.includes(t as PatentType));
+    if (unknown.length) return res.status(400).json({ error: `Unknown patentType: ${unknown.join(', ')}` });
+
+    const result = lookupLoe(index, drugName as string, {
+      pediatric: pediatric !== 'false',
+      patentTypes: types as PatentType[],
+    });
+    if (!result) return res.status(404).json({ error: 'Drug not found in Orange Book' });
+    if (result.loeYear == null) return res.status(404).json({ error: 'No patents or exclusivities listed', ...result });
+    res.status(200).json({ ...result, source: 'orange-book' });
+  } catch (e: any) {
+    res.status(500).json({ error: e.message });
+  }
 }
@@ -0,0 +1,18 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getMechanismConfig, scoreMechanism } from '../../lib/mechanism';
+import { ensureBenchmarks } from '../../lib/benchmarkLoader';
+import { validateInputs } from '../../lib/validation';
+
+// GET /api/mechanism returns the active scoring config; POST { inputs } scores them with a per-rule breakdown
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    ensureBenchmarks();
+    if (req.method === 'GET') return res.status(200).json(getMechanismConfig());
+    if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+    const checked = validateInputs(req.body?.inputs);
+    if (!checked.ok) return res.status(400).json({ error: 'Invalid inputs', fields: checked.errors });
+    res.status(200).json(scoreMechanism(checked.value));
+  } catch (e: any) {
+    res.status(500).json({ error: e.message });
+  }
+}
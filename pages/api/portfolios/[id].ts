@@ -0,0 +1,42 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { deletePortfolio, getPortfolio, getPortfolioValuations, updatePortfolio } from '../../../lib/store';
+import { requireUser } from '../../../lib/session';
+import { analyzePortfolio } from '../../../lib/portfolio';
+import { ensureBenchmarks } from '../../../lib/benchmarkLoader';
+import { defaultCurrency } from '../../../lib/fx';
+import { validatePortfolio, validatePortfolioQuery } from '../../../lib/validation';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const query = validatePortfolioQuery(req.query);
+  if (!query.ok) return res.status(400).json({ error: 'Invalid portfolio request', fields: query.errors });
+  const { id } = query.value;
+  try {
+    const user = await requireUser(req);
+    if (req.method === 'DELETE') {
+      const ok = await deletePortfolio(user.id, id);
+      if (!ok) return res.status(404).json({ error: 'Not found' });
+      return res.status(204).end();
+    }
+
+    if (req.method === 'PUT') {
+      const checked = validatePortfolio(req.body, true);
+      if (!checked.ok) return res.status(400).json({ error: 'Invalid portfolio', fields: checked.errors });
+      // A portfolio stays in the workspace it was created in
+      const { workspaceId, ...patch } = checked.value;
+      const doc = await updatePortfolio(user.id, id, patch);
+      if (!doc) return res.status(404).json({ error: 'Not found' });
+      return res.status(200).json(doc);
+    }
+
+    if (req.method !== 'GET') return res.status(405).json({ error: 'Method not allowed' });
+    ensureBenchmarks();
+    const portfolio = await getPortfolio(user.id, id);
+    if (!portfolio) return res.status(404).json({ error: 'Not found' });
+    // ?currency=EUR reports the pipeline in EUR; assets are converted from their own currencies
+    const currency = query.value.currency ?? defaultCurrency;
+    const valuations = await getPortfolioValuations(user.id, portfolio);
+    res.status(200).json({ portfolio, analysis: analyzePortfolio(portfolio, valuations, undefined, currency) });
+  } catch (e: any) {
+    res.status(e.status ?? 500).json({ error: e.message });
+  }
+}
@@ -0,0 +1,20 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createPortfolio, listPortfolios } from '../../../lib/store';
+import { requireUser } from '../../../lib/session';
+import { validatePortfolio } from '../../../lib/validation';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const user = await requireUser(req);
+    if (req.method === 'GET') return res.status(200).json(await listPortfolios(user.id));
+    if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+    const checked = validatePortfolio(req.body);
+    if (!checked.ok) return res.status(400).json({ error: 'Invalid portfolio', fields: checked.errors });
+    const { name, valuationIds = [], correlation = 0, workspaceId } = checked.value;
+    const doc = await createPortfolio(user.id, workspaceId, { name: name!, valuationIds, correlation });
+    res.status(200).json(doc);
+  } catch (e: any) {
+    res.status(e.status ?? 500).json({ error: e.message });
+  }
+}
@@ -0,0 +1,35 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { baseValue, gridValues, tornado, twoWayTable } from '../../lib/sensitivity';
+import { ensureBenchmarks } from '../../lib/benchmarkLoader';
+import { validateInputs, validateSensitivity } from '../../lib/validation';
+import { requireUser } from '../../lib/session';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+  try {
+    await requireUser(req);
+    ensureBenchmarks();
+    const checked = validateInputs(req.body?.inputs);
+    if (!checked.ok) return res.status(400).json({ error: 'Invalid inputs', fields: checked.errors });
+    const request = validateSensitivity(req.body);
+    if (!request.ok) return res.status(400).json({ error: 'Invalid sensitivity request', fields: request.errors });
+    const inputs = checked.value;
+    const { bounds, fields, twoWay } = request.value;
+    const result: Record<string, unknown> = { tornado: tornado(inputs, bounds, fields) };
+    if (twoWay) {
+      const { xField, yField } = twoWay;
+      const x = baseValue(inputs, xField);
+      const y = baseValue(inputs, yField);
+      if (typeof x !== 'number' || typeof y !== 'number') {
+        const field = typeof x !== 'number' ? 'twoWay.xField' : 'twoWay.yField';
+        return res.status(400).json({ error: 'Invalid sensitivity request', fields: [{ field, message: 'twoWay fields must be set on the inputs' }] });
+      }
+      const xValues = twoWay.xValues ?? gridValues(xField, x);
+      const yValues = twoWay.yValues ?? gridValues(yField, y);
+      result.twoWay = twoWayTable(inputs, xField, xValues, yField, yValues);
+    }
+    res.status(200).json(result);
+  } catch (e: any) {
+    res.status(e.status ?? 500).json({ error: e.message });
+  }
+}
@@ -0,0 +1,20 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { simulateRnpv } from '../../lib/montecarlo';
+import { ensureBenchmarks } from '../../lib/benchmarkLoader';
+import { validateInputs, validateSimulation } from '../../lib/validation';
+import { requireUser } from '../../lib/session';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+  try {
+    await requireUser(req);
+    ensureBenchmarks();
+    const checked = validateInputs(req.body.inputs);
+    if (!checked.ok) return res.status(400).json({ error: 'Invalid inputs', fields: checked.errors });
+    const simulation = validateSimulation(req.body.simulation);
+    if (!simulation.ok) return res.status(400).json({ error: 'Invalid simulation', fields: simulation.errors });
+    res.status(200).json(simulateRnpv(checked.value, simulation.value));
+  } catch (e: any) {
+    res.status(e.status ?? 500).json({ error: e.message });
+  }
+}
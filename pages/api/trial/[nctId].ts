@@ -1,13 +1,18 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
+import { getTrial, normalizeNctId } from '../../../lib/trials';
+import { defaultTrialFetcher } from '../../../lib/trialFetchers';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   const { nctId } = req.query;
   if (!nctId) return res.status(400).json({ error: 'Missing NCT ID' });
+  const id = normalizeNctId(nctId as string);
+  if (!id) return res.status(400).json({ error: 'Invalid NCT ID (expected NCT followed by 8 digits)' });
 
-  // Placeholder response
-  res.status(200).json({
-    phase: 'Phase 2',
-    sponsor: 'Example Sponsor',
-    startDate: '2024-03-01',
-  });
+  try {
+    const trial = await getTrial(id, defaultTrialFetcher());
+    if (!trial) return res.status(404).json({ error: 'Trial not found' });
+    res.status(200).json(trial);
+  } catch (e: any) {
+    res.status(502).json({ error: e.message });
+  }
 }
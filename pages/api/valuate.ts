@@ -0,0 +1,22 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { computeOutputs } from '../../lib/valuation';
+import { computeScenarios } from '../../lib/scenarios';
+import { ensureBenchmarks } from '../../lib/benchmarkLoader';
+import { validateRequest } from '../../lib/validation';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+  try {
+    ensureBenchmarks();
+    const checked = validateRequest(req.body);
+    if (!checked.ok) return res.status(400).json({ error: 'Invalid inputs', fields: checked.errors });
+    const { inputs, scenarios } = checked.value;
+    res.status(200).json({
+      inputs,
+      outputs: computeOutputs(inputs),
+      ...(scenarios.length ? { scenarios, scenarioOutputs: computeScenarios(inputs, scenarios) } : {}),
+    });
+  } catch (e: any) {
+    res.status(500).json({ error: e.message });
+  }
+}
@@ -0,0 +1,26 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getValuationRevision } from '../../../../lib/store';
+import { requireUser } from '../../../../lib/session';
+import { diffRevisions } from '../../../../lib/history';
+
+// GET /api/valuation/[id]/diff?from=1&to=2
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id, from, to } = req.query;
+  if (!id) return res.status(400).json({ error: 'Missing id' });
+  const fromRev = Number(from);
+  const toRev = Number(to);
+  if (!Number.isInteger(fromRev) || !Number.isInteger(toRev)) {
+    return res.status(400).json({ error: 'from and to revision numbers required' });
+  }
+  try {
+    const user = await requireUser(req);
+    const [a, b] = await Promise.all([
+      getValuationRevision(user.id, id as string, fromRev),
+      getValuationRevision(user.id, id as string, toRev),
+    ]);
+    if (!a || !b) return res.status(404).json({ error: 'Revision not found' });
+    res.status(200).json(diffRevisions(a, b));
+  } catch (e: any) {
+    res.status(e.status ?? 500).json({ error: e.message });
+  }
+}
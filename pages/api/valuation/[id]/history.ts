@@ -0,0 +1,21 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { listValuationRevisions } from '../../../../lib/store';
+import { requireUser } from '../../../../lib/session';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+  if (!id) return res.status(400).json({ error: 'Missing id' });
+  try {
+    const user = await requireUser(req);
+    const revisions = await listValuationRevisions(user.id, id as string);
+    if (!revisions.length) return res.status(404).json({ error: 'Not found' });
+    res.status(200).json({
+      id,
+      revisions: revisions.map((r) => ({
+        revision: r.revision, createdAt: r.createdAt, rnpv: r.outputs.rnpv, ptrs: r.outputs.ptrs,
+      })),
+    });
+  } catch (e: any) {
+    res.status(e.status ?? 500).json({ error: e.message });
+  }
+}
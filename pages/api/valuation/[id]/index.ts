@@ -0,0 +1,40 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getValuation, reviseValuation } from '../../../../lib/store';
+import { requireUser } from '../../../../lib/session';
+import { computeOutputs } from '../../../../lib/valuation';
+import { computeScenarios } from '../../../../lib/scenarios';
+import { ensureBenchmarks } from '../../../../lib/benchmarkLoader';
+import { validateOutputs, validateRequest } from '../../../../lib/validation';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+  if (!id) return res.status(400).json({ error: 'Missing id' });
+
+  try {
+    const user = await requireUser(req);
+
+    if (req.method === 'PUT') {
+      ensureBenchmarks();
+      const { nctId } = req.body;
+      const checked = validateRequest(req.body);
+      if (!checked.ok) return res.status(400).json({ error: 'Invalid inputs', fields: checked.errors });
+      const { inputs, scenarios } = checked.value;
+      const outputs = computeOutputs(inputs);
+      const computed = validateOutputs(outputs);
+      if (!computed.ok) return res.status(400).json({ error: 'Inputs produce invalid outputs', fields: computed.errors });
+      const scenarioFields = scenarios.length
+        ? { scenarios, scenarioOutputs: computeScenarios(inputs, scenarios) }
+        : {};
+      const doc = await reviseValuation(user.id, id as string, { inputs, outputs, ...scenarioFields, ...(nctId ? { nctId } : {}) });
+      if (!doc) return res.status(404).json({ error: 'Not found' });
+      return res.status(200).json({ id: doc.id, revision: doc.revision });
+    }
+
+    // Public access goes through share links (/api/valuation/share/[slug]), never the id
+    const doc = await getValuation(user.id, id as string);
+    if (!doc) return res.status(404).json({ error: 'Not found' });
+    res.status(200).json(doc);
+  } catch (e: any) {
+    res.status(e.status ?? 500).json({ error: e.message });
+  }
+}
@@ -0,0 +1,45 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createShareLink, listShareLinks, revokeShareLink } from '../../../../lib/store';
+import { requireUser } from '../../../../lib/session';
+import { expiryFromDays, isValidExpiryDays, MAX_EXPIRY_DAYS, MIN_EXPIRY_DAYS, summarizeShareLink } from '../../../../lib/shareLinks';
+import { MIN_PASSWORD_LENGTH } from '../../../../lib/auth';
+
+// GET lists links (viewers); POST { expiresInDays?, password? } creates one and DELETE ?slug= revokes it (editors)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id, slug } = req.query;
+  if (!id) return res.status(400).json({ error: 'Missing id' });
+  try {
+    const user = await requireUser(req);
+
+    if (req.method === 'POST') {
+      const { expiresInDays, password } = req.body ?? {};
+      if (!isValidExpiryDays(expiresInDays)) {
+        return res.status(400).json({ error: `expiresInDays must be a whole number from ${MIN_EXPIRY_DAYS} to ${MAX_EXPIRY_DAYS}` });
+      }
+      if (password != null && typeof password !== 'string') return res.status(400).json({ error: 'password must be a string' });
+      if (password && password.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+      }
+      const link = await createShareLink(user.id, id as string, {
+        expiresAt: expiryFromDays(expiresInDays),
+        password: password || undefined,
+      });
+      if (!link) return res.status(404).json({ error: 'Not found' });
+      return res.status(200).json(summarizeShareLink(link));
+    }
+
+    if (req.method === 'DELETE') {
+      if (!slug) return res.status(400).json({ error: 'slug required' });
+      const link = await revokeShareLink(user.id, id as string, slug as string);
+      if (!link) return res.status(404).json({ error: 'Not found' });
+      return res.status(200).json(summarizeShareLink(link));
+    }
+
+    if (req.method !== 'GET') return res.status(405).json({ error: 'Method not allowed' });
+    const links = await listShareLinks(user.id, id as string);
+    if (!links) return res.status(404).json({ error: 'Not found' });
+    res.status(200).json(links.map((l) => summarizeShareLink(l)));
+  } catch (e: any) {
+    res.status(e.status ?? 500).json({ error: e.message });
+  }
+}
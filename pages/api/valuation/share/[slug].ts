@@ -1,10 +1,52 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { getValuationBySlug } from '../../../../lib/store';
+import { openShareLink } from '../../../../lib/store';
+import { createAttemptLimiter, ShareDenial, sharedView } from '../../../../lib/shareLinks';
+import { clientAddress } from '../../../../lib/session';
+import { tornado } from '../../../../lib/sensitivity';
+import { ensureBenchmarks } from '../../../../lib/benchmarkLoader';
 
+const denials: Record<ShareDenial, [number, string]> = {
+  not_found: [404, 'Not found'],
+  expired: [410, 'This link has expired'],
+  revoked: [410, 'This link has been revoked'],
+  password_required: [401, 'Password required'],
+  wrong_password: [403, 'Incorrect password'],
+  too_many_attempts: [429, 'Too many incorrect passwords; try again later'],
+};
+
+// Per client and link, so one guesser can't lock everyone else out; per link, more loosely, against guessing spread across clients
+const clientAttempts = createAttemptLimiter();
+const linkAttempts = createAttemptLimiter(100);
+
+// Public: GET, or POST { password } for protected links. Read-only; rendered by pages/share/[slug].tsx
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   const { slug } = req.query;
   if (!slug) return res.status(400).json({ error: 'Missing slug' });
-  const doc = await getValuationBySlug(slug as string);
-  if (!doc) return res.status(404).json({ error: 'Not found' });
-  res.status(200).json(doc);
+  if (req.method !== 'GET' && req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+  try {
+    const password = req.method === 'POST' && typeof req.body?.password === 'string' ? req.body.password : undefined;
+    const clientKey = `${clientAddress(req)} ${slug}`;
+    const retryAfter = Math.max(clientAttempts.retryAfter(clientKey), linkAttempts.retryAfter(slug as string));
+    if (retryAfter) res.setHeader('Retry-After', String(retryAfter));
+    const result = retryAfter ? { denied: 'too_many_attempts' as const } : await openShareLink(slug as string, password);
+    if ('denied' in result) {
+      if (result.denied === 'wrong_password') {
+        clientAttempts.fail(clientKey);
+        linkAttempts.fail(slug as string);
+      }
+      const [status, error] = denials[result.denied];
+      return res.status(status).json({ error, reason: result.denied });
+    }
+    ensureBenchmarks();
+    const { valuation, link } = result;
+    clientAttempts.reset(clientKey);
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.status(200).json({
+      valuation: sharedView(valuation),
+      tornado: tornado(valuation.inputs).slice(0, 8),
+      link: { expiresAt: link.expiresAt, views: link.views },
+    });
+  } catch (e: any) {
+    res.status(500).json({ error: e.message });
+  }
 }
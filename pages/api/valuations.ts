@@ -1,14 +1,42 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { createValuation } from '../../lib/store';
+import { createValuation, listValuations } from '../../lib/store';
+import { requireUser } from '../../lib/session';
+import { computeOutputs } from '../../lib/valuation';
+import { computeScenarios } from '../../lib/scenarios';
+import { ensureBenchmarks } from '../../lib/benchmarkLoader';
+import { validateOutputs, validateRequest } from '../../lib/validation';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
   try {
-    const { inputs, outputs } = req.body;
-    if (!inputs || !outputs) return res.status(400).json({ error: 'inputs and outputs required' });
-    const doc = await createValuation({ inputs, outputs } as any);
-    res.status(200).json({ id: doc.id, shareSlug: doc.shareSlug });
+    const user = await requireUser(req);
+
+    // GET /api/valuations?workspaceId=... lists the latest revision of each valuation
+    if (req.method === 'GET') {
+      const { workspaceId } = req.query;
+      if (!workspaceId) return res.status(400).json({ error: 'workspaceId required' });
+      const docs = await listValuations(user.id, workspaceId as string);
+      return res.status(200).json(docs.map((d) => ({
+        id: d.id, indication: d.inputs.indication, phase: d.inputs.phase, revision: d.revision,
+        createdAt: d.createdAt, rnpv: d.outputs.rnpv,
+      })));
+    }
+    if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+    ensureBenchmarks();
+    const { nctId, workspaceId } = req.body;
+    const checked = validateRequest(req.body);
+    if (!checked.ok) return res.status(400).json({ error: 'Invalid inputs', fields: checked.errors });
+    const { inputs, scenarios } = checked.value;
+    // Outputs are always recomputed server-side; client-supplied numbers are ignored.
+    const outputs = computeOutputs(inputs);
+    const computed = validateOutputs(outputs);
+    if (!computed.ok) return res.status(400).json({ error: 'Inputs produce invalid outputs', fields: computed.errors });
+    const scenarioFields = scenarios.length
+      ? { scenarios, scenarioOutputs: computeScenarios(inputs, scenarios) }
+      : {};
+    const doc = await createValuation(user.id, workspaceId, { inputs, outputs, ...scenarioFields, ...(nctId ? { nctId } : {}) });
+    res.status(200).json({ id: doc.id, workspaceId: doc.workspaceId, revision: doc.revision });
   } catch (e: any) {
-    res.status(500).json({ error: e.message });
+    res.status(e.status ?? 500).json({ error: e.message });
   }
 }
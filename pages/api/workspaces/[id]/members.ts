@@ -0,0 +1,35 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getUserById, getWorkspace, removeWorkspaceMember, setWorkspaceMember } from '../../../../lib/store';
+import { requireUser } from '../../../../lib/session';
+import { isWorkspaceRole, workspaceRoles } from '../../../../lib/access';
+
+// GET lists members (any member); POST { email, role } adds or changes a role and DELETE ?userId= removes (admins)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id, userId } = req.query;
+  if (!id) return res.status(400).json({ error: 'Missing id' });
+  try {
+    const user = await requireUser(req);
+
+    if (req.method === 'POST') {
+      const { email, role } = req.body;
+      if (!email) return res.status(400).json({ error: 'email required' });
+      if (!isWorkspaceRole(role)) return res.status(400).json({ error: `role must be one of ${workspaceRoles.join(', ')}` });
+      return res.status(200).json(await setWorkspaceMember(user.id, id as string, email, role));
+    }
+
+    if (req.method === 'DELETE') {
+      if (!userId) return res.status(400).json({ error: 'userId required' });
+      return res.status(200).json(await removeWorkspaceMember(user.id, id as string, userId as string));
+    }
+
+    if (req.method !== 'GET') return res.status(405).json({ error: 'Method not allowed' });
+    const ws = await getWorkspace(user.id, id as string);
+    const members = await Promise.all(ws.members.map(async (m) => {
+      const u = await getUserById(m.userId);
+      return { ...m, email: u?.email ?? null, name: u?.name ?? null };
+    }));
+    res.status(200).json({ id: ws.id, name: ws.name, members });
+  } catch (e: any) {
+    res.status(e.status ?? 500).json({ error: e.message });
+  }
+}
@@ -0,0 +1,17 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createWorkspace, listWorkspaces } from '../../../lib/store';
+import { requireUser } from '../../../lib/session';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const user = await requireUser(req);
+    if (req.method === 'GET') return res.status(200).json(await listWorkspaces(user.id));
+    if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+    const { name } = req.body;
+    if (!name || typeof name !== 'string') return res.status(400).json({ error: 'name required' });
+    res.status(200).json(await createWorkspace(user.id, name.trim()));
+  } catch (e: any) {
+    res.status(e.status ?? 500).json({ error: e.message });
+  }
+}
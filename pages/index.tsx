@@ -1,7 +1,31 @@
-import { useState, useMemo, useEffect } from 'react';
+import { useState, useMemo, useEffect, useRef } from 'react';
+import Link from 'next/link';
 import { Toast, ToastKind } from '../components/Toast';
-import { pvOwner, pvLicensor } from '../lib/cashflow';
-import { royaltyAtYear, averageRoyalty } from '../lib/royalty';
+import { DealTermsEditor, defaultDealTerms } from '../components/DealTermsEditor';
+import { MarketsEditor, defaultMarkets } from '../components/MarketsEditor';
+import { EpidemiologyEditor, EpidemiologyFunnel, defaultEpidemiology } from '../components/EpidemiologyEditor';
+import { ScenarioEditor } from '../components/ScenarioEditor';
+import AssistantPanel from '../components/AssistantPanel';
+import { AccountBar } from '../components/AccountBar';
+import { ShareLinksPanel } from '../components/ShareLinksPanel';
+import { averageRoyalty } from '../lib/royalty';
+import { describeSalesCurve } from '../lib/cashflow';
+import { computeOutputs, phases } from '../lib/valuation';
+import { getBenchmarks, setBenchmarks } from '../lib/benchmarks';
+import { diffMechanism, getMechanismConfig, setMechanismConfig } from '../lib/mechanism';
+import { currencies, formatMoney, fxRate, getFxTable, setFxTable } from '../lib/fx';
+import { scaleDealTerms } from '../lib/deal';
+import { dealSplit, solveDeal } from '../lib/negotiation';
+import { computeScenarios, defaultScenarios } from '../lib/scenarios';
+import { MAX_ITERATIONS } from '../lib/montecarlo';
+import { baseValue, gridValues, numericFields, tornado, twoWayTable } from '../lib/sensitivity';
+import type { InputPatch } from '../lib/assistantTools';
+import { errorsByField, validateInputs, validateScenarios } from '../lib/validation';
+import { csvRow } from '../lib/csv';
+import { fractionalYear } from '../lib/trials';
+import type {
+  DealLever, DealSolution, DealTarget, DealTerms, Epidemiology, Inputs, Market, NumericField, SalesCurve, Scenario, SimulationResult, TrialSummary,
+} from '../lib/types';
 
 type Role = 'OWNER' | 'LICENSOR';
 
@@ -10,21 +34,54 @@ export default function Home() {
   const [phase, setPhase] = useState<string>('Preclinical');
   const [indication, setIndication] = useState<string>('Oncology');
   const [role, setRole] = useState<Role>('OWNER');
+  const [modality, setModality] = useState<string>('Small molecule');
+  const [target, setTarget] = useState<string>('');
+  const [mechanism, setMechanism] = useState<string>('');
+  const [benchmarkVersion, setBenchmarkVersion] = useState<string>(getBenchmarks().version);
+  const [mechanismVersion, setMechanismVersion] = useState<string>(getMechanismConfig().version);
+  const [fxVersion, setFxVersion] = useState<string>(getFxTable().version);
 
   // Commercial/financial inputs
   const [peakSales, setPeakSales] = useState<number>(500); // M
   const [launchYear, setLaunchYear] = useState<number>(new Date().getFullYear() + 5);
   const [loeYear, setLoeYear] = useState<number>(launchYear + 10);
+  const [deriveLaunchYear, setDeriveLaunchYear] = useState<boolean>(true);
   const [discountRate, setDiscountRate] = useState<number>(0.10);
+  const [currency, setCurrency] = useState<string>('USD');
+  const [inflation, setInflation] = useState<number>(0);
+  const [discountBasis, setDiscountBasis] = useState<'nominal' | 'real'>('nominal');
+  const [discountCurveText, setDiscountCurveText] = useState<string>(''); // % per year from today; blank = flat rate
   const [taxRate, setTaxRate] = useState<number>(0.21);
   const [cogs, setCogs] = useState<number>(0.20);
   const [commercialSpend, setCommercialSpend] = useState<number>(0.30);
   const [workingCapital, setWorkingCapital] = useState<number>(0.05);
 
+  // Sales curve & post-LOE erosion
+  const [curveKind, setCurveKind] = useState<SalesCurve['kind']>('linear');
+  const [rampYears, setRampYears] = useState<number>(4);
+  const [yearsToPeak, setYearsToPeak] = useState<number>(5);
+  const [steepness, setSteepness] = useState<number>(1.5);
+  const [bassP, setBassP] = useState<number>(0.03);
+  const [bassQ, setBassQ] = useState<number>(0.4);
+  const [customShares, setCustomShares] = useState<string>('0.1, 0.3, 0.6, 0.85, 1');
+  const [erosionText, setErosionText] = useState<string>(''); // % lost in LOE years 1..n; blank = cliff at LOE
+  // Launch markets; off = one global market on the asset's launch/LOE
+  const [useMarkets, setUseMarkets] = useState<boolean>(false);
+  const [markets, setMarkets] = useState<Market[]>(defaultMarkets);
+  // Bottom-up forecast; when on, peak sales and the uptake curve come from the patient funnel
+  const [useEpidemiology, setUseEpidemiology] = useState<boolean>(false);
+  const [epidemiology, setEpidemiology] = useState<Epidemiology>(defaultEpidemiology);
+
   // Licensing inputs
   const [royaltyMin, setRoyaltyMin] = useState<number>(5);
   const [royaltyMax, setRoyaltyMax] = useState<number>(12);
   const [royaltyRampYears, setRoyaltyRampYears] = useState<number>(3);
+  const [useDeal, setUseDeal] = useState<boolean>(false);
+  const [dealTerms, setDealTerms] = useState<DealTerms>(defaultDealTerms);
+  const [dealTargetKind, setDealTargetKind] = useState<DealTarget['kind']>('licensorShare');
+  const [dealTargetValue, setDealTargetValue] = useState<number>(0.5);
+  const [dealLever, setDealLever] = useState<DealLever>('royalty');
+  const [dealSolution, setDealSolution] = useState<DealSolution | null>(null);
 
   // Mechanistic inputs
   const [potency, setPotency] = useState<number>(50); // nM
@@ -40,18 +97,35 @@ export default function Home() {
   const [nctId, setNctId] = useState<string>('');
   const [trialSponsor, setTrialSponsor] = useState<string | null>(null);
   const [trialStartDate, setTrialStartDate] = useState<string | null>(null);
+  const [trial, setTrial] = useState<TrialSummary | null>(null);
   const [loeSource, setLoeSource] = useState<string | null>(null);
-
-  // PoS tracking (for display/exports)
-  const [baselinePos, setBaselinePos] = useState<number>(0);
-  const [mechanisticPos, setMechanisticPos] = useState<number>(0);
+  const [drugName, setDrugName] = useState<string>('');
+  const [loePediatric, setLoePediatric] = useState<boolean>(true);
+  const [loeDetail, setLoeDetail] = useState<{ patents: number; exclusivities: string[] } | null>(null);
 
   // Save/Load/Share
-  const [shareLink, setShareLink] = useState<string | null>(null);
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const [savedId, setSavedId] = useState<string | null>(null);
+  const [revision, setRevision] = useState<number | null>(null);
   const [loadId, setLoadId] = useState<string>('');
   const [saveError, setSaveError] = useState<string | null>(null);
   const [loadError, setLoadError] = useState<string | null>(null);
 
+  // Scenarios
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+
+  // Monte Carlo
+  const [simSalesSpread, setSimSalesSpread] = useState<number>(0.3); // ± fraction of peak
+  const [simLaunchSlip, setSimLaunchSlip] = useState<number>(2); // max years late
+  const [simDiscountSd, setSimDiscountSd] = useState<number>(0.01);
+  const [simIterations, setSimIterations] = useState<number>(5000);
+  const [simSeed, setSimSeed] = useState<number>(42);
+  const [simResult, setSimResult] = useState<SimulationResult | null>(null);
+
+  // Sensitivity
+  const [twoWayX, setTwoWayX] = useState<NumericField>('discountRate');
+  const [twoWayY, setTwoWayY] = useState<NumericField>('peakSales');
+
   // Toasts
   const [toastMsg, setToastMsg] = useState<string | null>(null);
   const [toastKind, setToastKind] = useState<ToastKind>('info');
@@ -61,72 +135,134 @@ export default function Home() {
     setTimeout(() => setToastMsg(null), 4000);
   };
 
-  // Lookups
-  const devCosts: Record<string, number> = {
-    Preclinical: 200,
-    'Phase I': 50,
-    'Phase II': 100,
-    'Phase III': 200,
-    NDA: 20,
-    Approved: 0,
+  const currentYear = new Date().getFullYear();
+
+  // Use the server's benchmark dataset so UI numbers match the API
+  useEffect(() => {
+    fetch('/api/benchmarks')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((set) => {
+        if (!set?.version) return;
+        setBenchmarks(set);
+        setBenchmarkVersion(set.version);
+      })
+      .catch(() => {});
+    fetch('/api/fx')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((table) => {
+        if (!table?.version) return;
+        setFxTable(table);
+        setFxVersion(table.version);
+      })
+      .catch(() => {});
+    fetch('/api/mechanism')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((config) => {
+        if (!config?.version) return;
+        setMechanismConfig(config);
+        setMechanismVersion(config.version);
+      })
+      .catch(() => {});
+  }, []);
+
+  const parseList = (text: string) => text.split(',').map((v) => v.trim()).filter(Boolean).map(Number).filter((v) => !isNaN(v));
+  const getSalesCurve = (): SalesCurve => {
+    switch (curveKind) {
+      case 'logistic': return { kind: 'logistic', yearsToPeak, steepness };
+      case 'bass': return { kind: 'bass', p: bassP, q: bassQ };
+      case 'custom': return { kind: 'custom', shares: parseList(customShares) };
+      default: return { kind: 'linear', rampYears };
+    }
+  };
+  const getDiscountCurve = () => {
+    const c = parseList(discountCurveText).map((v) => v / 100);
+    return c.length ? c : undefined;
   };
-  const baseProbabilities: Record<string, number> = {
-    Preclinical: 0.12,
-    'Phase I': 0.32,
-    'Phase II': 0.14,
-    'Phase III': 0.40,
-    NDA: 0.85,
-    Approved: 1.0,
+  const getErosion = () => {
+    const e = parseList(erosionText).map((v) => Math.min(1, Math.max(0, v / 100)));
+    return e.length ? e : undefined;
   };
 
-  // Mechanism bonus (bounded 0.5x..2.0x)
-  const mechanismBonus = useMemo(() => {
-    let b = 1.0;
-    if (potency < 10) b += 0.10; else if (potency > 100) b -= 0.10;
-    if (selectivity > 30) b += 0.10; else if (selectivity < 5) b -= 0.10;
-    if (halfLife > 24) b -= 0.05; else if (halfLife < 2) b -= 0.05;
-    if (molecularWeight > 500) b -= 0.05; else if (molecularWeight < 200) b += 0.05;
-    if (logP >= 1 && logP <= 3) b += 0.10; else b -= 0.05;
-    if (bioavailability > 0.5) b += 0.10; else if (bioavailability < 0.2) b -= 0.10;
-    if (targetValidation > 0.7) b += 0.20; else if (targetValidation < 0.3) b -= 0.10;
-    if (targetNovelty > 0.7) b -= 0.10; else if (targetNovelty < 0.3) b += 0.10;
-    return Math.min(2.0, Math.max(0.5, b));
-  }, [potency, selectivity, halfLife, molecularWeight, logP, bioavailability, targetValidation, targetNovelty]);
-
-  // Derived basics
-  const probability = baseProbabilities[phase] ?? 0;
-  const devCostPV = (devCosts[phase] ?? 0) * (1 - taxRate);
-  const currentYear = new Date().getFullYear();
+  // Helpers to gather payloads
+  const getInputs = (): Inputs => ({
+    peakSales, launchYear, loeYear, discountRate, taxRate, cogs, commercialSpend, workingCapital,
+    potency, selectivity, halfLife, molecularWeight, logP, bioavailability, targetValidation, targetNovelty,
+    phase, indication, modality, target: target || undefined, mechanism: mechanism || undefined,
+    royaltyMin, royaltyMax, royaltyRampYears, role, deriveLaunchYear,
+    salesCurve: getSalesCurve(), erosion: getErosion(), dealTerms: useDeal ? dealTerms : undefined,
+    currency, inflation, discountBasis, discountCurve: getDiscountCurve(), markets: useMarkets ? markets : undefined,
+    epidemiology: useEpidemiology ? epidemiology : undefined,
+  });
 
-  // Auto-derive PoS display
-  useEffect(() => {
-    const base = baseProbabilities[phase] ?? 0;
-    setBaselinePos(base);
-    setMechanisticPos(base * mechanismBonus);
-  }, [phase, mechanismBonus]);
-
-  // PVs
-  const ownerPV = useMemo(() => pvOwner({
-    currentYear, launchYear, loeYear, discountRate, taxRate,
-    peakSales, cogs, commercialSpend, workingCapital
-  }), [currentYear, launchYear, loeYear, discountRate, taxRate, peakSales, cogs, commercialSpend, workingCapital]);
-
-  const licensorPV = useMemo(() => pvLicensor({
-    currentYear, launchYear, loeYear, discountRate, taxRate, peakSales,
-    royaltyPctAt: (y) => royaltyAtYear(y, launchYear, loeYear, royaltyMin, royaltyMax, royaltyRampYears),
-    cogs: 0, commercialSpend: 0, workingCapital: 0
-  }), [currentYear, launchYear, loeYear, discountRate, taxRate, peakSales, royaltyMin, royaltyMax, royaltyRampYears]);
-
-  // Risk-adjusted outputs
+  // Engine outputs (same computation as POST /api/valuate)
+  const outputs = useMemo(() => computeOutputs(getInputs(), currentYear), [
+    peakSales, launchYear, loeYear, discountRate, taxRate, cogs, commercialSpend, workingCapital,
+    potency, selectivity, halfLife, molecularWeight, logP, bioavailability, targetValidation, targetNovelty,
+    phase, indication, modality, target, mechanism, royaltyMin, royaltyMax, royaltyRampYears, role, deriveLaunchYear, currentYear, benchmarkVersion, mechanismVersion, fxVersion,
+    curveKind, rampYears, yearsToPeak, steepness, bassP, bassQ, customShares, erosionText, useDeal, dealTerms,
+    currency, inflation, discountBasis, discountCurveText, useMarkets, markets, useEpidemiology, epidemiology,
+  ]);
+  const money = (v: number) => formatMoney(v, currency);
+  const scheduleMarkets = Object.keys(outputs.schedule?.[0]?.marketSales ?? {});
+  const { mechanismBonus, ptrs, rnpv, roi } = outputs;
+  const ownerPV = outputs.ownerPV ?? 0;
+  const licensorPV = outputs.licensorPV ?? 0;
+  const baselinePos = outputs.baselinePos ?? 0;
+  const mechanisticPos = outputs.mechanisticPos ?? 0;
   const selectedPV = role === 'OWNER' ? ownerPV : licensorPV;
-  const ptrs = probability * mechanismBonus;
-  const rnpv = selectedPV * ptrs - devCostPV;
-  const roi = devCostPV !== 0 ? Math.round((rnpv / devCostPV) * 100) : 0;
+  const effectiveLaunchYear = outputs.launchYear ?? launchYear;
+  // Explains the last edit that moved PTRS: baseline PoS and/or mechanism rules
+  const [ptrsMove, setPtrsMove] = useState<{ from: number; to: number; reasons: string[] } | null>(null);
+  const previousOutputs = useRef(outputs);
+  useEffect(() => {
+    const prev = previousOutputs.current;
+    previousOutputs.current = outputs;
+    if (Math.abs(prev.ptrs - outputs.ptrs) < 1e-9) return;
+    const reasons = prev.mechanism && outputs.mechanism
+      ? diffMechanism(prev.mechanism, outputs.mechanism).map((c) => `${c.label} ${c.previous >= 0 ? '+' : ''}${c.previous.toFixed(2)} → ${c.delta >= 0 ? '+' : ''}${c.delta.toFixed(2)}`)
+      : [];
+    if (prev.mechanism?.modality !== outputs.mechanism?.modality) reasons.push(`scoring model ${prev.mechanism?.modality ?? '*'} → ${outputs.mechanism?.modality ?? '*'}`);
+    if (Math.abs((prev.baselinePos ?? 0) - (outputs.baselinePos ?? 0)) > 1e-9) {
+      reasons.push(`baseline PoS ${((prev.baselinePos ?? 0) * 100).toFixed(1)}% → ${((outputs.baselinePos ?? 0) * 100).toFixed(1)}%`);
+    }
+    setPtrsMove({ from: prev.ptrs, to: outputs.ptrs, reasons });
+  }, [outputs]);
+  const tornadoBars = useMemo(() => tornado(getInputs(), {}, numericFields, currentYear).slice(0, 8), [outputs]);
+  const twoWay = useMemo(() => {
+    const i = getInputs();
+    const x = baseValue(i, twoWayX) ?? 0;
+    const y = baseValue(i, twoWayY) ?? 0;
+    return twoWayTable(i, twoWayX, gridValues(twoWayX, x), twoWayY, gridValues(twoWayY, y), currentYear);
+  }, [outputs, twoWayX, twoWayY]);
+  const tornadoMax = Math.max(1, ...tornadoBars.map((b) => Math.max(Math.abs(b.rnpvLow - rnpv), Math.abs(b.rnpvHigh - rnpv))));
+
+  const scenarioOutputs = useMemo(
+    () => (scenarios.length ? computeScenarios(getInputs(), scenarios, currentYear) : null),
+    [outputs, scenarios]
+  );
+
+  const split = useMemo(() => (useDeal ? dealSplit(getInputs(), currentYear) : null), [outputs, useDeal]);
+  const runDealSolver = () => {
+    setDealSolution(solveDeal(getInputs(), { kind: dealTargetKind, value: dealTargetValue }, dealLever, currentYear));
+  };
+
   const avgRoyalty = useMemo(
-    () => averageRoyalty(launchYear, loeYear, royaltyMin, royaltyMax, royaltyRampYears),
-    [launchYear, loeYear, royaltyMin, royaltyMax, royaltyRampYears]
+    () => averageRoyalty(effectiveLaunchYear, loeYear, royaltyMin, royaltyMax, royaltyRampYears),
+    [effectiveLaunchYear, loeYear, royaltyMin, royaltyMax, royaltyRampYears]
   );
 
+  // Amounts are entered in the valuation currency, so switching converts them at the configured rate
+  const handleCurrencyChange = (next: string) => {
+    const rate = fxRate(currency, next);
+    const round = (v: number) => Math.round(v * rate * 10) / 10;
+    setPeakSales(round(peakSales));
+    setEpidemiology({ ...epidemiology, annualPrice: Math.round(epidemiology.annualPrice * rate) });
+    setDealTerms(scaleDealTerms(dealTerms, rate));
+    setScenarios(scenarios.map((sc) => (sc.overrides.peakSales == null ? sc : { ...sc, overrides: { ...sc.overrides, peakSales: round(sc.overrides.peakSales) } })));
+    setCurrency(next);
+    notify(`Converted at 1 ${currency} = ${rate.toFixed(4)} ${next} (${getFxTable().version})`, 'info');
+  };
+
   // Launch/LOE coupling
   const handleLaunchYearChange = (y: number) => {
     setLaunchYear(y);
@@ -137,46 +273,43 @@ export default function Home() {
     if (y <= launchYear) setLaunchYear(y - 1);
   };
 
-  // Helpers to gather payloads
-  const getInputs = () => ({
-    peakSales, launchYear, loeYear, discountRate, taxRate, cogs, commercialSpend, workingCapital,
-    potency, selectivity, halfLife, molecularWeight, logP, bioavailability, targetValidation, targetNovelty,
-    phase, indication, royaltyMin, royaltyMax, royaltyRampYears, role
-  });
-  const getOutputs = () => ({
-    mechanismBonus, ptrs, devCostPV, ownerPV, licensorPV, rnpv, roi, baselinePos, mechanisticPos
-  });
+  const getOutputs = () => outputs;
+
+  // Same schema the API enforces, shown inline next to each field
+  const inputErrors = useMemo(() => {
+    const checked = validateInputs(getInputs());
+    return checked.ok ? {} : errorsByField(checked.errors);
+  }, [outputs]);
+  const fieldError = (...fields: string[]) => {
+    const messages = Object.entries(inputErrors).filter(([f]) => fields.some((x) => f === x || f.startsWith(`${x}.`) || f.startsWith(`${x}[`)));
+    return messages.length > 0 && (
+      <div style={{ color: 'red', fontSize: '0.8rem', marginTop: 2 }}>{messages.map(([f, m]) => <div key={f}>{m}</div>)}</div>
+    );
+  };
 
   // API calls
-  const getLoeFromApi = async (drugOrIndication: string) => {
-    const key = (drugOrIndication || indication || '').trim();
-    if (!key) return notify('Enter a drug or choose an indication', 'error');
+  // The Orange Book is keyed by product, so an indication name would never match
+  const getLoeFromApi = async (drug: string) => {
+    const key = drug.trim();
+    if (!key) return notify('Enter a trade name or active ingredient', 'error');
     try {
-      const res = await fetch(`/api/loe/${encodeURIComponent(key)}`);
+      const res = await fetch(`/api/loe/${encodeURIComponent(key)}?pediatric=${loePediatric}`);
       const data = await res.json();
       if (res.ok && typeof data.loeYear === 'number') {
-        setLoeYear(data.loeYear);
+        // The lookup reads US patents and exclusivities, so with markets it only sets the US entry
+        const us = useMarkets ? markets.findIndex((m) => m.name === 'US') : -1;
+        if (us >= 0) setMarkets(markets.map((m, k) => (k === us ? { ...m, loeYear: data.loeYear } : m)));
+        else setLoeYear(data.loeYear);
         setLoeSource(data.source || 'placeholder');
-        notify(`LOE set to ${data.loeYear}`, 'success');
-      } else notify('LOE lookup returned no year.', 'error');
+        setLoeDetail(data.patents ? {
+          patents: data.patents.length,
+          exclusivities: [...new Set<string>((data.exclusivities ?? []).map((x: { code: string }) => x.code))],
+        } : null);
+        notify(`${us >= 0 ? 'US LOE' : 'LOE'} set to ${data.loeYear}`, 'success');
+      } else notify(data?.error ?? 'LOE lookup returned no year.', 'error');
     } catch { notify('LOE lookup failed.', 'error'); }
   };
 
-  const normalizePhase = (p?: string) => {
-    if (!p) return;
-    const t = p.toLowerCase();
-    if (t.includes('phase 1') || t.includes('phase i')) return 'Phase I';
-    if (t.includes('phase 2') || t.includes('phase ii')) return 'Phase II';
-    if (t.includes('phase 3') || t.includes('phase iii')) return 'Phase III';
-    if (t.includes('nda') || t.includes('bla')) return 'NDA';
-    if (t.includes('approved')) return 'Approved';
-    if (t.includes('pre') || t.includes('nonclinical')) return 'Preclinical';
-    if (t.includes('2/3')) return 'Phase III';
-    if (t.includes('1/2')) return 'Phase II';
-    return;
-    // (If none match, leave as-is; user can adjust)
-  };
-
   const getTrialFromApi = async (id: string) => {
     const key = id?.trim();
     if (!key) return notify('Enter an NCT ID first.', 'error');
@@ -184,26 +317,64 @@ export default function Home() {
       const res = await fetch(`/api/trial/${encodeURIComponent(key)}`);
       const data = await res.json();
       if (!res.ok) return notify(data?.error ?? 'Trial lookup failed.', 'error');
-      const mapped = normalizePhase(data.phase);
-      if (mapped) setPhase(mapped);
+      // Phase is already mapped onto our phase names server-side
+      if (data.phase) setPhase(data.phase);
+      setTrial(data);
       setTrialSponsor(data.sponsor ?? null);
       setTrialStartDate(data.startDate ?? null);
       notify('Trial fetched.', 'success');
     } catch { notify('Trial lookup failed.', 'error'); }
   };
 
+  const runSimulation = async () => {
+    const peak = outputs.epidemiology?.peakSales ?? peakSales;
+    const simulation = {
+      iterations: simIterations,
+      seed: simSeed,
+      distributions: {
+        peakSales: { kind: 'triangular', min: peak * (1 - simSalesSpread), mode: peak, max: peak * (1 + simSalesSpread) },
+        launchYear: { kind: 'uniform', min: effectiveLaunchYear, max: effectiveLaunchYear + simLaunchSlip },
+        discountRate: { kind: 'normal', mean: discountRate, sd: simDiscountSd },
+      },
+    };
+    try {
+      const res = await fetch('/api/simulate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ inputs: getInputs(), simulation }),
+      });
+      const data = await res.json();
+      if (!res.ok) return notify(data?.error ?? 'Simulation failed.', 'error');
+      setSimResult(data);
+    } catch { notify('Simulation failed.', 'error'); }
+  };
+
+  // Launch = primary completion + the phases that remain after the current one
+  const launchFromPrimaryCompletion = () => {
+    const completion = fractionalYear(trial?.primaryCompletionDate);
+    if (completion == null) return notify('Trial has no primary completion date.', 'error');
+    const after = (outputs.phaseBreakdown ?? []).slice(1).reduce((sum, p) => sum + p.durationYears, 0);
+    const year = completion + after;
+    setDeriveLaunchYear(false);
+    handleLaunchYearChange(Math.round(year * 2) / 2);
+    notify(`Launch set to ${Math.round(year * 2) / 2}`, 'success');
+  };
+
   const saveValuation = async () => {
     setSaveError(null);
+    if (Object.keys(inputErrors).length) return setSaveError('Fix the highlighted fields before saving.');
     try {
-      const res = await fetch('/api/valuations', {
-        method: 'POST',
+      // Once saved, further saves append a revision to the same valuation
+      const res = await fetch(savedId ? `/api/valuation/${encodeURIComponent(savedId)}` : '/api/valuations', {
+        method: savedId ? 'PUT' : 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ inputs: getInputs(), outputs: getOutputs(), nctId }),
+        body: JSON.stringify({ inputs: getInputs(), nctId, scenarios, ...(savedId ? {} : { workspaceId }) }),
       });
       const data = await res.json();
-      if (!res.ok) throw new Error(data?.error || `Failed: ${res.status}`);
-      setShareLink(`${window.location.origin}/api/valuation/share/${data.shareSlug}`);
-      notify('Valuation saved.', 'success');
+      if (!res.ok) throw new Error(data?.fields ? data.fields.map((f: { message: string }) => f.message).join('; ') : data?.error || `Failed: ${res.status}`);
+      setSavedId(data.id);
+      setRevision(data.revision ?? 1);
+      notify(savedId ? `Saved revision ${data.revision}.` : 'Valuation saved.', 'success');
     } catch (e: any) {
       setSaveError(e.message || 'Error saving valuation');
       notify('Save failed.', 'error');
@@ -217,22 +388,44 @@ export default function Home() {
       const data = await res.json();
       if (!res.ok) throw new Error(data?.error || `Failed: ${res.status}`);
 
-      const i = data.inputs || {};
+      // Reject the whole document rather than half-filling the form from a bad save
+      const checked = validateInputs(data.inputs);
+      if (!checked.ok) throw new Error(`Saved inputs are invalid: ${checked.errors.map((e) => e.message).join('; ')}`);
+      const checkedScenarios = validateScenarios(checked.value, data.scenarios);
+      if (!checkedScenarios.ok) throw new Error(`Saved scenarios are invalid: ${checkedScenarios.errors.map((e) => e.message).join('; ')}`);
+      const i = checked.value;
       setPeakSales(i.peakSales); setLaunchYear(i.launchYear); setLoeYear(i.loeYear);
       setDiscountRate(i.discountRate); setTaxRate(i.taxRate); setCogs(i.cogs);
       setCommercialSpend(i.commercialSpend); setWorkingCapital(i.workingCapital);
       setPotency(i.potency); setSelectivity(i.selectivity); setHalfLife(i.halfLife);
       setMolecularWeight(i.molecularWeight); setLogP(i.logP); setBioavailability(i.bioavailability);
       setTargetValidation(i.targetValidation); setTargetNovelty(i.targetNovelty);
-      setPhase(i.phase); setIndication(i.indication);
+      setPhase(i.phase); setIndication(i.indication); setModality(i.modality ?? 'Small molecule');
+      setTarget(i.target ?? ''); setMechanism(i.mechanism ?? '');
       setRoyaltyMin(i.royaltyMin ?? 5); setRoyaltyMax(i.royaltyMax ?? 12);
       setRoyaltyRampYears(i.royaltyRampYears ?? 3);
-      setRole((i.role as Role) ?? 'OWNER');
-
-      if (data.outputs?.baselinePos != null) setBaselinePos(data.outputs.baselinePos);
-      if (data.outputs?.mechanisticPos != null) setMechanisticPos(data.outputs.mechanisticPos);
+      setRole(i.role ?? 'OWNER');
+      setDeriveLaunchYear(i.deriveLaunchYear ?? false);
+      const curve: SalesCurve = i.salesCurve ?? { kind: 'linear', rampYears: 4 };
+      setCurveKind(curve.kind);
+      if (curve.kind === 'linear') setRampYears(curve.rampYears);
+      if (curve.kind === 'logistic') { setYearsToPeak(curve.yearsToPeak); setSteepness(curve.steepness ?? 1.5); }
+      if (curve.kind === 'bass') { setBassP(curve.p); setBassQ(curve.q); }
+      if (curve.kind === 'custom') setCustomShares(curve.shares.join(', '));
+      setUseDeal(!!i.dealTerms);
+      if (i.dealTerms) setDealTerms(i.dealTerms);
+      setErosionText((i.erosion ?? []).map((v) => Math.round(v * 100)).join(', '));
+      setUseMarkets(!!i.markets?.length);
+      if (i.markets?.length) setMarkets(i.markets);
+      setUseEpidemiology(!!i.epidemiology);
+      if (i.epidemiology) setEpidemiology(i.epidemiology);
+      setCurrency(i.currency ?? 'USD'); setInflation(i.inflation ?? 0);
+      setDiscountBasis(i.discountBasis ?? 'nominal');
+      setDiscountCurveText((i.discountCurve ?? []).map((v) => +(v * 100).toFixed(2)).join(', '));
 
-      setShareLink(`${window.location.origin}/api/valuation/share/${data.shareSlug}`);
+      setScenarios(checkedScenarios.value);
+      setSavedId(data.id);
+      setRevision(data.revision ?? 1);
       notify('Valuation loaded.', 'success');
     } catch (e: any) {
       setLoadError(e.message || 'Error loading valuation');
@@ -240,9 +433,27 @@ export default function Home() {
     }
   };
 
+  // Assistant-proposed input changes; only the fields the patch names are touched
+  const applyInputPatch = (patch: InputPatch) => {
+    const setters: Record<NumericField, (v: number) => void> = {
+      peakSales: setPeakSales, launchYear: setLaunchYear, loeYear: setLoeYear, discountRate: setDiscountRate,
+      taxRate: setTaxRate, cogs: setCogs, commercialSpend: setCommercialSpend, workingCapital: setWorkingCapital,
+      potency: setPotency, selectivity: setSelectivity, halfLife: setHalfLife, molecularWeight: setMolecularWeight,
+      logP: setLogP, bioavailability: setBioavailability, targetValidation: setTargetValidation, targetNovelty: setTargetNovelty,
+      royaltyMin: setRoyaltyMin, royaltyMax: setRoyaltyMax, royaltyRampYears: setRoyaltyRampYears, inflation: setInflation,
+    };
+    for (const [field, value] of Object.entries(patch)) {
+      if (field === 'deriveLaunchYear') setDeriveLaunchYear(!!value);
+      else if (typeof value === 'number') setters[field as NumericField]?.(value);
+    }
+    if (patch.launchYear != null && patch.deriveLaunchYear == null) setDeriveLaunchYear(false);
+    notify('Assistant changes applied.', 'success');
+  };
+
   // Exports
   const exportJSON = () => {
-    const blob = new Blob([JSON.stringify({ inputs: getInputs(), outputs: getOutputs() }, null, 2)], { type: 'application/json' });
+    const payload = { inputs: getInputs(), outputs: getOutputs(), ...(scenarioOutputs ? { scenarios, scenarioOutputs } : {}) };
+    const blob = new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a'); a.href = url; a.download = `valuation_${Date.now()}.json`; a.click();
     URL.revokeObjectURL(url);
@@ -253,15 +464,44 @@ export default function Home() {
     const header = [
       'timestamp','role','phase','indication','peakSales','launchYear','loeYear','discountRate','taxRate','cogs','commercialSpend','workingCapital',
       'potency','selectivity','halfLife','molecularWeight','logP','bioavailability','targetValidation','targetNovelty',
-      'mechanismBonus','ptrs','devCostPV','ownerPV','licensorPV','rnpv','roi','baselinePos','mechanisticPos','avgRoyaltyPct','royaltyMin','royaltyMax','royaltyRampYears'
+      'mechanismBonus','ptrs','devCostPV','ownerPV','licensorPV','rnpv','roi','irr','paybackYear','peakFunding','peakFundingYear','enpv','abandonmentOptionValue','baselinePos','mechanisticPos','avgRoyaltyPct','royaltyMin','royaltyMax','royaltyRampYears','salesCurve','erosion','currency','inflation','discountBasis','discountCurve','markets'
     ];
     const row = [
-      new Date().toISOString(), i.role, i.phase, i.indication, i.peakSales, i.launchYear, i.loeYear, i.discountRate, i.taxRate, i.cogs, i.commercialSpend, i.workingCapital,
+      new Date().toISOString(), i.role, i.phase, i.indication, o.epidemiology?.peakSales ?? i.peakSales, o.launchYear ?? i.launchYear, i.loeYear, i.discountRate, i.taxRate, i.cogs, i.commercialSpend, i.workingCapital,
       i.potency, i.selectivity, i.halfLife, i.molecularWeight, i.logP, i.bioavailability, i.targetValidation, i.targetNovelty,
-      o.mechanismBonus, o.ptrs, o.devCostPV, o.ownerPV, o.licensorPV, o.rnpv, o.roi, o.baselinePos, o.mechanisticPos,
-      averageRoyalty(launchYear, loeYear, royaltyMin, royaltyMax, royaltyRampYears).toFixed(2), i.royaltyMin, i.royaltyMax, i.royaltyRampYears
+      o.mechanismBonus, o.ptrs, o.devCostPV, o.ownerPV, o.licensorPV, o.rnpv, o.roi ?? '', o.irr ?? '', o.paybackYear ?? '', o.peakFunding, o.peakFundingYear,
+      o.decisionTree?.enpv ?? '', o.decisionTree?.optionValue ?? '', o.baselinePos, o.mechanisticPos,
+      averageRoyalty(effectiveLaunchYear, loeYear, royaltyMin, royaltyMax, royaltyRampYears).toFixed(2), i.royaltyMin, i.royaltyMax, i.royaltyRampYears,
+      describeSalesCurve(o.epidemiology?.salesCurve ?? i.salesCurve), (i.erosion ?? []).join(';'), i.currency ?? 'USD', i.inflation ?? 0, i.discountBasis ?? 'nominal', (i.discountCurve ?? []).join(';'),
+      (i.markets ?? []).map((m) => `${m.name}(share=${m.peakShare};lag=${m.launchLag};price=${m.pricingFactor};loe=${m.loeYear ?? i.loeYear})`).join(' ')
+    ];
+    const scheduleHeader = [
+      'year', 'revenue', 'productSales', 'royaltyRate', 'cogs', 'commercialSpend', 'workingCapitalChange', 'tax', 'netCashflow', 'discountFactor', 'pv', 'cumulativePv',
+      ...scheduleMarkets.map((m) => `sales:${m}`),
     ];
-    const csv = [header.join(','), row.join(',')].join('\n');
+    const scheduleRows = (o.schedule ?? []).map((r) => csvRow([
+      r.year, r.revenue, r.productSales ?? '', r.royaltyRate ?? '', r.cogs, r.commercialSpend, r.workingCapitalChange,
+      r.tax, r.netCashflow, r.discountFactor, r.pv, r.cumulativePv, ...scheduleMarkets.map((m) => r.marketSales?.[m] ?? 0),
+    ]));
+    const gateRows = o.decisionTree?.gates.length
+      ? ['', 'gate,year,probabilityOfReaching,costPV,continueValue,decision,optionValue',
+        ...o.decisionTree.gates.map((g) => csvRow([
+          g.phase, g.year, g.probabilityOfReaching, g.costPV, g.continueValue, g.abandon ? 'abandon' : 'continue', g.optionValue,
+        ]))]
+      : [];
+    const funnelRows = o.epidemiology
+      ? ['', 'funnel step,value', ...o.epidemiology.funnel.map((f) => csvRow([f.label, f.value]))]
+      : [];
+    const scenarioRows = scenarioOutputs
+      ? ['', 'scenario,weight,overrides,ptrs,ownerPV,licensorPV,rnpv',
+        ...scenarioOutputs.results.map((r, k) => csvRow([
+          r.name, r.weight,
+          Object.entries(scenarios[k].overrides).map(([f, v]) => `${f}=${v}`).join(';'),
+          r.outputs.ptrs, r.outputs.ownerPV, r.outputs.licensorPV, r.outputs.rnpv,
+        ])),
+        `expected,,,,,,${scenarioOutputs.expectedRnpv}`]
+      : [];
+    const csv = [csvRow(header), csvRow(row), '', csvRow(scheduleHeader), ...scheduleRows, ...gateRows, ...funnelRows, ...scenarioRows].join('\n');
     const blob = new Blob([csv], { type: 'text/csv' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a'); a.href = url; a.download = `valuation_${Date.now()}.csv`; a.click();
@@ -272,6 +512,8 @@ export default function Home() {
   return (
     <main style={{ padding: '2rem', maxWidth: '980px', margin: '0 auto', fontFamily: 'sans-serif' }}>
       <h1 style={{ fontSize: '2rem', marginBottom: '1rem' }}>Drug Valuation Tool</h1>
+      <p style={{ marginBottom: '1rem' }}><Link href="/portfolios">Portfolio dashboard →</Link></p>
+      <AccountBar workspaceId={workspaceId} onWorkspaceChange={setWorkspaceId} />
       {toastMsg && <div style={{ marginBottom: '0.75rem' }}><Toast message={toastMsg} kind={toastKind} /></div>}
 
       {/* Mode */}
@@ -282,11 +524,11 @@ export default function Home() {
       </section>
 
       {/* Phase & Indication */}
-      <section style={{ marginBottom: '1rem', display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
+      <section style={{ marginBottom: '1rem', display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '1rem' }}>
         <div>
           <label>Phase</label>
           <select value={phase} onChange={(e) => setPhase(e.target.value)} style={{ width: '100%', padding: '0.4rem' }}>
-            {Object.keys(devCosts).map(p => <option key={p} value={p}>{p}</option>)}
+            {phases.map(p => <option key={p} value={p}>{p}</option>)}
           </select>
         </div>
         <div>
@@ -299,28 +541,130 @@ export default function Home() {
             <option>Other</option>
           </select>
         </div>
+        <div>
+          <label>Modality</label>
+          <select value={modality} onChange={(e) => setModality(e.target.value)} style={{ width: '100%', padding: '0.4rem' }}>
+            <option>Small molecule</option>
+            <option>Biologic</option>
+            <option>Vaccine</option>
+          </select>
+        </div>
+        <div><label>Target</label><input type="text" placeholder="e.g. KRAS G12C" value={target} onChange={(e) => setTarget(e.target.value)} style={{ width: '100%', padding: '0.4rem' }} /></div>
+        <div><label>Mechanism</label><input type="text" placeholder="e.g. covalent inhibitor" value={mechanism} onChange={(e) => setMechanism(e.target.value)} style={{ width: '100%', padding: '0.4rem' }} /></div>
       </section>
 
       {/* Financial & Licensing Inputs */}
       <section style={{ marginBottom: '1rem', display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
-        <div><label>Peak annual sales (M)</label><input type="number" min={0} value={peakSales} onChange={(e) => setPeakSales(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} /></div>
-        <div><label>Launch year</label><input type="number" min={currentYear} value={launchYear} onChange={(e) => handleLaunchYearChange(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} /></div>
+        <div>
+          <label>Peak annual sales ({currency} M)</label>
+          <input type="number" min={0} value={outputs.epidemiology ? Math.round(outputs.epidemiology.peakSales) : peakSales} disabled={useEpidemiology} onChange={(e) => setPeakSales(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} />
+          {fieldError('peakSales')}
+          <label style={{ fontSize: '0.85rem' }}>
+            <input type="checkbox" checked={useEpidemiology} onChange={(e) => { if (!e.target.checked && outputs.epidemiology) setPeakSales(Math.round(outputs.epidemiology.peakSales)); setUseEpidemiology(e.target.checked); }} /> Build from patient funnel
+          </label>
+        </div>
+        <div>
+          <label>Launch year</label>
+          <input type="number" min={currentYear} step="0.5" value={effectiveLaunchYear} disabled={deriveLaunchYear} onChange={(e) => handleLaunchYearChange(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} />
+          {fieldError('launchYear')}
+          <label style={{ fontSize: '0.85rem' }}>
+            <input type="checkbox" checked={deriveLaunchYear} onChange={(e) => { if (!e.target.checked) setLaunchYear(effectiveLaunchYear); setDeriveLaunchYear(e.target.checked); }} /> Derive from phase timeline
+          </label>
+        </div>
         <div>
           <label>LOE year</label>
           <input type="number" min={launchYear + 1} value={loeYear} onChange={(e) => handleLoeYearChange(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} />
-          <button type="button" onClick={() => getLoeFromApi(indication)} style={{ marginTop: '0.5rem', padding: '0.4rem' }}>Get LOE</button>
+          {fieldError('loeYear')}
+          <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
+            <input type="text" placeholder="Trade name or ingredient" value={drugName} onChange={(e) => setDrugName(e.target.value)} style={{ flex: 1, padding: '0.4rem' }} />
+            <button type="button" onClick={() => getLoeFromApi(drugName)} style={{ padding: '0.4rem' }}>Get LOE</button>
+          </div>
+          <label style={{ fontSize: '0.85rem' }}><input type="checkbox" checked={loePediatric} onChange={(e) => setLoePediatric(e.target.checked)} /> Include pediatric exclusivity</label>
           {loeSource && <div style={{ fontSize: '0.85rem', color: '#555', marginTop: 4 }}>Source: {loeSource}</div>}
+          {loeDetail && (
+            <div style={{ fontSize: '0.85rem', color: '#555' }}>
+              {loeDetail.patents} patents{loeDetail.exclusivities.length ? `; exclusivities: ${loeDetail.exclusivities.join(', ')}` : ''}
+            </div>
+          )}
+        </div>
+        <div><label>Discount rate</label><input type="number" min={0} max={1} step="0.01" value={discountRate} onChange={(e) => setDiscountRate(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} />{fieldError('discountRate')}</div>
+        <div>
+          <label>Currency</label>
+          <select value={currency} onChange={(e) => handleCurrencyChange(e.target.value)} style={{ width: '100%', padding: '0.4rem' }}>
+            {currencies().map((c) => <option key={c}>{c}</option>)}
+          </select>
+          <div style={{ fontSize: '0.85rem', color: '#555', marginTop: 4 }}>FX {fxVersion}; amounts convert when switched</div>
+          {fieldError('currency')}
+        </div>
+        <div>
+          <label>Inflation / price change (per year)</label>
+          <input type="number" min={-0.5} max={0.5} step="0.005" value={inflation} onChange={(e) => setInflation(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} />
+          <label style={{ fontSize: '0.85rem' }}><input type="radio" checked={discountBasis === 'nominal'} onChange={() => setDiscountBasis('nominal')} /> Nominal</label>{' '}
+          <label style={{ fontSize: '0.85rem' }}><input type="radio" checked={discountBasis === 'real'} onChange={() => setDiscountBasis('real')} /> Real (today&apos;s money, real discount rate)</label>
+          {fieldError('inflation')}
+        </div>
+        <div>
+          <label>Discount rate curve (% by year from today)</label>
+          <input type="text" placeholder="blank = flat discount rate" value={discountCurveText} onChange={(e) => setDiscountCurveText(e.target.value)} style={{ width: '100%', padding: '0.4rem' }} />
+          {fieldError('discountCurve')}
+        </div>
+        <div><label>Tax rate</label><input type="number" min={0} max={1} step="0.01" value={taxRate} onChange={(e) => setTaxRate(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} />{fieldError('taxRate')}</div>
+        <div><label>COGS (fraction of sales)</label><input type="number" min={0} max={1} step="0.01" value={cogs} onChange={(e) => setCogs(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} />{fieldError('cogs')}</div>
+        <div><label>Commercial spend (fraction)</label><input type="number" min={0} max={1} step="0.01" value={commercialSpend} onChange={(e) => setCommercialSpend(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} />{fieldError('commercialSpend')}</div>
+        <div><label>Working capital (fraction)</label><input type="number" min={0} max={1} step="0.01" value={workingCapital} onChange={(e) => setWorkingCapital(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} />{fieldError('workingCapital')}</div>
+
+        {/* Sales curve */}
+        <div>
+          <label>Sales curve{useEpidemiology ? ' (derived from the patient funnel)' : ''}</label>
+          <select value={curveKind} disabled={useEpidemiology} onChange={(e) => setCurveKind(e.target.value as SalesCurve['kind'])} style={{ width: '100%', padding: '0.4rem' }}>
+            <option value="linear">Linear ramp</option>
+            <option value="logistic">Logistic (S-curve)</option>
+            <option value="bass">Bass diffusion</option>
+            <option value="custom">Custom (share of peak by year)</option>
+          </select>
+          <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
+            {curveKind === 'linear' && <input type="number" min={0} title="Ramp years" value={rampYears} onChange={(e) => setRampYears(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} />}
+            {curveKind === 'logistic' && <>
+              <input type="number" min={1} title="Years to peak" value={yearsToPeak} onChange={(e) => setYearsToPeak(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} />
+              <input type="number" min={0.1} step="0.1" title="Steepness" value={steepness} onChange={(e) => setSteepness(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} />
+            </>}
+            {curveKind === 'bass' && <>
+              <input type="number" min={0.001} step="0.01" title="Innovation (p)" value={bassP} onChange={(e) => setBassP(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} />
+              <input type="number" min={0} step="0.05" title="Imitation (q)" value={bassQ} onChange={(e) => setBassQ(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} />
+            </>}
+            {curveKind === 'custom' && <input type="text" title="Share of peak per year since launch" value={customShares} onChange={(e) => setCustomShares(e.target.value)} style={{ width: '100%', padding: '0.4rem' }} />}
+          </div>
+          {fieldError('salesCurve')}
+        </div>
+        <div>
+          <label>Post-LOE erosion (% lost, years 1..n)</label>
+          <input type="text" placeholder="blank = cliff to zero" value={erosionText} onChange={(e) => setErosionText(e.target.value)} style={{ width: '100%', padding: '0.4rem' }} />
         </div>
-        <div><label>Discount rate</label><input type="number" min={0} max={1} step="0.01" value={discountRate} onChange={(e) => setDiscountRate(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} /></div>
-        <div><label>Tax rate</label><input type="number" min={0} max={1} step="0.01" value={taxRate} onChange={(e) => setTaxRate(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} /></div>
-        <div><label>COGS (fraction of sales)</label><input type="number" min={0} max={1} step="0.01" value={cogs} onChange={(e) => setCogs(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} /></div>
-        <div><label>Commercial spend (fraction)</label><input type="number" min={0} max={1} step="0.01" value={commercialSpend} onChange={(e) => setCommercialSpend(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} /></div>
-        <div><label>Working capital (fraction)</label><input type="number" min={0} max={1} step="0.01" value={workingCapital} onChange={(e) => setWorkingCapital(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} /></div>
 
         {/* Licensing */}
-        <div><label>Royalty Min (%)</label><input type="number" value={royaltyMin} onChange={(e) => setRoyaltyMin(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} /></div>
-        <div><label>Royalty Max (%)</label><input type="number" value={royaltyMax} onChange={(e) => setRoyaltyMax(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} /></div>
-        <div><label>Royalty Ramp Years</label><input type="number" min={0} max={10} value={royaltyRampYears} onChange={(e) => setRoyaltyRampYears(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} /></div>
+        <div><label>Royalty Min (%)</label><input type="number" value={royaltyMin} onChange={(e) => setRoyaltyMin(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} />{fieldError('royaltyMin')}</div>
+        <div><label>Royalty Max (%)</label><input type="number" value={royaltyMax} onChange={(e) => setRoyaltyMax(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} />{fieldError('royaltyMax')}</div>
+        <div><label>Royalty Ramp Years</label><input type="number" min={0} max={10} value={royaltyRampYears} onChange={(e) => setRoyaltyRampYears(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} />{fieldError('royaltyRampYears')}</div>
+
+        <div style={{ gridColumn: '1 / -1' }}>
+          <label><input type="checkbox" checked={useDeal} onChange={(e) => setUseDeal(e.target.checked)} /> Use deal terms (tiered royalties, milestones, upfront) for Licensor value</label>
+          {useDeal && <div style={{ marginTop: '0.5rem' }}><DealTermsEditor value={dealTerms} onChange={setDealTerms} phases={phases} /></div>}
+          {useDeal && fieldError('dealTerms')}
+        </div>
+
+        <div style={{ gridColumn: '1 / -1' }}>
+          <label><input type="checkbox" checked={useMarkets} onChange={(e) => setUseMarkets(e.target.checked)} /> Model launch markets separately (peak sales = global peak at the reference price)</label>
+          {useMarkets && <div style={{ marginTop: '0.5rem' }}><MarketsEditor value={markets} onChange={setMarkets} loeYear={loeYear} /></div>}
+          {useMarkets && fieldError('markets')}
+        </div>
+
+        {useEpidemiology && (
+          <div style={{ gridColumn: '1 / -1' }}>
+            <label>Patient funnel (peak sales and uptake curve are derived from it)</label>
+            <div style={{ marginTop: '0.5rem' }}><EpidemiologyEditor value={epidemiology} onChange={setEpidemiology} currency={currency} /></div>
+            {fieldError('epidemiology')}
+          </div>
+        )}
 
         {/* Trial */}
         <div>
@@ -331,6 +675,16 @@ export default function Home() {
             <div style={{ fontSize: '0.85rem', color: '#555', marginTop: 4 }}>
               {trialSponsor && <div><strong>Sponsor:</strong> {trialSponsor}</div>}
               {trialStartDate && <div><strong>Start:</strong> {trialStartDate}</div>}
+              {trial?.overallStatus && <div><strong>Status:</strong> {trial.overallStatus}</div>}
+              {trial?.enrollment != null && <div><strong>Enrollment:</strong> {trial.enrollment}</div>}
+              {trial && trial.conditions.length > 0 && <div><strong>Conditions:</strong> {trial.conditions.join(', ')}</div>}
+              {trial && trial.interventions.length > 0 && <div><strong>Interventions:</strong> {trial.interventions.map((x) => x.name).join(', ')}</div>}
+              {trial?.primaryCompletionDate && (
+                <div>
+                  <strong>Primary completion:</strong> {trial.primaryCompletionDate}{' '}
+                  <button type="button" onClick={launchFromPrimaryCompletion} style={{ padding: '0.2rem 0.4rem', fontSize: '0.8rem' }}>Use for launch year</button>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -340,14 +694,14 @@ export default function Home() {
       <section style={{ marginBottom: '1rem' }}>
         <h2 style={{ fontSize: '1.25rem', marginBottom: '0.5rem' }}>Mechanistic Properties</h2>
         <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: '1rem' }}>
-          <div><label>Potency (IC50 nM)</label><input type="number" min={1} value={potency} onChange={(e) => setPotency(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} /></div>
-          <div><label>Selectivity (fold)</label><input type="number" min={1} value={selectivity} onChange={(e) => setSelectivity(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} /></div>
-          <div><label>Half-life (hr)</label><input type="number" min={0} value={halfLife} onChange={(e) => setHalfLife(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} /></div>
-          <div><label>Molecular weight (Da)</label><input type="number" min={0} value={molecularWeight} onChange={(e) => setMolecularWeight(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} /></div>
-          <div><label>LogP</label><input type="number" step="0.1" value={logP} onChange={(e) => setLogP(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} /></div>
-          <div><label>Bioavailability (0–1)</label><input type="number" min={0} max={1} step="0.01" value={bioavailability} onChange={(e) => setBioavailability(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} /></div>
-          <div><label>Target validation (0–1)</label><input type="number" min={0} max={1} step="0.01" value={targetValidation} onChange={(e) => setTargetValidation(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} /></div>
-          <div><label>Target novelty (0–1)</label><input type="number" min={0} max={1} step="0.01" value={targetNovelty} onChange={(e) => setTargetNovelty(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} /></div>
+          <div><label>Potency (IC50 nM)</label><input type="number" min={1} value={potency} onChange={(e) => setPotency(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} />{fieldError('potency')}</div>
+          <div><label>Selectivity (fold)</label><input type="number" min={1} value={selectivity} onChange={(e) => setSelectivity(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} />{fieldError('selectivity')}</div>
+          <div><label>Half-life (hr)</label><input type="number" min={0} value={halfLife} onChange={(e) => setHalfLife(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} />{fieldError('halfLife')}</div>
+          <div><label>Molecular weight (Da)</label><input type="number" min={0} value={molecularWeight} onChange={(e) => setMolecularWeight(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} />{fieldError('molecularWeight')}</div>
+          <div><label>LogP</label><input type="number" step="0.1" value={logP} onChange={(e) => setLogP(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} />{fieldError('logP')}</div>
+          <div><label>Bioavailability (0–1)</label><input type="number" min={0} max={1} step="0.01" value={bioavailability} onChange={(e) => setBioavailability(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} />{fieldError('bioavailability')}</div>
+          <div><label>Target validation (0–1)</label><input type="number" min={0} max={1} step="0.01" value={targetValidation} onChange={(e) => setTargetValidation(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} />{fieldError('targetValidation')}</div>
+          <div><label>Target novelty (0–1)</label><input type="number" min={0} max={1} step="0.01" value={targetNovelty} onChange={(e) => setTargetNovelty(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} />{fieldError('targetNovelty')}</div>
         </div>
       </section>
 
@@ -359,32 +713,356 @@ export default function Home() {
           <div><strong>PTRS:</strong> {ptrs.toFixed(2)}</div>
           <div><strong>Baseline PoS:</strong> {(baselinePos * 100).toFixed(1)}%</div>
           <div><strong>Mechanistic PoS:</strong> {(mechanisticPos * 100).toFixed(1)}%</div>
-          <div><strong>Owner PV (success):</strong> ${Math.round(ownerPV)}M</div>
-          <div><strong>Licensor PV (success):</strong> ${Math.round(licensorPV)}M</div>
-          <div><strong>Selected PV (mode):</strong> ${Math.round(selectedPV)}M</div>
-          <div><strong>rNPV:</strong> ${Math.round(rnpv)}M</div>
-          <div><strong>ROI:</strong> {roi}%</div>
+          <div><strong>Owner PV (success):</strong> {money(ownerPV)}</div>
+          <div><strong>Licensor PV (success):</strong> {money(licensorPV)}</div>
+          <div><strong>Selected PV (mode):</strong> {money(selectedPV)}</div>
+          <div><strong>rNPV:</strong> {money(rnpv)}</div>
+          <div><strong>ROI:</strong> {roi != null ? `${roi}%` : 'n/a'}</div>
+          <div><strong>Risk-adj. IRR:</strong> {outputs.irr != null ? `${(outputs.irr * 100).toFixed(1)}%` : 'n/a'}</div>
+          <div><strong>Discounted payback:</strong> {outputs.paybackYear ?? 'never'}</div>
+          <div><strong>Peak funding need:</strong> {money(outputs.peakFunding ?? 0)}{outputs.peakFundingYear && (outputs.peakFunding ?? 0) > 0 ? ` (${outputs.peakFundingYear})` : ''}</div>
+          {outputs.decisionTree && <div><strong>eNPV (with abandonment):</strong> {money(outputs.decisionTree.enpv)}</div>}
           <div><strong>Avg Royalty (est.):</strong> {avgRoyalty.toFixed(2)}%</div>
+          <div><strong>Benchmarks:</strong> {outputs.benchmarkVersion}</div>
+          {outputs.deal && <>
+            <div><strong>Deal upfront (after tax):</strong> {money(outputs.deal.upfrontPV)}</div>
+            <div><strong>Deal milestones (risked PV):</strong> {money(outputs.deal.milestonesPV)}</div>
+            <div><strong>Deal royalties (unrisked PV):</strong> {money(outputs.deal.royaltyPV)}</div>
+          </>}
         </div>
+
+        {outputs.mechanism && (
+          <>
+            <h3 style={{ fontSize: '1rem', margin: '1rem 0 0.5rem' }}>
+              Mechanism bonus ({outputs.mechanism.version}{outputs.mechanism.modality !== '*' ? `, ${outputs.mechanism.modality} rules` : ''})
+            </h3>
+            <div style={{ fontSize: '0.9rem', marginBottom: '0.5rem' }}>
+              Baseline PoS {(baselinePos * 100).toFixed(1)}% × bonus {mechanismBonus.toFixed(2)}x = PTRS {(ptrs * 100).toFixed(1)}%
+              {baselinePos * mechanismBonus > 1 && ' (capped at 100%)'}
+            </div>
+            {ptrsMove && (
+              <div style={{ fontSize: '0.85rem', color: '#555', marginBottom: '0.5rem' }}>
+                PTRS moved {(ptrsMove.from * 100).toFixed(1)}% → {(ptrsMove.to * 100).toFixed(1)}%{ptrsMove.reasons.length ? `: ${ptrsMove.reasons.join('; ')}` : ''}
+              </div>
+            )}
+            <table style={{ borderCollapse: 'collapse', fontSize: '0.85rem', width: '100%' }}>
+              <thead>
+                <tr>
+                  {['Rule', 'Value', 'Contribution', 'Why'].map((h) => (
+                    <th key={h} style={{ padding: '0.25rem 0.5rem', textAlign: 'left' }}>{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {outputs.mechanism.contributions.map((c) => (
+                  <tr key={c.ruleId} style={{ color: c.delta === 0 ? '#888' : undefined }}>
+                    <td style={{ padding: '0.25rem 0.5rem' }}>{c.label}</td>
+                    <td style={{ padding: '0.25rem 0.5rem' }}>{c.value}</td>
+                    <td style={{ padding: '0.25rem 0.5rem', color: c.delta > 0 ? '#047857' : c.delta < 0 ? '#b91c1c' : undefined }}>
+                      {c.delta > 0 ? '+' : ''}{c.delta.toFixed(2)}
+                    </td>
+                    <td style={{ padding: '0.25rem 0.5rem' }}>{c.note ?? 'neutral'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div style={{ fontSize: '0.8rem', color: '#666', marginTop: 4 }}>
+              Base {outputs.mechanism.base.toFixed(2)} + contributions = {outputs.mechanism.raw.toFixed(2)}
+              {outputs.mechanism.raw !== outputs.mechanism.bonus && `, clamped to ${outputs.mechanism.bonus.toFixed(2)}`}
+            </div>
+          </>
+        )}
+
+        {outputs.phaseBreakdown && outputs.phaseBreakdown.length > 0 && (
+          <>
+            <h3 style={{ fontSize: '1rem', margin: '1rem 0 0.5rem' }}>Development plan</h3>
+            <table style={{ borderCollapse: 'collapse', fontSize: '0.85rem', width: '100%' }}>
+              <thead>
+                <tr>
+                  {['Phase', 'Start', 'Years', `Cost (${currency} M)`, 'P(reach)', 'P(pass)', `Risked cost PV (${currency} M)`].map((h) => (
+                    <th key={h} style={{ padding: '0.25rem 0.5rem', textAlign: 'left' }}>{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {outputs.phaseBreakdown.map((p) => (
+                  <tr key={p.phase}>
+                    <td style={{ padding: '0.25rem 0.5rem' }}>{p.phase}</td>
+                    <td style={{ padding: '0.25rem 0.5rem' }}>{(currentYear + p.startOffsetYears).toFixed(1)}</td>
+                    <td style={{ padding: '0.25rem 0.5rem' }}>{p.durationYears}</td>
+                    <td style={{ padding: '0.25rem 0.5rem' }}>{p.cost}</td>
+                    <td style={{ padding: '0.25rem 0.5rem' }}>{(p.probabilityOfReaching * 100).toFixed(1)}%</td>
+                    <td style={{ padding: '0.25rem 0.5rem' }}>{(p.transitionProbability * 100).toFixed(0)}%</td>
+                    <td style={{ padding: '0.25rem 0.5rem' }}>{p.costPV.toFixed(1)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+
+        {outputs.epidemiology && (
+          <>
+            <h3 style={{ fontSize: '1rem', margin: '1rem 0 0.5rem' }}>Patient funnel (at peak)</h3>
+            <EpidemiologyFunnel forecast={outputs.epidemiology} money={money} />
+            <div style={{ fontSize: '0.8rem', color: '#666', marginTop: 4 }}>Uptake: {describeSalesCurve(outputs.epidemiology.salesCurve)}</div>
+          </>
+        )}
+
+        {outputs.decisionTree && outputs.decisionTree.gates.length > 0 && (
+          <>
+            <h3 style={{ fontSize: '1rem', margin: '1rem 0 0.5rem' }}>Decision tree (phase gates, {currency} M PV if the gate is reached)</h3>
+            <table style={{ borderCollapse: 'collapse', fontSize: '0.85rem', width: '100%' }}>
+              <thead>
+                <tr>
+                  {['Gate', 'Year', 'P(reach)', 'Phase cost PV', 'Value if continued', 'Decision', 'Option to stop'].map((h) => (
+                    <th key={h} style={{ padding: '0.25rem 0.5rem', textAlign: 'left' }}>{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {outputs.decisionTree.gates.map((g) => (
+                  <tr key={g.phase}>
+                    <td style={{ padding: '0.25rem 0.5rem' }}>{g.phase}</td>
+                    <td style={{ padding: '0.25rem 0.5rem' }}>{g.year.toFixed(1)}</td>
+                    <td style={{ padding: '0.25rem 0.5rem' }}>{(g.probabilityOfReaching * 100).toFixed(1)}%</td>
+                    <td style={{ padding: '0.25rem 0.5rem' }}>{g.costPV.toFixed(1)}</td>
+                    <td style={{ padding: '0.25rem 0.5rem' }}>{g.continueValue.toFixed(1)}</td>
+                    <td style={{ padding: '0.25rem 0.5rem', color: g.abandon ? '#b91c1c' : undefined }}>{g.abandon ? 'Abandon' : 'Continue'}</td>
+                    <td style={{ padding: '0.25rem 0.5rem' }}>{g.optionValue.toFixed(1)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div style={{ fontSize: '0.8rem', color: '#666', marginTop: 4 }}>
+              Committed to all phases: {money(outputs.decisionTree.committedNpv)} (rNPV) · with abandonment: {money(outputs.decisionTree.enpv)} · options worth {money(outputs.decisionTree.optionValue)}
+            </div>
+          </>
+        )}
+
+        {outputs.schedule && outputs.schedule.length > 0 && (
+          <>
+            <h3 style={{ fontSize: '1rem', margin: '1rem 0 0.5rem' }}>Cashflow schedule ({role === 'OWNER' ? 'owner' : 'licensor'}, {currency} M)</h3>
+            <div style={{ overflowX: 'auto' }}>
+              <table style={{ borderCollapse: 'collapse', fontSize: '0.8rem', width: '100%' }}>
+                <thead>
+                  <tr>
+                    {(role === 'OWNER'
+                      ? ['Year', 'Revenue', 'COGS', 'Commercial', 'Working cap.', 'Tax', 'Net CF', 'DF', 'PV', 'Cum. PV']
+                      : ['Year', 'Sales', 'Royalty %', 'Royalty income', 'Tax', 'Net CF', 'DF', 'PV', 'Cum. PV']
+                    ).concat(scheduleMarkets.map((m) => `${m} sales`)).map((h) => <th key={h} style={{ padding: '0.25rem 0.5rem', textAlign: 'right' }}>{h}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {outputs.schedule.map((r) => (
+                    <tr key={r.year}>
+                      {(role === 'OWNER'
+                        ? [r.year, r.revenue, r.cogs, r.commercialSpend, r.workingCapitalChange, r.tax, r.netCashflow, r.discountFactor, r.pv, r.cumulativePv]
+                        : [r.year, r.productSales ?? 0, r.royaltyRate ?? 0, r.revenue, r.tax, r.netCashflow, r.discountFactor, r.pv, r.cumulativePv]
+                      ).concat(scheduleMarkets.map((m) => r.marketSales?.[m] ?? 0)).map((v, k) => (
+                        <td key={k} style={{ padding: '0.25rem 0.5rem', textAlign: 'right' }}>
+                          {k === 0 ? v : v.toFixed(k === (role === 'OWNER' ? 7 : 6) ? 3 : 1)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        {/* Tornado: bars extend left/right of base rNPV for the low/high case */}
+        <h3 style={{ fontSize: '1rem', margin: '1rem 0 0.5rem' }}>Top rNPV drivers (tornado)</h3>
+        <div style={{ display: 'grid', gridTemplateColumns: '160px 1fr', gap: '0.25rem', fontSize: '0.85rem' }}>
+          {tornadoBars.map((b) => {
+            const lo = Math.min(b.rnpvLow, b.rnpvHigh) - rnpv;
+            const hi = Math.max(b.rnpvLow, b.rnpvHigh) - rnpv;
+            return [
+              <div key={`${b.field}-label`} title={`${b.low.toFixed(2)} → ${b.high.toFixed(2)}`}>{b.field}</div>,
+              <div key={`${b.field}-bar`} style={{ position: 'relative', height: 16, background: '#f3f4f6' }}>
+                <div style={{
+                  position: 'absolute', top: 0, bottom: 0, background: '#60a5fa',
+                  left: `${50 + (lo / tornadoMax) * 50}%`, width: `${((hi - lo) / tornadoMax) * 50}%`,
+                }} />
+                <div style={{ position: 'absolute', top: 0, bottom: 0, left: '50%', width: 1, background: '#111' }} />
+                <span style={{ position: 'absolute', right: 4, fontSize: '0.75rem' }}>±{money(b.swing / 2)}</span>
+              </div>,
+            ];
+          })}
+        </div>
+
+        <h3 style={{ fontSize: '1rem', margin: '1rem 0 0.5rem' }}>Two-way rNPV table</h3>
+        <div style={{ marginBottom: '0.5rem' }}>
+          <select value={twoWayY} onChange={(e) => setTwoWayY(e.target.value as NumericField)} style={{ padding: '0.4rem', marginRight: '0.5rem' }}>
+            {numericFields.map((f) => <option key={f} value={f}>{f}</option>)}
+          </select>
+          ×{' '}
+          <select value={twoWayX} onChange={(e) => setTwoWayX(e.target.value as NumericField)} style={{ padding: '0.4rem' }}>
+            {numericFields.map((f) => <option key={f} value={f}>{f}</option>)}
+          </select>
+        </div>
+        <table style={{ borderCollapse: 'collapse', fontSize: '0.85rem' }}>
+          <thead>
+            <tr>
+              <th style={{ padding: '0.25rem 0.5rem' }}>{twoWay.yField} ↓ · {twoWay.xField} →</th>
+              {twoWay.xValues.map((x) => <th key={x} style={{ padding: '0.25rem 0.5rem' }}>{x.toFixed(2)}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {twoWay.yValues.map((y, r) => (
+              <tr key={y}>
+                <th style={{ padding: '0.25rem 0.5rem' }}>{y.toFixed(2)}</th>
+                {twoWay.rnpv[r].map((v, c) => (
+                  <td key={c} style={{ padding: '0.25rem 0.5rem', textAlign: 'right', color: v < 0 ? '#b91c1c' : undefined }}>{money(v)}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      {/* Scenarios */}
+      <section style={{ marginBottom: '1rem' }}>
+        <h2 style={{ fontSize: '1.25rem', marginBottom: '0.5rem' }}>Scenarios</h2>
+        <div style={{ marginBottom: '0.5rem' }}>
+          {scenarios.length === 0 && (
+            <button type="button" onClick={() => setScenarios(defaultScenarios(getInputs()))} style={{ padding: '0.4rem', marginRight: '0.5rem' }}>Add low/base/high</button>
+          )}
+          <button type="button" onClick={() => setScenarios([...scenarios, { name: `Scenario ${scenarios.length + 1}`, weight: 0, overrides: {} }])} style={{ padding: '0.4rem' }}>Add scenario</button>
+        </div>
+        <ScenarioEditor value={scenarios} onChange={setScenarios} />
+        {scenarioOutputs && (
+          <table style={{ borderCollapse: 'collapse', fontSize: '0.85rem', width: '100%', marginTop: '0.75rem' }}>
+            <thead>
+              <tr>
+                <th style={{ padding: '0.25rem 0.5rem', textAlign: 'left' }} />
+                {scenarioOutputs.results.map((r) => <th key={r.name} style={{ padding: '0.25rem 0.5rem', textAlign: 'right' }}>{r.name} ({(r.weight * 100).toFixed(0)}%)</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {([
+                ['Launch', (o) => String(o.launchYear ?? '')],
+                ['PTRS', (o) => `${(o.ptrs * 100).toFixed(1)}%`],
+                ['Owner PV', (o) => money(o.ownerPV ?? 0)],
+                ['Licensor PV', (o) => money(o.licensorPV ?? 0)],
+                ['rNPV', (o) => money(o.rnpv)],
+              ] as [string, (o: typeof outputs) => string][]).map(([label, fmt]) => (
+                <tr key={label}>
+                  <th style={{ padding: '0.25rem 0.5rem', textAlign: 'left' }}>{label}</th>
+                  {scenarioOutputs.results.map((r) => <td key={r.name} style={{ padding: '0.25rem 0.5rem', textAlign: 'right' }}>{fmt(r.outputs)}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {scenarioOutputs && <div style={{ marginTop: '0.5rem' }}><strong>Probability-weighted rNPV:</strong> {money(scenarioOutputs.expectedRnpv)}</div>}
+      </section>
+
+      {/* Deal negotiation */}
+      {split && (
+        <section style={{ marginBottom: '1rem' }}>
+          <h2 style={{ fontSize: '1.25rem', marginBottom: '0.5rem' }}>Deal Negotiation</h2>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '0.5rem', marginBottom: '0.5rem' }}>
+            <div><strong>Asset rNPV:</strong> {money(split.assetRnpv)}</div>
+            <div><strong>Licensor rNPV:</strong> {money(split.licensorRnpv)}</div>
+            <div><strong>Licensee rNPV:</strong> {money(split.licenseeRnpv)}</div>
+            <div><strong>Licensor share:</strong> {(split.licensorShare * 100).toFixed(1)}%</div>
+            <div><strong>Licensee share:</strong> {(split.licenseeShare * 100).toFixed(1)}%</div>
+            <div><strong>Licensee IRR:</strong> {split.licenseeIrr == null ? 'n/a' : `${(split.licenseeIrr * 100).toFixed(1)}%`}</div>
+          </div>
+          <div style={{ display: 'flex', height: 16, marginBottom: '0.75rem', borderRadius: 4, overflow: 'hidden' }}>
+            <div style={{ width: `${Math.min(100, Math.max(0, split.licensorShare * 100))}%`, background: '#60a5fa' }} title="Licensor" />
+            <div style={{ flex: 1, background: '#fbbf24' }} title="Licensee" />
+          </div>
+          <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
+            <span>Solve</span>
+            <select value={dealLever} onChange={(e) => setDealLever(e.target.value as DealLever)} style={{ padding: '0.4rem' }}>
+              <option value="royalty">royalty rates</option>
+              <option value="upfront">upfront</option>
+            </select>
+            <span>so that</span>
+            <select value={dealTargetKind} onChange={(e) => setDealTargetKind(e.target.value as DealTarget['kind'])} style={{ padding: '0.4rem' }}>
+              <option value="licensorShare">licensor share</option>
+              <option value="licenseeIrr">licensee IRR</option>
+            </select>
+            <span>=</span>
+            <input type="number" min={0} max={1} step="0.05" value={dealTargetValue} onChange={(e) => setDealTargetValue(Number(e.target.value))} style={{ width: 80, padding: '0.4rem' }} />
+            <button type="button" onClick={runDealSolver} style={{ padding: '0.4rem' }}>Solve</button>
+          </div>
+          {dealSolution && (
+            <div style={{ fontSize: '0.9rem', marginTop: '0.5rem' }}>
+              {!dealSolution.converged && <div style={{ color: '#b91c1c' }}>Target not reachable with this lever; showing the closest bound.</div>}
+              {dealSolution.lever === 'upfront'
+                ? <div><strong>Upfront:</strong> {currency} {dealSolution.terms.upfront.toFixed(1)}M</div>
+                : <div><strong>Tiers:</strong> {dealSolution.terms.tiers.map((t) => `${t.rate.toFixed(2)}%${t.upTo != null ? ` ≤ ${money(t.upTo)}` : ' above'}`).join(', ')}</div>}
+              <div>
+                Licensor share {(dealSolution.split.licensorShare * 100).toFixed(1)}%, licensee IRR{' '}
+                {dealSolution.split.licenseeIrr == null ? 'n/a' : `${(dealSolution.split.licenseeIrr * 100).toFixed(1)}%`}
+              </div>
+              <button type="button" onClick={() => { setDealTerms(dealSolution.terms); setDealSolution(null); }} style={{ padding: '0.4rem', marginTop: '0.25rem' }}>Apply terms</button>
+            </div>
+          )}
+        </section>
+      )}
+
+      {/* Monte Carlo */}
+      <section style={{ marginBottom: '1rem' }}>
+        <h2 style={{ fontSize: '1.25rem', marginBottom: '0.5rem' }}>Monte Carlo Simulation</h2>
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '1rem', marginBottom: '0.5rem' }}>
+          <div><label>Peak sales spread (±fraction)</label><input type="number" min={0} max={1} step="0.05" value={simSalesSpread} onChange={(e) => setSimSalesSpread(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} /></div>
+          <div><label>Max launch slip (years)</label><input type="number" min={0} max={10} value={simLaunchSlip} onChange={(e) => setSimLaunchSlip(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} /></div>
+          <div><label>Discount rate SD</label><input type="number" min={0} max={0.1} step="0.005" value={simDiscountSd} onChange={(e) => setSimDiscountSd(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} /></div>
+          <div><label>Iterations</label><input type="number" min={100} max={MAX_ITERATIONS} step={100} value={simIterations} onChange={(e) => setSimIterations(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} /></div>
+          <div><label>Seed</label><input type="number" value={simSeed} onChange={(e) => setSimSeed(Number(e.target.value))} style={{ width: '100%', padding: '0.4rem' }} /></div>
+        </div>
+        <button onClick={runSimulation} style={{ padding: '0.4rem', marginBottom: '0.5rem' }}>Run Simulation</button>
+        {simResult && (
+          <div>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '0.5rem', marginBottom: '0.5rem' }}>
+              <div><strong>P10:</strong> {money(simResult.p10)}</div>
+              <div><strong>P50:</strong> {money(simResult.p50)}</div>
+              <div><strong>P90:</strong> {money(simResult.p90)}</div>
+              <div><strong>Mean:</strong> {money(simResult.mean)}</div>
+              <div><strong>P(NPV &lt; 0):</strong> {(simResult.probNegative * 100).toFixed(1)}%</div>
+              <div><strong>Success rate:</strong> {(simResult.successRate * 100).toFixed(1)}%</div>
+            </div>
+            <div style={{ display: 'flex', alignItems: 'flex-end', gap: 2, height: 120 }}>
+              {simResult.histogram.map((b) => {
+                const max = Math.max(...simResult.histogram.map((h) => h.count)) || 1;
+                return (
+                  <div
+                    key={b.from}
+                    title={`${money(b.from)} to ${money(b.to)}: ${b.count}`}
+                    style={{ flex: 1, height: `${(b.count / max) * 100}%`, background: b.to <= 0 ? '#f87171' : '#60a5fa' }}
+                  />
+                );
+              })}
+            </div>
+            <div style={{ fontSize: '0.85rem', color: '#555', marginTop: 4 }}>
+              {simResult.iterations} iterations, seed {simResult.seed}
+            </div>
+          </div>
+        )}
       </section>
 
       {/* Save, Load, Export */}
       <section style={{ marginBottom: '1rem' }}>
         <h2 style={{ fontSize: '1.25rem', marginBottom: '0.5rem' }}>Save, Load, Share & Export</h2>
         <div style={{ marginBottom: '0.5rem' }}>
-          <button onClick={saveValuation} style={{ padding: '0.4rem', marginRight: '0.5rem' }}>Save Valuation</button>
+          <button onClick={saveValuation} style={{ padding: '0.4rem', marginRight: '0.5rem' }}>{savedId ? 'Save Revision' : 'Save Valuation'}</button>
+          {savedId && revision != null && (
+            <span style={{ fontSize: '0.85rem', color: '#555', marginRight: '0.5rem' }}>
+              ID {savedId} · rev {revision} · <a href={`/api/valuation/${savedId}/history`} target="_blank" rel="noopener noreferrer">history</a>
+            </span>
+          )}
           {saveError && <span style={{ color: 'red' }}>{saveError}</span>}
         </div>
-        {shareLink && (
-          <div style={{ marginBottom: '0.5rem' }}>
-            <span><strong>Share URL:</strong> </span>
-            <a href={shareLink} target="_blank" rel="noopener noreferrer">{shareLink}</a>
-          </div>
-        )}
+        {savedId && <ShareLinksPanel valuationId={savedId} notify={notify} />}
         <div style={{ marginBottom: '0.5rem' }}>
           <input
             type="text"
-            placeholder="Enter ID or slug"
+            placeholder="Enter valuation ID"
             value={loadId}
             onChange={(e) => setLoadId(e.target.value)}
             style={{ padding: '0.4rem', marginRight: '0.5rem' }}
@@ -398,6 +1076,10 @@ export default function Home() {
         </div>
       </section>
 
+      <section style={{ marginBottom: '1rem' }}>
+        <AssistantPanel valuation={{ inputs: getInputs(), outputs }} onApplyPatch={applyInputPatch} />
+      </section>
+
       <p style={{ fontSize: '0.9rem', color: '#666' }}>
         Toggle mode to value the asset as an OWNER vs a LICENSOR. rNPV/ROI use the selected mode’s PV.
       </p>
@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { useRouter } from 'next/router';
+
+const input = { width: '100%', padding: '0.4rem', marginBottom: '0.5rem' };
+
+export default function Login() {
+  const router = useRouter();
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [email, setEmail] = useState<string>('');
+  const [password, setPassword] = useState<string>('');
+  const [name, setName] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/auth/${mode}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(mode === 'register' ? { email, password, name } : { email, password }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || `Failed: ${res.status}`);
+      // Only same-site paths, so ?next= can't bounce the user elsewhere
+      const next = router.query.next;
+      router.push(typeof next === 'string' && next.startsWith('/') && !next.startsWith('//') ? next : '/');
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <main style={{ padding: '2rem', maxWidth: '420px', margin: '0 auto', fontFamily: 'sans-serif' }}>
+      <h1 style={{ fontSize: '1.5rem', marginBottom: '1rem' }}>{mode === 'login' ? 'Sign in' : 'Create account'}</h1>
+      <form onSubmit={submit}>
+        {mode === 'register' && (
+          <>
+            <label>Name</label>
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} style={input} />
+          </>
+        )}
+        <label>Email</label>
+        <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} required style={input} />
+        <label>Password</label>
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+          autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+          style={input}
+        />
+        {error && <div style={{ color: 'red', marginBottom: '0.5rem' }}>{error}</div>}
+        <button type="submit" disabled={busy} style={{ padding: '0.4rem 0.8rem' }}>
+          {mode === 'login' ? 'Sign in' : 'Create account'}
+        </button>
+      </form>
+      <p style={{ marginTop: '1rem', fontSize: '0.9rem' }}>
+        {mode === 'login' ? 'No account yet? ' : 'Already registered? '}
+        <button type="button" onClick={() => { setMode(mode === 'login' ? 'register' : 'login'); setError(null); }} style={{ padding: '0.1rem 0.4rem' }}>
+          {mode === 'login' ? 'Create one' : 'Sign in'}
+        </button>
+      </p>
+    </main>
+  );
+}
@@ -0,0 +1,188 @@
+import { useEffect, useState } from 'react';
+import { Toast, ToastKind } from '../components/Toast';
+import { AccountBar } from '../components/AccountBar';
+import type { Portfolio, PortfolioAnalysis } from '../lib/types';
+import { currencies, formatMoney } from '../lib/fx';
+
+const input = { width: '100%', padding: '0.4rem' };
+
+export default function Portfolios() {
+  const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<{ portfolio: Portfolio; analysis: PortfolioAnalysis } | null>(null);
+
+  // Editor
+  const [name, setName] = useState<string>('');
+  const [idsText, setIdsText] = useState<string>('');
+  const [correlation, setCorrelation] = useState<number>(0.3);
+  const [currency, setCurrency] = useState<string>('USD');
+
+  // Toasts
+  const [toastMsg, setToastMsg] = useState<string | null>(null);
+  const [toastKind, setToastKind] = useState<ToastKind>('info');
+  const notify = (message: string, kind: ToastKind = 'info') => {
+    setToastMsg(message);
+    setToastKind(kind);
+    setTimeout(() => setToastMsg(null), 4000);
+  };
+
+  const refresh = async () => {
+    try {
+      const res = await fetch('/api/portfolios');
+      const data = await res.json();
+      if (res.ok) setPortfolios(data);
+    } catch { notify('Could not load portfolios.', 'error'); }
+  };
+  useEffect(() => { refresh(); }, []);
+
+  const open = async (id: string, reportIn = currency) => {
+    try {
+      const res = await fetch(`/api/portfolios/${encodeURIComponent(id)}?currency=${encodeURIComponent(reportIn)}`);
+      const data = await res.json();
+      if (!res.ok) return notify(data?.error ?? 'Load failed.', 'error');
+      setSelected(data);
+      setName(data.portfolio.name);
+      setIdsText(data.portfolio.valuationIds.join(', '));
+      setCorrelation(data.portfolio.correlation);
+    } catch { notify('Load failed.', 'error'); }
+  };
+
+  const save = async () => {
+    const body = {
+      name: name.trim(),
+      valuationIds: idsText.split(',').map((v) => v.trim()).filter(Boolean),
+      correlation,
+      ...(selected ? {} : { workspaceId }),
+    };
+    if (!body.name) return notify('Name the portfolio first.', 'error');
+    try {
+      const id = selected?.portfolio.id;
+      const res = await fetch(id ? `/api/portfolios/${encodeURIComponent(id)}` : '/api/portfolios', {
+        method: id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) return notify(data?.fields?.[0]?.message ?? data?.error ?? 'Save failed.', 'error');
+      notify('Portfolio saved.', 'success');
+      await refresh();
+      await open(data.id);
+    } catch { notify('Save failed.', 'error'); }
+  };
+
+  const remove = async () => {
+    if (!selected) return;
+    try {
+      const res = await fetch(`/api/portfolios/${encodeURIComponent(selected.portfolio.id)}`, { method: 'DELETE' });
+      if (!res.ok) return notify('Delete failed.', 'error');
+      setSelected(null);
+      setName(''); setIdsText('');
+      notify('Portfolio deleted.', 'success');
+      refresh();
+    } catch { notify('Delete failed.', 'error'); }
+  };
+
+  const a = selected?.analysis;
+  const money = (v: number) => formatMoney(v, a?.currency);
+  const changeCurrency = (next: string) => {
+    setCurrency(next);
+    if (selected) open(selected.portfolio.id, next);
+  };
+  const maxYear = a ? Math.max(1, ...a.years.map((y) => Math.max(Math.abs(y.cashflow), y.devSpend))) : 1;
+  const maxProb = a ? Math.max(0.01, ...a.launchDistribution) : 1;
+
+  return (
+    <main style={{ padding: '2rem', maxWidth: '980px', margin: '0 auto', fontFamily: 'sans-serif' }}>
+      <h1 style={{ fontSize: '2rem', marginBottom: '1rem' }}>Portfolio Dashboard</h1>
+      <AccountBar workspaceId={workspaceId} onWorkspaceChange={setWorkspaceId} />
+      {toastMsg && <div style={{ marginBottom: '0.75rem' }}><Toast message={toastMsg} kind={toastKind} /></div>}
+
+      <section style={{ marginBottom: '1rem' }}>
+        <strong>Portfolios:</strong>{' '}
+        {portfolios.length === 0 && <span style={{ color: '#666' }}>none yet</span>}
+        {portfolios.map((p) => (
+          <button key={p.id} onClick={() => open(p.id)} style={{ padding: '0.3rem 0.6rem', marginRight: '0.5rem' }}>{p.name}</button>
+        ))}
+        <button onClick={() => { setSelected(null); setName(''); setIdsText(''); }} style={{ padding: '0.3rem 0.6rem' }}>+ New</button>
+      </section>
+
+      <section style={{ marginBottom: '1rem', display: 'grid', gridTemplateColumns: '1fr 2fr 1fr', gap: '1rem' }}>
+        <div><label>Name</label><input type="text" value={name} onChange={(e) => setName(e.target.value)} style={input} /></div>
+        <div><label>Valuation IDs (comma-separated)</label><input type="text" value={idsText} onChange={(e) => setIdsText(e.target.value)} style={input} /></div>
+        <div><label>Shared target/mechanism correlation</label><input type="number" min={0} max={1} step="0.05" value={correlation} onChange={(e) => setCorrelation(Number(e.target.value))} style={input} /></div>
+        <div style={{ gridColumn: '1 / -1' }}>
+          <button onClick={save} style={{ padding: '0.4rem', marginRight: '0.5rem' }}>{selected ? 'Update Portfolio' : 'Create Portfolio'}</button>
+          {selected && <button onClick={remove} style={{ padding: '0.4rem' }}>Delete</button>}
+        </div>
+      </section>
+
+      {a && (
+        <>
+          <section style={{ marginBottom: '1rem' }}>
+            <h2 style={{ fontSize: '1.25rem', marginBottom: '0.5rem' }}>Pipeline</h2>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.5rem', marginBottom: '0.5rem' }}>
+              <div><strong>Total rNPV:</strong> {money(a.totalRnpv)}</div>
+              <div><strong>Expected launches:</strong> {a.expectedLaunches.toFixed(2)}</div>
+              <div>
+                <strong>Report in:</strong>{' '}
+                <select value={currency} onChange={(e) => changeCurrency(e.target.value)} style={{ padding: '0.2rem' }}>
+                  {currencies().map((c) => <option key={c}>{c}</option>)}
+                </select>
+              </div>
+            </div>
+            {a.missing.length > 0 && <div style={{ color: '#b91c1c', marginBottom: '0.5rem' }}>Not found: {a.missing.join(', ')}</div>}
+            <table style={{ borderCollapse: 'collapse', fontSize: '0.85rem', width: '100%' }}>
+              <thead>
+                <tr>{['Valuation', 'Asset', 'Launch', 'PTRS', `rNPV (${a.currency} M)`].map((h) => <th key={h} style={{ padding: '0.25rem 0.5rem', textAlign: 'left' }}>{h}</th>)}</tr>
+              </thead>
+              <tbody>
+                {a.assets.map((x) => (
+                  <tr key={x.id}>
+                    <td style={{ padding: '0.25rem 0.5rem' }}><a href={`/api/valuation/${x.id}`}>{x.id}</a></td>
+                    <td style={{ padding: '0.25rem 0.5rem' }}>{x.label}</td>
+                    <td style={{ padding: '0.25rem 0.5rem' }}>{x.launchYear}</td>
+                    <td style={{ padding: '0.25rem 0.5rem' }}>{(x.ptrs * 100).toFixed(1)}%</td>
+                    <td style={{ padding: '0.25rem 0.5rem' }}>{Math.round(x.rnpv)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {a.correlatedGroups.length > 0 && (
+              <div style={{ fontSize: '0.85rem', color: '#555', marginTop: 4 }}>
+                Correlated groups: {a.correlatedGroups.map((g) => `[${g.join(', ')}]`).join(' ')}
+              </div>
+            )}
+          </section>
+
+          <section style={{ marginBottom: '1rem' }}>
+            <h2 style={{ fontSize: '1.25rem', marginBottom: '0.5rem' }}>Yearly profile (risk-weighted)</h2>
+            <div style={{ display: 'flex', alignItems: 'flex-end', gap: 2, height: 140 }}>
+              {a.years.map((y) => (
+                <div key={y.year} title={`${y.year}: cashflow ${money(y.cashflow)}, dev spend ${money(y.devSpend)}`} style={{ flex: 1, display: 'flex', gap: 1, alignItems: 'flex-end', height: '100%' }}>
+                  <div style={{ flex: 1, height: `${(Math.max(0, y.cashflow) / maxYear) * 100}%`, background: '#60a5fa' }} />
+                  <div style={{ flex: 1, height: `${(y.devSpend / maxYear) * 100}%`, background: '#f87171' }} />
+                </div>
+              ))}
+            </div>
+            <div style={{ fontSize: '0.85rem', color: '#555', marginTop: 4 }}>
+              {a.years.length ? `${a.years[0].year}–${a.years[a.years.length - 1].year}` : ''} · blue: net cashflow, red: development spend
+            </div>
+          </section>
+
+          <section style={{ marginBottom: '1rem' }}>
+            <h2 style={{ fontSize: '1.25rem', marginBottom: '0.5rem' }}>Number of launches</h2>
+            <div style={{ display: 'flex', alignItems: 'flex-end', gap: 4, height: 120 }}>
+              {a.launchDistribution.map((p, k) => (
+                <div key={k} style={{ flex: 1, textAlign: 'center', height: '100%', display: 'flex', flexDirection: 'column', justifyContent: 'flex-end' }}>
+                  <div style={{ fontSize: '0.75rem' }}>{(p * 100).toFixed(1)}%</div>
+                  <div style={{ height: `${(p / maxProb) * 80}%`, background: '#34d399' }} />
+                  <div style={{ fontSize: '0.75rem' }}>{k}</div>
+                </div>
+              ))}
+            </div>
+          </section>
+        </>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,66 @@
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/router';
+import { ValuationReport } from '../../components/ValuationReport';
+import type { TornadoBar, Valuation } from '../../lib/types';
+
+type Shared = {
+  valuation: Omit<Valuation, 'ownerId' | 'workspaceId'>;
+  tornado: TornadoBar[];
+  link: { expiresAt: string | null; views: number };
+};
+
+/** Read-only view behind a public share link; no editing controls. */
+export default function SharedValuation() {
+  const router = useRouter();
+  const slug = typeof router.query.slug === 'string' ? router.query.slug : null;
+  const [data, setData] = useState<Shared | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [needsPassword, setNeedsPassword] = useState(false);
+  const [password, setPassword] = useState<string>('');
+
+  const open = async (pw?: string) => {
+    if (!slug) return;
+    setError(null);
+    try {
+      const res = await fetch(`/api/valuation/share/${encodeURIComponent(slug)}`, pw === undefined
+        ? undefined
+        : { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ password: pw }) });
+      const body = await res.json();
+      if (!res.ok) {
+        setNeedsPassword(['password_required', 'wrong_password', 'too_many_attempts'].includes(body?.reason));
+        if (body?.reason !== 'password_required') setError(body?.error || `Failed: ${res.status}`);
+        return;
+      }
+      setNeedsPassword(false);
+      setData(body);
+    } catch {
+      setError('Could not load this valuation.');
+    }
+  };
+  useEffect(() => { open(); }, [slug]);
+
+  return (
+    <main style={{ padding: '2rem', maxWidth: '980px', margin: '0 auto', fontFamily: 'sans-serif' }}>
+      <h1 style={{ fontSize: '2rem', marginBottom: '0.25rem' }}>
+        {data ? `${data.valuation.inputs.indication} · ${data.valuation.inputs.phase}` : 'Shared valuation'}
+      </h1>
+      {data && (
+        <p style={{ color: '#666', fontSize: '0.85rem', marginBottom: '1rem' }}>
+          Read-only · revision {data.valuation.revision} saved {new Date(data.valuation.createdAt).toLocaleDateString()}
+          {data.link.expiresAt && <> · link expires {new Date(data.link.expiresAt).toLocaleDateString()}</>}
+        </p>
+      )}
+      {needsPassword && (
+        <form onSubmit={(e) => { e.preventDefault(); open(password); }} style={{ marginBottom: '1rem' }}>
+          <label>This link is password protected</label>
+          <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
+            <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} autoFocus style={{ padding: '0.4rem' }} />
+            <button type="submit" style={{ padding: '0.4rem' }}>View</button>
+          </div>
+        </form>
+      )}
+      {error && <p style={{ color: 'red' }}>{error}</p>}
+      {data && <ValuationReport valuation={data.valuation} tornado={data.tornado} />}
+    </main>
+  );
+}
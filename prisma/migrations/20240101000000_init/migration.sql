@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "Valuation" (
+    "id" TEXT NOT NULL,
+    "shareSlug" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "payload" JSONB NOT NULL,
+
+    CONSTRAINT "Valuation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Valuation_shareSlug_key" ON "Valuation"("shareSlug");
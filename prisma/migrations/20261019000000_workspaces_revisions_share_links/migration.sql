@@ -0,0 +1,99 @@
+-- AlterTable
+-- ownerId/workspaceId stay null on existing rows until an admin claims them (POST /api/admin/claim-legacy)
+ALTER TABLE "Valuation" ADD COLUMN     "ownerId" TEXT,
+ADD COLUMN     "revision" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "workspaceId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ValuationRevision" (
+    "valuationId" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "payload" JSONB NOT NULL,
+
+    CONSTRAINT "ValuationRevision_pkey" PRIMARY KEY ("valuationId","revision")
+);
+
+-- CreateTable
+CREATE TABLE "Portfolio" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "ownerId" TEXT,
+    "workspaceId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "payload" JSONB NOT NULL,
+
+    CONSTRAINT "Portfolio_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "User" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "passwordHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "User_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Workspace" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Workspace_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WorkspaceMember" (
+    "workspaceId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+
+    CONSTRAINT "WorkspaceMember_pkey" PRIMARY KEY ("workspaceId","userId")
+);
+
+-- CreateTable
+CREATE TABLE "ShareLink" (
+    "slug" TEXT NOT NULL,
+    "valuationId" TEXT NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3),
+    "passwordHash" TEXT,
+    "revokedAt" TIMESTAMP(3),
+    "views" INTEGER NOT NULL DEFAULT 0,
+    "lastViewedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ShareLink_pkey" PRIMARY KEY ("slug")
+);
+
+-- MigrateData
+-- Every valuation had exactly one public slug; keep those URLs working as open, non-expiring links.
+-- createdBy 'legacy' marks links that predate user accounts. They resolve once the valuation is claimed.
+INSERT INTO "ShareLink" ("slug", "valuationId", "createdBy", "createdAt")
+SELECT "shareSlug", "id", 'legacy', "createdAt" FROM "Valuation";
+
+-- DropIndex
+DROP INDEX "Valuation_shareSlug_key";
+
+-- AlterTable
+ALTER TABLE "Valuation" DROP COLUMN "shareSlug";
+
+-- CreateIndex
+CREATE INDEX "Valuation_workspaceId_idx" ON "Valuation"("workspaceId");
+
+-- CreateIndex
+CREATE INDEX "Portfolio_workspaceId_idx" ON "Portfolio"("workspaceId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_email_key" ON "User"("email");
+
+-- CreateIndex
+CREATE INDEX "WorkspaceMember_userId_idx" ON "WorkspaceMember"("userId");
+
+-- CreateIndex
+CREATE INDEX "ShareLink_valuationId_idx" ON "ShareLink"("valuationId");